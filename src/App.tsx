@@ -10,6 +10,8 @@ import SharePage from "./components/SharePage";
 import SlackDemo from "./pages/SlackDemo";
 import History from "./pages/History";
 import Settings from "./pages/Settings";
+import Glossary from "./pages/Glossary";
+import Architecture from "./pages/Architecture";
 import { BookOpen, GitBranch, Blocks, PieChart, Slack, History as HistoryIcon, Settings as SettingsIcon } from "lucide-react";
 
 // Make the icons available globally to ensure they're imported for SharePage
@@ -30,6 +32,8 @@ const App = () => (
           <Route path="/slack-demo" element={<SlackDemo />} />
           <Route path="/history" element={<History />} />
           <Route path="/settings" element={<Settings />} />
+          <Route path="/glossary" element={<Glossary />} />
+          <Route path="/architecture" element={<Architecture />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
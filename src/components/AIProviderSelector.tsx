@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  getAIProviders,
+  getDefaultProviderSettings,
+  getContextTokenBudget,
+  AIProviderId,
+  AnswerVerificationMode,
+} from "@/services/aiProviders";
+import {
+  getCurrentAIProviderSettings,
+  setAIProviderSettings,
+} from "@/services/aiAnalysis";
+
+interface AIProviderSelectorProps {
+  onChange?: () => void;
+}
+
+export function AIProviderSelector({ onChange }: AIProviderSelectorProps) {
+  const [settings, setSettings] = useState(getCurrentAIProviderSettings());
+  const providers = getAIProviders();
+  const supportsEmbeddings = providers.some(
+    (provider) => provider.id === settings.provider && provider.embed
+  );
+
+  const handleProviderChange = (value: string) => {
+    // Switching provider resets base URL and model to that provider's defaults
+    setSettings({
+      ...getDefaultProviderSettings(value as AIProviderId),
+      confidenceSelfCheck: settings.confidenceSelfCheck,
+      answerVerification: settings.answerVerification,
+    });
+  };
+
+  const handleSave = () => {
+    setAIProviderSettings(settings);
+    setSettings(getCurrentAIProviderSettings());
+    toast.success("AI provider settings saved", {
+      description: `Using ${settings.model || "the default model"}`,
+    });
+    onChange?.();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="ai-provider">Provider</Label>
+        <Select value={settings.provider} onValueChange={handleProviderChange}>
+          <SelectTrigger id="ai-provider">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {providers.map((provider) => (
+              <SelectItem key={provider.id} value={provider.id}>
+                {provider.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="ai-base-url">Base URL</Label>
+          <Input
+            id="ai-base-url"
+            value={settings.baseUrl}
+            onChange={(e) =>
+              setSettings({ ...settings, baseUrl: e.target.value })
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ai-model">Model</Label>
+          <Input
+            id="ai-model"
+            value={settings.model}
+            onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ai-embedding-model">Embedding Model</Label>
+        {supportsEmbeddings ? (
+          <Input
+            id="ai-embedding-model"
+            value={settings.embeddingModel || ""}
+            onChange={(e) =>
+              setSettings({ ...settings, embeddingModel: e.target.value })
+            }
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This provider has no embeddings API, so search falls back to a
+            built-in lexical index that matches spelling, not meaning.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ai-context-budget">Context Budget (tokens)</Label>
+        <Input
+          id="ai-context-budget"
+          type="number"
+          min={1}
+          value={settings.contextTokenBudget || ""}
+          placeholder={`Automatic (${getContextTokenBudget({
+            ...settings,
+            contextTokenBudget: undefined,
+          })} for this model)`}
+          onChange={(e) =>
+            setSettings({
+              ...settings,
+              contextTokenBudget: Number(e.target.value) || undefined,
+            })
+          }
+        />
+        <p className="text-xs text-muted-foreground">
+          How much code is sent with each question. Raise it for long-context
+          models or when a local server runs with a larger context size.
+        </p>
+      </div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="ai-confidence-self-check">Answer self-check</Label>
+          <p className="text-xs text-muted-foreground">
+            After each answer, ask the model how well the code supports it and
+            include that in the confidence score. Costs one short extra request.
+          </p>
+        </div>
+        <Switch
+          id="ai-confidence-self-check"
+          checked={settings.confidenceSelfCheck === true}
+          onCheckedChange={(checked) =>
+            setSettings({ ...settings, confidenceSelfCheck: checked })
+          }
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ai-answer-verification">Answer verification</Label>
+        <Select
+          value={settings.answerVerification || "off"}
+          onValueChange={(value) =>
+            setSettings({
+              ...settings,
+              answerVerification: value as AnswerVerificationMode,
+            })
+          }
+        >
+          <SelectTrigger id="ai-answer-verification">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">Off</SelectItem>
+            <SelectItem value="match">Match claims against the code</SelectItem>
+            <SelectItem value="judge">Match and ask the model to judge</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Checks each statement of an answer against the code it was based on
+          and highlights the ones the code doesn't support.
+        </p>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Code context is sent only to the endpoint above. Use a local server to
+        keep source code on your own infrastructure.
+      </p>
+
+      <Button variant="outline" size="sm" onClick={handleSave}>
+        Save Provider Settings
+      </Button>
+    </div>
+  );
+}
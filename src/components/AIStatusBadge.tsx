@@ -16,9 +16,10 @@ import { useState } from "react";
 import { Sparkles, AlertCircle, CheckCircle, KeyRound } from "lucide-react";
 import { 
   hasAICapabilities, 
-  setOpenAIApiKey,
+  setAIApiKey,
   getAPIKeyState
 } from "@/services/aiAnalysis";
+import { getActiveAIProvider } from "@/services/aiProviders";
 import { toast } from "sonner";
 
 interface AIStatusBadgeProps {
@@ -33,15 +34,16 @@ export function AIStatusBadge({ className, onOpenChange, initialOpen = false }:
   const isAIEnabled = hasAICapabilities();
   const apiKeyState = getAPIKeyState();
   const hasError = !!apiKeyState.lastError;
+  const provider = getActiveAIProvider();
   
   const handleSave = () => {
     if (openaiKey.trim()) {
-      setOpenAIApiKey(openaiKey.trim());
+      setAIApiKey(openaiKey.trim());
       setDialogOpen(false);
       setOpenaiKey("");
       toast.success("API key saved successfully");
     } else {
-      toast.error("Please enter a valid OpenAI API key");
+      toast.error(`Please enter a valid ${provider.label} API key`);
     }
   };
 
@@ -85,9 +87,9 @@ export function AIStatusBadge({ className, onOpenChange, initialOpen = false }:
         
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>OpenAI API Key</DialogTitle>
+            <DialogTitle>{provider.label} API Key</DialogTitle>
             <DialogDescription>
-              Enter your OpenAI API key to enable AI-powered code analysis and answers.
+              Enter your {provider.label} API key to enable AI-powered code analysis and answers.
             </DialogDescription>
           </DialogHeader>
           
@@ -113,11 +115,11 @@ export function AIStatusBadge({ className, onOpenChange, initialOpen = false }:
             )}
             
             <div className="space-y-2">
-              <Label htmlFor="openai-key">OpenAI API Key</Label>
+              <Label htmlFor="openai-key">{provider.label} API Key</Label>
               <Input
                 id="openai-key"
                 type="password"
-                placeholder="sk-..."
+                placeholder={provider.apiKeyPlaceholder}
                 value={openaiKey}
                 onChange={(e) => setOpenaiKey(e.target.value)}
                 className="col-span-4"
@@ -1,11 +1,27 @@
-import { useState, useEffect, useRef } from "react";
+import { ComponentPropsWithoutRef, useEffect, useId, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Copy, Mail } from "lucide-react";
+import { Copy, ExternalLink, GitPullRequest, Mail, ShieldAlert, ShieldCheck, Square } from "lucide-react";
 import { toast } from "sonner";
-import ReactMarkdown from "react-markdown";
+import ReactMarkdown, { Options as MarkdownOptions } from "react-markdown";
 import ConfidenceScore from "./ConfidenceScore";
 import CodeReference from "./CodeReference";
 import ScreenshotGallery from "./ScreenshotGallery";
+import ExpertsSection from "./ExpertsSection";
+import DiagramPanel from "./DiagramPanel";
+import {
+  CITATION_HREF_PREFIX,
+  getCitedReferences,
+  linkCitations,
+} from "@/services/citations";
+import { ConfidenceBreakdown } from "@/services/answerConfidence";
+import { AnswerVerification } from "@/services/answerVerification";
+import { Mention } from "@/services/mentions";
+import { Expert } from "@/services/codeOwnership";
+import { getCurrentRepository } from "@/services/githubConnector";
+import rehypeHighlightClaims from "@/lib/highlightClaims";
+import rehypeGlossaryTerms from "@/lib/glossaryTerms";
+import GlossaryTermHover from "./GlossaryTermHover";
+import { getGlossary } from "@/services/knowledgeBase";
 import {
   Card,
   CardContent,
@@ -20,6 +36,13 @@ interface Reference {
   lastUpdated?: string;
   author?: string;
   authorEmail?: string;
+  repository?: {
+    owner: string;
+    repo: string;
+    commitSha?: string;
+  };
+  citation?: number;
+  cited?: boolean;
 }
 
 interface Screenshot {
@@ -31,8 +54,14 @@ interface Screenshot {
 }
 
 interface VisualContext {
-  type: "flowchart" | "component" | "state";
+  type: "flowchart" | "component" | "state" | "sequence" | "er";
   syntax: string;
+  title?: string;
+}
+
+// Element id of the reference an answer cites as [citation]
+function getCitationId(prefix: string, citation: number): string {
+  return `${prefix}citation-${citation}`;
 }
 
 export interface AnswerDisplayProps {
@@ -44,6 +73,8 @@ export interface AnswerDisplayProps {
   references?: Reference[];
   timestamp?: string;
   visualContext?: VisualContext;
+  isStreaming?: boolean;
+  onStop?: () => void;
 }
 
 export default function AnswerDisplay({
@@ -53,13 +84,15 @@ export default function AnswerDisplay({
   references = [],
   timestamp = new Date().toLocaleString(),
   visualContext,
+  isStreaming = false,
+  onStop,
 }: AnswerDisplayProps) {
-  const [displayedParagraphs, setDisplayedParagraphs] = useState<string[]>([]);
-  const [isTyping, setIsTyping] = useState(true);
-  const [paragraphIndex, setParagraphIndex] = useState(0);
   const [showVersionInfo, setShowVersionInfo] = useState(false);
   const [showReferences, setShowReferences] = useState(false);
-  const typingSpeed = 300; // milliseconds per paragraph
+  const [showUncited, setShowUncited] = useState(false);
+  const [showVerification, setShowVerification] = useState(false);
+  const [focusedCitation, setFocusedCitation] = useState<number | null>(null);
+  const citationIdPrefix = useId();
 
   // Handle the answer text and screenshots based on its type
   const answerContent =
@@ -74,40 +107,113 @@ export default function AnswerDisplay({
       ? answer.screenshots
       : undefined;
 
-  const paragraphs = answerContent.split("\n\n").filter((p) => p.trim() !== "");
-  const fullTextRef = useRef(paragraphs);
+  // Passed directly, or carried on the answer
+  const diagram =
+    visualContext ||
+    (typeof answer === "object" && answer && "visualContext" in answer
+      ? (answer.visualContext as VisualContext | undefined)
+      : undefined);
 
-  useEffect(() => {
-    const content =
-      typeof answer === "string"
-        ? answer
-        : answer && typeof answer === "object" && "text" in answer
-        ? answer.text
-        : "No answer text available";
+  const confidenceBreakdown =
+    typeof answer === "object" && answer && "confidenceBreakdown" in answer
+      ? (answer.confidenceBreakdown as ConfidenceBreakdown | undefined)
+      : undefined;
+
+  const standaloneQuestion =
+    typeof answer === "object" && answer && "standaloneQuestion" in answer
+      ? (answer.standaloneQuestion as string | undefined)
+      : undefined;
+
+  const mentions =
+    typeof answer === "object" && answer && "mentions" in answer
+      ? (answer.mentions as Mention[] | undefined)
+      : undefined;
+
+  const diff =
+    typeof answer === "object" && answer && "diff" in answer
+      ? (answer.diff as { label: string; title?: string; url: string } | undefined)
+      : undefined;
+
+  const experts =
+    typeof answer === "object" && answer && "experts" in answer
+      ? (answer.experts as Expert[] | undefined)
+      : undefined;
+
+  const verification =
+    typeof answer === "object" && answer && "verification" in answer
+      ? (answer.verification as AnswerVerification | undefined)
+      : undefined;
+  const flaggedClaims =
+    verification?.claims.filter((claim) => claim.support !== "supported") ||
+    [];
+
+  const wasStopped =
+    typeof answer === "object" && answer && "stopped" in answer
+      ? Boolean(answer.stopped)
+      : false;
+
+  const paragraphs = answerContent.split("\n\n").filter((p) => p.trim() !== "");
 
-    fullTextRef.current = content.split("\n\n").filter((p) => p.trim() !== "");
-    setParagraphIndex(0);
-    setDisplayedParagraphs([]);
-    setIsTyping(true);
-  }, [answer]);
+  // Terms are marked once the answer is complete; each is explained at its first mention
+  const glossary = isStreaming ? [] : getGlossary();
+  const markedTerms = new Set<string>();
+  const rehypePlugins: MarkdownOptions["rehypePlugins"] = [
+    [rehypeGlossaryTerms, { terms: glossary, seen: markedTerms }],
+  ];
+  if (verification) {
+    // Claims are matched by sentence, before terms split the text
+    rehypePlugins.unshift([rehypeHighlightClaims, { claims: verification.claims }]);
+  }
+
+  // Cited references are listed first; the rest of the context stays behind a toggle
+  const citedReferences = getCitedReferences(references);
+  // Ownership is looked up in the connected repository only
+  const currentRepository = getCurrentRepository();
+  const expertFilePaths = [...citedReferences, ...references]
+    .filter(
+      (reference) =>
+        !reference.repository ||
+        (reference.repository.owner === currentRepository?.owner &&
+          reference.repository.repo === currentRepository?.repo)
+    )
+    .map((reference) => reference.filePath);
+  const uncitedReferences = references.filter(
+    (reference) => !citedReferences.includes(reference)
+  );
+  const citationNumbers = new Set(
+    references
+      .map((reference) => reference.citation)
+      .filter((citation): citation is number => citation !== undefined)
+  );
 
+  // Scroll once the reference is rendered, and highlight it briefly
   useEffect(() => {
-    if (!isTyping) return;
-
-    if (paragraphIndex < fullTextRef.current.length) {
-      const timeout = setTimeout(() => {
-        setDisplayedParagraphs((prev) => [
-          ...prev,
-          fullTextRef.current[paragraphIndex],
-        ]);
-        setParagraphIndex((prev) => prev + 1);
-      }, typingSpeed);
-
-      return () => clearTimeout(timeout);
-    } else {
-      setIsTyping(false);
+    if (focusedCitation === null) return;
+
+    document
+      .getElementById(getCitationId(citationIdPrefix, focusedCitation))
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setFocusedCitation(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [citationIdPrefix, focusedCitation]);
+
+  const handleCitationClick = (citation: number) => {
+    setShowReferences(true);
+    if (!citedReferences.some((reference) => reference.citation === citation)) {
+      setShowUncited(true);
     }
-  }, [paragraphIndex, isTyping]);
+    setFocusedCitation(citation);
+  };
+
+  // Tag references with their repository when the answer spans several
+  const spansRepositories =
+    new Set(
+      references.map((reference) =>
+        reference.repository
+          ? `${reference.repository.owner}/${reference.repository.repo}`
+          : ""
+      )
+    ).size > 1;
 
   const handleCopyAnswer = () => {
     const textToCopy =
@@ -120,12 +226,6 @@ export default function AnswerDisplay({
     toast.success("Answer copied to clipboard");
   };
 
-  const handleCompleteTyping = () => {
-    setDisplayedParagraphs(fullTextRef.current);
-    setParagraphIndex(fullTextRef.current.length);
-    setIsTyping(false);
-  };
-
   const handleCreateEmailTemplate = () => {
     const textAnswer =
       typeof answer === "string"
@@ -186,27 +286,118 @@ Best regards,
     ul: (props: any) => <ul className="list-disc pl-6 my-4" {...props} />,
     ol: (props: any) => <ol className="list-decimal pl-6 my-4" {...props} />,
     li: (props: any) => <li className="my-1" {...props} />,
+    a: ({
+      node,
+      href,
+      children,
+      ...props
+    }: ComponentPropsWithoutRef<"a"> & { node?: unknown }) => {
+      if (href?.startsWith(CITATION_HREF_PREFIX)) {
+        const citation = Number(href.slice(CITATION_HREF_PREFIX.length));
+        return (
+          <sup>
+            <button
+              type="button"
+              className="text-indigo-600 hover:underline font-medium px-0.5"
+              onClick={() => handleCitationClick(citation)}
+            >
+              [{children}]
+            </button>
+          </sup>
+        );
+      }
+      return (
+        <a href={href} {...props}>
+          {children}
+        </a>
+      );
+    },
+    dfn: ({
+      node,
+      children,
+      ...props
+    }: ComponentPropsWithoutRef<"dfn"> & { node?: unknown; "data-glossary-term"?: string }) => (
+      <GlossaryTermHover
+        term={glossary.find((term) => term.key === props["data-glossary-term"])}
+      >
+        {children}
+      </GlossaryTermHover>
+    ),
   };
 
+  const renderReference = (reference: Reference, index: number) => (
+    <CodeReference
+      key={index}
+      id={
+        reference.citation !== undefined
+          ? getCitationId(citationIdPrefix, reference.citation)
+          : undefined
+      }
+      citation={reference.citation}
+      highlighted={
+        focusedCitation !== null && reference.citation === focusedCitation
+      }
+      filePath={reference.filePath}
+      lineNumbers={reference.lineNumbers}
+      snippet={reference.snippet}
+      lastUpdated={showVersionInfo ? reference.lastUpdated : undefined}
+      author={reference.author}
+      authorEmail={reference.authorEmail}
+      repository={reference.repository}
+      showRepository={spansRepositories}
+    />
+  );
+
   return (
     <Card className="mb-4 overflow-hidden">
       <CardHeader className="pb-0">
         {question && <h1 className="text-2xl font-semibold">{question}</h1>}
+        {standaloneQuestion && (
+          <p className="text-xs text-muted-foreground">
+            Follow-up, searched as: {standaloneQuestion}
+          </p>
+        )}
+        {diff && (
+          <a
+            href={diff.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <GitPullRequest className="h-3 w-3" />
+            Explaining {diff.label}{diff.title ? `: ${diff.title}` : ""}
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+        {mentions && mentions.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Searched only in:{" "}
+            {mentions.map((mention) => (
+              <code key={`${mention.kind}:${mention.value}`} className="mr-1 px-1 rounded bg-muted font-mono">
+                {mention.kind === "symbol" ? "#" : "@"}
+                {mention.value}
+              </code>
+            ))}
+          </p>
+        )}
       </CardHeader>
 
       <CardContent className="pt-4">
         <div className="text-sm space-y-4 mb-4">
-          {displayedParagraphs.map((paragraph, index) => (
+          {paragraphs.map((paragraph, index) => (
             <div
               key={index}
               className="animate-fade-in prose prose-sm max-w-none dark:prose-invert"
             >
-              <ReactMarkdown components={markdownComponents}>
-                {paragraph}
+              <ReactMarkdown
+                components={markdownComponents}
+                rehypePlugins={rehypePlugins}
+              >
+                {linkCitations(paragraph, citationNumbers)}
               </ReactMarkdown>
             </div>
           ))}
-          {isTyping && displayedParagraphs.length < paragraphs.length && (
+          {isStreaming && (
             <div className="flex items-center space-x-2 animate-pulse">
               <div className="h-2 w-2 bg-indigo-600 rounded-full"></div>
               <div className="h-2 w-2 bg-indigo-600 rounded-full"></div>
@@ -215,21 +406,80 @@ Best regards,
           )}
         </div>
 
-        {/* Show screenshots if available and typing is complete */}
-        {!isTyping && screenshots && screenshots.length > 0 && (
+        {verification && verification.claims.length > 0 && (
+          <div className="text-xs mb-4">
+            <div className="flex items-center gap-2">
+              {flaggedClaims.length > 0 ? (
+                <ShieldAlert className="h-4 w-4 text-amber-500" />
+              ) : (
+                <ShieldCheck className="h-4 w-4 text-green-500" />
+              )}
+              <span className="text-muted-foreground">
+                {flaggedClaims.length > 0
+                  ? `${flaggedClaims.length} of ${verification.claims.length} statements are not fully supported by the code and are highlighted`
+                  : `All ${verification.claims.length} statements are supported by the code`}
+                {verification.mode === "judge" ? " (checked by the model)" : ""}
+              </span>
+              {flaggedClaims.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 text-xs px-2"
+                  onClick={() => setShowVerification(!showVerification)}
+                >
+                  {showVerification ? "Hide details" : "Show details"}
+                </Button>
+              )}
+            </div>
+            {showVerification && (
+              <ul className="mt-2 space-y-2 pl-6">
+                {flaggedClaims.map((claim, index) => (
+                  <li key={index}>
+                    <span
+                      className={
+                        claim.support === "unsupported"
+                          ? "font-medium text-red-600"
+                          : "font-medium text-amber-600"
+                      }
+                    >
+                      {claim.support === "unsupported"
+                        ? "Unsupported"
+                        : "Partially supported"}
+                      :
+                    </span>{" "}
+                    {claim.text}
+                    <div className="text-muted-foreground">{claim.reason}</div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {wasStopped && (
+          <p className="text-xs text-muted-foreground italic">
+            Answer stopped before it was complete.
+          </p>
+        )}
+
+        {/* Show screenshots if available and streaming is complete */}
+        {!isStreaming && screenshots && screenshots.length > 0 && (
           <ScreenshotGallery screenshots={screenshots} className="mt-4" />
         )}
 
+        {!isStreaming && diagram && <DiagramPanel visualContext={diagram} className="mt-4" />}
+
         {/* Action buttons inside card */}
         <div className="flex justify-end gap-2 mt-4 border-t border-black/10 pt-4">
-          {isTyping && (
+          {isStreaming && onStop && (
             <Button
               variant="outline"
               size="sm"
               className="text-xs border-black/20 hover:bg-black hover:text-white hover:border-black transition-all duration-200"
-              onClick={handleCompleteTyping}
+              onClick={onStop}
             >
-              Complete
+              <Square className="h-3 w-3 mr-1" />
+              Stop
             </Button>
           )}
           <Button
@@ -260,7 +510,9 @@ Best regards,
           {/* Always display file reference pills */}
           <div className="flex flex-wrap gap-2 mb-4">
             {Array.from(
-              new Set(references.map((ref) => ref.filePath.split("/").pop()))
+              new Set(
+                citedReferences.map((ref) => ref.filePath.split("/").pop())
+              )
             ).map((filename, index) => (
               <span
                 key={index}
@@ -271,6 +523,8 @@ Best regards,
             ))}
           </div>
 
+          <ExpertsSection experts={experts} filePaths={expertFilePaths} />
+
           <Button
             variant="ghost"
             size="sm"
@@ -283,24 +537,31 @@ Best regards,
           {/* Show code references directly when button is clicked */}
           {showReferences && (
             <div className="space-y-3 mt-4">
-              {references.map((reference, index) => (
-                <CodeReference
-                  key={index}
-                  filePath={reference.filePath}
-                  lineNumbers={reference.lineNumbers}
-                  snippet={reference.snippet}
-                  lastUpdated={
-                    showVersionInfo ? reference.lastUpdated : undefined
-                  }
-                  author={reference.author}
-                  authorEmail={reference.authorEmail}
-                />
-              ))}
+              {citedReferences.map(renderReference)}
+
+              {uncitedReferences.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-gray-500"
+                  onClick={() => setShowUncited(!showUncited)}
+                >
+                  {showUncited
+                    ? "Hide uncited sources"
+                    : `Show ${uncitedReferences.length} uncited source${
+                        uncitedReferences.length !== 1 ? "s" : ""
+                      }`}
+                </Button>
+              )}
+              {showUncited && uncitedReferences.map(renderReference)}
             </div>
           )}
 
           <div className="flex justify-between items-center mt-8 w-full">
-            <ConfidenceScore score={confidencePercentage} />
+            <ConfidenceScore
+              score={confidencePercentage}
+              breakdown={confidenceBreakdown}
+            />
 
             <Button
               variant="ghost"
@@ -1,8 +1,10 @@
 
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Copy, ExternalLink, Clock, User, Eye } from "lucide-react";
 import { toast } from "sonner";
 import { useState } from "react";
+import { FileHistoryResult, calculateChangeFrequency, getFileHistory } from "@/services/gitHistoryService";
 
 interface CodeReferenceProps {
   filePath: string;
@@ -11,10 +13,37 @@ interface CodeReferenceProps {
   lastUpdated?: string;
   author?: string;
   authorEmail?: string;
+  repository?: {
+    owner: string;
+    repo: string;
+    // Commit the snippet was scanned at; links fall back to HEAD without it
+    commitSha?: string;
+  };
+  showRepository?: boolean;
+  // Number the answer cites this reference by, e.g. [2]
+  citation?: number;
+  id?: string;
+  highlighted?: boolean;
 }
 
-export default function CodeReference({ filePath, lineNumbers, snippet, lastUpdated, author, authorEmail }: CodeReferenceProps) {
+export default function CodeReference({ filePath, lineNumbers, snippet, lastUpdated, author, authorEmail, repository, showRepository = false, citation, id, highlighted = false }: CodeReferenceProps) {
   const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<FileHistoryResult | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+
+  const handleToggleHistory = async () => {
+    const show = !showHistory;
+    setShowHistory(show);
+    if (!show || history || isLoadingHistory) return;
+
+    if (!repository) {
+      setHistory({ status: "unavailable", reason: "The repository of this reference is unknown", commits: [] });
+      return;
+    }
+    setIsLoadingHistory(true);
+    setHistory(await getFileHistory(repository.owner, repository.repo, filePath, repository.commitSha || null));
+    setIsLoadingHistory(false);
+  };
   
   const handleCopyPath = () => {
     navigator.clipboard.writeText(filePath);
@@ -26,6 +55,19 @@ export default function CodeReference({ filePath, lineNumbers, snippet, lastUpda
     return parts[parts.length - 1];
   };
 
+  // References saved before they carried a repository point at the Ghost sample repository
+  const getGitHubUrl = () => {
+    const { owner, repo } = repository || { owner: "TryGhost", repo: "Ghost" };
+    const url = `https://github.com/${owner}/${repo}/blob/${repository?.commitSha || "HEAD"}/${filePath}`;
+
+    const lines = lineNumbers?.match(/^(\d+)(?:-(\d+))?$/);
+    if (!lines) return url;
+
+    // GitHub renders markdown unless asked for the source, and then ignores line anchors
+    const plain = /\.mdx?$/i.test(filePath) ? "?plain=1" : "";
+    return `${url}${plain}#L${lines[1]}${lines[2] ? `-L${lines[2]}` : ""}`;
+  };
+
   const formatLastUpdated = () => {
     if (!lastUpdated || lastUpdated === 'Unknown') return 'Last updated: Unknown';
     try {
@@ -36,10 +78,21 @@ export default function CodeReference({ filePath, lineNumbers, snippet, lastUpda
   };
 
   return (
-    <div className="bg-slate-50 border rounded-md p-3 mt-1">
+    <div
+      id={id}
+      className={`bg-slate-50 border rounded-md p-3 mt-1 scroll-mt-4 transition-shadow ${highlighted ? "ring-2 ring-indigo-400" : ""}`}
+    >
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center">
+          {citation !== undefined && (
+            <span className="text-xs font-semibold text-indigo-600 mr-2">[{citation}]</span>
+          )}
           <Eye className="h-4 w-4 text-muted-foreground mr-2" />
+          {showRepository && repository && (
+            <Badge variant="outline" className="mr-2 text-xs font-normal">
+              {repository.owner}/{repository.repo}
+            </Badge>
+          )}
           <span className="text-sm font-medium">{getFileName()}</span>
           {lineNumbers && (
             <span className="text-xs text-muted-foreground ml-2">Lines: {lineNumbers}</span>
@@ -50,7 +103,7 @@ export default function CodeReference({ filePath, lineNumbers, snippet, lastUpda
             variant="ghost"
             size="sm"
             className="h-8 p-1 text-xs flex items-center gap-1"
-            onClick={() => setShowHistory(!showHistory)}
+            onClick={handleToggleHistory}
           >
             <Clock className="h-3 w-3" />
             <span className="sr-only md:not-sr-only md:inline-block">History</span>
@@ -71,7 +124,7 @@ export default function CodeReference({ filePath, lineNumbers, snippet, lastUpda
             asChild
           >
             <a 
-              href={`https://github.com/TryGhost/Ghost/blob/main/${filePath}`}
+              href={getGitHubUrl()}
               target="_blank"
               rel="noreferrer"
             >
@@ -82,9 +135,31 @@ export default function CodeReference({ filePath, lineNumbers, snippet, lastUpda
         </div>
       </div>
       
-      {showHistory && (lastUpdated || author) && (
+      {showHistory && (
         <div className="mb-2 text-xs text-muted-foreground bg-slate-100 p-2 rounded-md">
-          {lastUpdated && <div>{formatLastUpdated()}</div>}
+          {isLoadingHistory && <div>Loading history...</div>}
+          {history?.status === "unavailable" && (
+            <div>History unavailable: {history.reason}</div>
+          )}
+          {history?.status === "available" && history.commits.length === 0 && (
+            <div>No commits found for this file</div>
+          )}
+          {history?.status === "available" && history.commits.length > 0 && (
+            <div className="space-y-1">
+              <div>
+                {history.commits.length >= 100 ? "100+" : history.commits.length} commits
+                {" "}• {calculateChangeFrequency(history.commits)} change frequency (last 90 days)
+              </div>
+              {history.commits.slice(0, 3).map((commit) => (
+                <div key={commit.sha} className="truncate">
+                  <span className="font-mono">{commit.sha.substring(0, 7)}</span>{" "}
+                  {commit.message.split("\n")[0]} — {commit.author}
+                  {commit.date !== "Unknown" && `, ${new Date(commit.date).toLocaleDateString()}`}
+                </div>
+              ))}
+            </div>
+          )}
+          {!history && !isLoadingHistory && lastUpdated && <div>{formatLastUpdated()}</div>}
           {author && (
             <div className="flex items-center mt-1">
               <User className="h-3 w-3 mr-1" />
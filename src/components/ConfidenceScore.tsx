@@ -1,12 +1,20 @@
 
 import { Progress } from "@/components/ui/progress";
 import { CheckCircle2, HelpCircle, AlertCircle } from "lucide-react";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+import { ConfidenceBreakdown } from "@/services/answerConfidence";
 
 interface ConfidenceScoreProps {
   score: number;
+  // Signals behind the score, shown on hover
+  breakdown?: ConfidenceBreakdown;
 }
 
-export default function ConfidenceScore({ score }: ConfidenceScoreProps) {
+export default function ConfidenceScore({ score, breakdown }: ConfidenceScoreProps) {
   const getIcon = () => {
     if (score >= 80) {
       return <CheckCircle2 className="h-5 w-5 text-green-500" />;
@@ -37,7 +45,7 @@ export default function ConfidenceScore({ score }: ConfidenceScoreProps) {
     }
   };
 
-  return (
+  const scoreDisplay = (
     <div className="flex items-center space-x-2">
       {getIcon()}
       <div className="flex-1">
@@ -49,4 +57,36 @@ export default function ConfidenceScore({ score }: ConfidenceScoreProps) {
       </div>
     </div>
   );
+
+  if (!breakdown || breakdown.signals.length === 0) {
+    return scoreDisplay;
+  }
+
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <div className="cursor-help">{scoreDisplay}</div>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80" align="start">
+        <h4 className="text-sm font-medium mb-3">How this score was computed</h4>
+        <div className="space-y-3">
+          {breakdown.signals.map((signal) => (
+            <div key={signal.id}>
+              <div className="flex justify-between text-xs mb-1">
+                <span className="font-medium">{signal.label}</span>
+                <span className="text-muted-foreground">
+                  {Math.round(signal.value * 100)}% · weight{" "}
+                  {Math.round(signal.weight * 100)}%
+                </span>
+              </div>
+              <Progress value={signal.value * 100} className="h-1" />
+              <p className="text-xs text-muted-foreground mt-1">
+                {signal.detail}
+              </p>
+            </div>
+          ))}
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  );
 }
@@ -0,0 +1,164 @@
+import { PointerEvent, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Copy, FileImage, FileCode2, Maximize2, Network, ZoomIn, ZoomOut } from "lucide-react";
+import { toast } from "sonner";
+import MermaidDiagram from "./MermaidDiagram";
+import { downloadPng, downloadSvg, getDiagramFileName } from "@/lib/diagramExport";
+
+interface DiagramPanelProps {
+  visualContext: {
+    type: "flowchart" | "component" | "state" | "sequence" | "er";
+    syntax: string;
+    title?: string;
+  };
+  className?: string;
+}
+
+const TYPE_LABELS: Record<DiagramPanelProps["visualContext"]["type"], string> = {
+  flowchart: "Flowchart",
+  component: "Component diagram",
+  state: "State diagram",
+  sequence: "Sequence diagram",
+  er: "Data model",
+};
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+
+export default function DiagramPanel({ visualContext, className }: DiagramPanelProps) {
+  const [svg, setSvg] = useState<string | null>(null);
+  // The syntax couldn't be drawn; the error and source are shown instead, without pan and zoom
+  const [hasError, setHasError] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  // Where the pointer was when dragging started, and the offset at that moment
+  const dragStart = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+
+  const title = visualContext.title || TYPE_LABELS[visualContext.type] || "Diagram";
+  const fileName = getDiagramFileName(title);
+
+  const changeZoom = (factor: number) => {
+    setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current * factor)));
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!svg) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { x: event.clientX, y: event.clientY, offsetX: offset.x, offsetY: offset.y };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    setOffset({
+      x: dragStart.current.offsetX + event.clientX - dragStart.current.x,
+      y: dragStart.current.offsetY + event.clientY - dragStart.current.y,
+    });
+  };
+
+  // Plain scrolling keeps scrolling the page; pinch and Ctrl + scroll zoom. React's wheel
+  // listeners are passive and can't stop the browser zooming the page, so this one is added directly.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !svg) return;
+
+    const handleWheel = (event: globalThis.WheelEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      event.preventDefault();
+      setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current * (event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP))));
+    };
+    viewport.addEventListener("wheel", handleWheel, { passive: false });
+    return () => viewport.removeEventListener("wheel", handleWheel);
+  }, [svg]);
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleRender = (rendered: string | null) => {
+    setSvg(rendered);
+    setHasError(!rendered);
+  };
+
+  const handleCopySource = () => {
+    navigator.clipboard.writeText(visualContext.syntax);
+    toast.success("Mermaid source copied to clipboard");
+  };
+
+  const handleDownloadSvg = () => {
+    if (!svg) return;
+    downloadSvg(svg, fileName);
+  };
+
+  const handleDownloadPng = async () => {
+    if (!svg) return;
+    try {
+      await downloadPng(svg, fileName);
+    } catch (error) {
+      console.error("❌ Error exporting diagram:", error);
+      toast.error("Couldn't export the diagram as PNG", {
+        description: error instanceof Error ? error.message : "Try SVG instead",
+      });
+    }
+  };
+
+  return (
+    <div className={`border rounded-lg bg-white ${className || ""}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b px-3 py-2">
+        <h3 className="text-sm font-medium flex items-center gap-1">
+          <Network className="h-4 w-4" />
+          {title}
+        </h3>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => changeZoom(1 / ZOOM_STEP)} disabled={!svg} title="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => changeZoom(ZOOM_STEP)} disabled={!svg} title="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={resetView} disabled={!svg} title="Fit to panel">
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleCopySource} title="Copy the Mermaid source">
+            <Copy className="h-3 w-3 mr-1" />
+            Copy
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleDownloadSvg} disabled={!svg}>
+            <FileCode2 className="h-3 w-3 mr-1" />
+            SVG
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleDownloadPng} disabled={!svg}>
+            <FileImage className="h-3 w-3 mr-1" />
+            PNG
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={viewportRef}
+        className={hasError ? "" : `relative h-80 overflow-hidden touch-none ${svg ? "cursor-grab active:cursor-grabbing" : ""}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div
+          className="h-full w-full p-3 origin-center"
+          style={hasError ? undefined : { transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})` }}
+        >
+          <MermaidDiagram
+            syntax={visualContext.syntax}
+            onRender={handleRender}
+            className="h-full [&_svg]:h-full [&_svg]:w-full"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Users } from "lucide-react";
+import { Expert, OwnershipResult, describeExpertise, findExperts } from "@/services/codeOwnership";
+
+interface ExpertsSectionProps {
+  // Experts the answer already found, for "who should I ask" questions
+  experts?: Expert[];
+  // Files to look experts up for otherwise, most relevant first
+  filePaths: string[];
+}
+
+// Files whose owners are looked up from the answer's sources
+const MAX_LOOKUP_FILES = 5;
+
+export default function ExpertsSection({ experts, filePaths }: ExpertsSectionProps) {
+  const [ownership, setOwnership] = useState<OwnershipResult | null>(
+    experts ? { status: "available", experts, codeOwnersFile: null } : null
+  );
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleFindExperts = async () => {
+    setIsLoading(true);
+    setOwnership(await findExperts(Array.from(new Set(filePaths)).slice(0, MAX_LOOKUP_FILES)));
+    setIsLoading(false);
+  };
+
+  if (!ownership) {
+    if (filePaths.length === 0) return null;
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mb-3 text-xs"
+        onClick={handleFindExperts}
+        disabled={isLoading}
+      >
+        <Users className="h-3 w-3 mr-1" />
+        {isLoading ? "Finding experts..." : "Who knows this code?"}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mb-4 w-full">
+      <h3 className="text-sm font-medium mb-2 flex items-center gap-1">
+        <Users className="h-4 w-4" />
+        Experts
+      </h3>
+      {ownership.status === "unavailable" ? (
+        <div className="text-xs text-muted-foreground">
+          Ownership unavailable: {ownership.reason}
+        </div>
+      ) : ownership.experts.length === 0 ? (
+        <div className="text-xs text-muted-foreground">
+          No code owners or recent authors found for these files
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {ownership.experts.map((expert) => (
+            <li key={expert.name} className="text-sm flex flex-wrap items-center gap-2">
+              {expert.login ? (
+                <a
+                  href={`https://github.com/${expert.isTeam ? `orgs/${expert.login.split("/")[0]}/teams/${expert.login.split("/")[1]}` : expert.login}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium hover:underline"
+                >
+                  {expert.name}
+                </a>
+              ) : (
+                <span className="font-medium">{expert.name}</span>
+              )}
+              {expert.displayName && (
+                <span className="text-gray-500">{expert.displayName}</span>
+              )}
+              {expert.isCodeOwner && (
+                <span className="bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full text-xs">
+                  CODEOWNER
+                </span>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {describeExpertise(expert)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger,
+} from "@/components/ui/hover-card";
+import { GlossaryTerm } from "@/services/knowledgeBase";
+
+interface GlossaryTermHoverProps {
+  term?: GlossaryTerm;
+  children: ReactNode;
+}
+
+// Files listed on hover; the glossary page lists all of them
+const MAX_HOVER_FILES = 3;
+
+export default function GlossaryTermHover({ term, children }: GlossaryTermHoverProps) {
+  if (!term) return <>{children}</>;
+
+  return (
+    <HoverCard openDelay={300}>
+      <HoverCardTrigger asChild>
+        <dfn className="not-italic cursor-help underline decoration-dotted decoration-indigo-400 underline-offset-2">
+          {children}
+        </dfn>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80" align="start">
+        <div className="flex items-baseline justify-between gap-2 mb-1">
+          <code className="text-sm font-semibold">{term.term}</code>
+          <span className="text-xs text-muted-foreground">{term.kind}</span>
+        </div>
+        <p className="text-sm mb-2">{term.definition}</p>
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          {term.files.slice(0, MAX_HOVER_FILES).map((file) => (
+            <div key={file} className="truncate">{file}</div>
+          ))}
+        </div>
+        <Link
+          to={`/glossary?term=${encodeURIComponent(term.key)}`}
+          className="text-xs text-indigo-600 hover:underline mt-2 inline-block"
+        >
+          Open in glossary
+        </Link>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
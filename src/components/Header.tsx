@@ -1,5 +1,6 @@
 import { GitHubLogoIcon } from "@radix-ui/react-icons";
 import {
+  Blocks,
   BookOpen,
   Code2,
   Info,
@@ -41,10 +42,10 @@ import {
 import { toast, dismissToast } from "@/components/ui/sonner";
 import {
   hasAICapabilities,
-  setOpenAIApiKey,
+  setAIApiKey,
   wasAPIKeyPreviouslySet,
   getAPIKeyState,
-  getOpenAIApiKey,
+  getAIApiKey,
 } from "@/services/aiAnalysis";
 import {
   Dialog,
@@ -62,6 +63,7 @@ import { Card, CardContent } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Progress } from "./ui/progress";
 import RepositoryProgressIndicator from "./RepositoryProgressIndicator";
+import RepositorySwitcher from "./RepositorySwitcher";
 
 interface HeaderProps {
   isOnboarding?: boolean;
@@ -140,10 +142,10 @@ export default function Header({ isOnboarding = false }: HeaderProps) {
     autoReconnect();
 
     // Check if API key is already available in memory or storage
-    const apiKey = getOpenAIApiKey();
+    const apiKey = getAIApiKey();
     if (apiKey) {
       setIsAIEnabled(true);
-      console.log("OpenAI API key loaded automatically");
+      console.log("AI provider API key loaded automatically");
     } else if (wasAPIKeyPreviouslySet() && !hasAICapabilities()) {
       setIsAIEnabled(false); // Make sure we don't falsely report AI as enabled
       // Show a quieter notification in the header
@@ -269,11 +271,11 @@ export default function Header({ isOnboarding = false }: HeaderProps) {
 
   const handleOpenAIKeySave = () => {
     if (openaiKey.trim()) {
-      setOpenAIApiKey(openaiKey.trim());
+      setAIApiKey(openaiKey.trim());
       setOpenaiDialogOpen(false);
       setIsAIEnabled(true);
     } else {
-      toast.error("Please enter a valid OpenAI API key");
+      toast.error("Please enter a valid AI provider API key");
     }
   };
 
@@ -347,6 +349,8 @@ export default function Header({ isOnboarding = false }: HeaderProps) {
             {/* Only show navigation items if not in onboarding mode */}
             {!isOnboarding && (
               <>
+                <RepositorySwitcher onSwitch={updateRepoInfo} />
+
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -366,6 +370,44 @@ export default function Header({ isOnboarding = false }: HeaderProps) {
                   </Tooltip>
                 </TooltipProvider>
 
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate("/glossary")}
+                        className="flex items-center gap-1"
+                      >
+                        <BookOpen className="h-4 w-4" />
+                        Glossary
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Look up domain terms used in the code</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate("/architecture")}
+                        className="flex items-center gap-1"
+                      >
+                        <Blocks className="h-4 w-4" />
+                        Architecture
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>See how the codebase is put together</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -386,15 +428,15 @@ export default function Header({ isOnboarding = false }: HeaderProps) {
               </>
             )}
 
-            {/* OpenAI API Key Dialog - keep this hidden but still available for the Settings page to trigger */}
+            {/* AI provider API Key Dialog - keep this hidden but still available for the Settings page to trigger */}
             <Dialog open={openaiDialogOpen} onOpenChange={setOpenaiDialogOpen}>
               <DialogContent className="sm:max-w-[425px]">
                 <DialogHeader>
-                  <DialogTitle>OpenAI API Configuration</DialogTitle>
+                  <DialogTitle>AI Provider API Key</DialogTitle>
                   <DialogDescription>
                     {wasAPIKeyPreviouslySet() && !isAIEnabled
-                      ? "Please re-enter your OpenAI API key to enable AI-powered analysis."
-                      : "Add your OpenAI API key to enable AI-powered code analysis and answers."}
+                      ? "Please re-enter your AI provider API key to enable AI-powered analysis."
+                      : "Add your AI provider API key to enable AI-powered code analysis and answers. Choose the provider, base URL and model under Settings → AI Configuration."}
                   </DialogDescription>
                 </DialogHeader>
                 <div className="grid gap-4 py-4">
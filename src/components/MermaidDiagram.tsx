@@ -0,0 +1,97 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+interface MermaidDiagramProps {
+  syntax: string;
+  className?: string;
+  // Called with the drawn SVG, or null when the syntax couldn't be drawn
+  onRender?: (svg: string | null) => void;
+}
+
+// Mermaid is large; it is loaded the first time a diagram is shown
+let mermaidPromise: Promise<typeof import("mermaid")["default"]> | null = null;
+
+function loadMermaid() {
+  if (!mermaidPromise) {
+    mermaidPromise = import("mermaid").then(({ default: mermaid }) => {
+      // SVG text labels instead of HTML ones, so exported diagrams can be drawn onto a canvas
+      mermaid.initialize({
+        startOnLoad: false,
+        securityLevel: "strict",
+        theme: "neutral",
+        htmlLabels: false,
+        flowchart: { htmlLabels: false },
+      });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+}
+
+export default function MermaidDiagram({ syntax, className, onRender }: MermaidDiagramProps) {
+  // Mermaid uses the id for an element in the document, so it can't contain colons
+  const diagramId = `mermaid-${useId().replace(/:/g, "")}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Latest callback, without redrawing when only the callback changes
+  const onRenderRef = useRef(onRender);
+  onRenderRef.current = onRender;
+
+  useEffect(() => {
+    let cancelled = false;
+    setSvg(null);
+    setError(null);
+
+    loadMermaid()
+      .then(async (mermaid) => {
+        // render() leaves its error graphic at the end of the page when the syntax is invalid,
+        // so the syntax is checked first
+        await mermaid.parse(syntax);
+        return mermaid.render(diagramId, syntax);
+      })
+      .then(({ svg: rendered }) => {
+        if (cancelled) return;
+        setSvg(rendered);
+        onRenderRef.current?.(rendered);
+      })
+      .catch((renderError) => {
+        console.error("❌ Error rendering diagram:", renderError);
+        document.getElementById(`d${diagramId}`)?.remove();
+        if (cancelled) return;
+        setError(renderError instanceof Error ? renderError.message : String(renderError));
+        onRenderRef.current?.(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [diagramId, syntax]);
+
+  if (error) {
+    return (
+      <div className={className}>
+        <div className="flex items-center gap-2 text-sm text-red-600 mb-2">
+          <AlertCircle className="h-4 w-4" />
+          The diagram could not be drawn: {error}
+        </div>
+        <pre className="text-xs bg-gray-50 border rounded p-3 overflow-x-auto">{syntax}</pre>
+      </div>
+    );
+  }
+
+  if (!svg) {
+    return (
+      <div className={`flex items-center gap-2 text-sm text-muted-foreground ${className || ""}`}>
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Drawing diagram...
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`overflow-x-auto [&_svg]:max-w-none ${className || ""}`}
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
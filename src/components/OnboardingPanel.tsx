@@ -35,9 +35,9 @@ import {
 } from "@/components/ui/collapsible";
 import { Badge } from "@/components/ui/badge";
 import { initGithubClient, validateGithubToken } from "@/services/githubClient";
-import { saveRepositoryConfig } from "@/services/repositoryConfig";
-import { setOpenAIApiKey, hasAICapabilities } from "@/services/aiAnalysis";
-import { initializeKnowledgeBase } from "@/services/knowledgeBase";
+import { saveUserRepository } from "@/services/userRepositories";
+import { setAIApiKey, hasAICapabilities } from "@/services/aiAnalysis";
+import { switchActiveRepository } from "@/services/knowledgeBase";
 import { toast } from "sonner";
 import RepositoryBrowser from "./RepositoryBrowser";
 import EnhancedRepositoryBrowser from "./EnhancedRepositoryBrowser";
@@ -75,7 +75,7 @@ export default function OnboardingPanel({
   const [repo, setRepo] = useState("");
   const [token, setToken] = useState("");
 
-  // OpenAI API key
+  // AI provider API key
   const [apiKey, setApiKey] = useState("");
 
   // Loading states
@@ -127,30 +127,28 @@ export default function OnboardingPanel({
     setIsConnectingRepo(true);
 
     try {
-      // For now, we'll connect the first repository as the primary one
-      // In the future, we can enhance this to support multiple repositories
-      const primaryRepo = repos[0];
-
-      // Save repository configuration
-      saveRepositoryConfig({
-        owner: primaryRepo.owner.login,
-        repo: primaryRepo.name,
-        token: githubAuth.token!,
-      });
+      // Store every selected repository with the OAuth token
+      const savedRepos = repos.map((repo) =>
+        saveUserRepository(repo.owner.login, repo.name, githubAuth.token!)
+      );
 
-      // Initialize GitHub client
       initGithubClient(githubAuth.token!);
 
-      // Initialize knowledge base
-      toast.loading("Initializing repository...", {
-        id: "init-repo",
-        duration: 5000,
-      });
-      await initializeKnowledgeBase(true);
+      // Scan each repository into its own cache, finishing on the first one so it ends up active
+      for (let i = savedRepos.length - 1; i >= 0; i--) {
+        const repo = savedRepos[i];
+        toast.loading(
+          savedRepos.length > 1
+            ? `Initializing ${repo.owner}/${repo.repo} (${savedRepos.length - i} of ${savedRepos.length})...`
+            : "Initializing repository...",
+          { id: "init-repo", duration: Infinity }
+        );
+        await switchActiveRepository(repo.id);
+      }
       toast.dismiss("init-repo");
 
       toast.success(
-        `Connected ${repos.length} repository${
+        `Connected ${repos.length} repositor${
           repos.length > 1 ? "ies" : "y"
         } successfully`
       );
@@ -182,22 +180,19 @@ export default function OnboardingPanel({
         return;
       }
 
-      // Save repository configuration
-      saveRepositoryConfig({
-        owner: owner.trim(),
-        repo: repo.trim(),
-        token: token.trim(),
-      });
-
-      // Initialize GitHub client
-      initGithubClient(token.trim());
+      // Save the repository and make it active
+      const savedRepo = saveUserRepository(
+        owner.trim(),
+        repo.trim(),
+        token.trim()
+      );
 
       // Initialize knowledge base
       toast.loading("Initializing repository...", {
         id: "init-repo",
         duration: 5000,
       });
-      await initializeKnowledgeBase(true);
+      await switchActiveRepository(savedRepo.id);
       toast.dismiss("init-repo");
 
       toast.success(`Repository ${owner}/${repo} connected successfully`);
@@ -215,13 +210,13 @@ export default function OnboardingPanel({
 
   const handleSaveApiKey = () => {
     if (!apiKey.trim()) {
-      toast.error("Please enter your OpenAI API key");
+      toast.error("Please enter your AI provider API key");
       return;
     }
 
     setIsSavingApiKey(true);
     try {
-      setOpenAIApiKey(apiKey.trim());
+      setAIApiKey(apiKey.trim());
       toast.success("API key saved successfully");
       setCompletedSteps([1, 2, 3, 4, 5]);
       onComplete();
@@ -646,16 +641,17 @@ export default function OnboardingPanel({
                 <KeyRound className="h-6 w-6 text-foreground" />
               </div>
               <h3 className="text-lg font-semibold">
-                OpenAI API Key (Optional)
+                AI Provider API Key (Optional)
               </h3>
               <p className="text-sm text-muted-foreground">
-                Add your OpenAI API key to enable AI-powered code analysis and
-                answers
+                Add your AI provider API key to enable AI-powered code analysis
+                and answers. Choose the provider, base URL and model under
+                Settings → AI Configuration.
               </p>
             </div>
 
             <div className="space-y-1">
-              <Label htmlFor="api-key">OpenAI API Key</Label>
+              <Label htmlFor="api-key">AI Provider API Key</Label>
               <Input
                 id="api-key"
                 type="password"
@@ -1,7 +1,15 @@
 
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
+import { FileCode, Folder, Hash } from "lucide-react";
 import { getAutoCompleteSuggestions } from "@/services/chatHistoryService";
+import {
+  MentionSuggestion,
+  MentionToken,
+  applyMentionSuggestion,
+  getMentionAtCursor,
+  getMentionSuggestions
+} from "@/services/mentions";
 
 interface QuestionAutoCompleteProps {
   value: string;
@@ -12,6 +20,12 @@ interface QuestionAutoCompleteProps {
   className?: string;
 }
 
+const MENTION_ICONS = {
+  file: FileCode,
+  folder: Folder,
+  symbol: Hash
+};
+
 export default function QuestionAutoComplete({
   value,
   onChange,
@@ -25,8 +39,14 @@ export default function QuestionAutoComplete({
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const suggestionRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  // The @file or #symbol mention being typed, which takes over the suggestions
+  const [mentionToken, setMentionToken] = useState<MentionToken | null>(null);
+  const [mentionSuggestions, setMentionSuggestions] = useState<MentionSuggestion[]>([]);
+  const pendingCursor = useRef<number | null>(null);
+  const isMentioning = mentionToken !== null && mentionSuggestions.length > 0;
 
   useEffect(() => {
+    if (mentionToken) return;
     if (value.length >= 2) {
       const newSuggestions = getAutoCompleteSuggestions(value, 5);
       setSuggestions(newSuggestions);
@@ -37,10 +57,34 @@ export default function QuestionAutoComplete({
       setShowSuggestions(false);
       setSelectedIndex(-1);
     }
+  }, [value, mentionToken]);
+
+  // Put the cursor after an inserted mention once the new value is rendered
+  useEffect(() => {
+    if (pendingCursor.current !== null && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+      pendingCursor.current = null;
+    }
   }, [value]);
 
+  const updateMentionToken = (text: string, cursor: number | null) => {
+    const token = cursor === null ? null : getMentionAtCursor(text, cursor);
+    const found = token ? getMentionSuggestions(token) : [];
+    setMentionToken(token);
+    setMentionSuggestions(found);
+    if (token) {
+      setSelectedIndex(found.length > 0 ? 0 : -1);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onChange(e.target.value);
+    updateMentionToken(e.target.value, e.target.selectionStart);
+  };
+
+  const handleCursorMove = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    updateMentionToken(e.currentTarget.value, e.currentTarget.selectionStart);
   };
 
   const handleSelectSuggestion = (suggestion: string) => {
@@ -50,30 +94,45 @@ export default function QuestionAutoComplete({
     onSelect(suggestion);
   };
 
+  const handleSelectMention = (suggestion: MentionSuggestion) => {
+    const next = applyMentionSuggestion(value, mentionToken, suggestion);
+    pendingCursor.current = next.cursor;
+    onChange(next.value);
+    // A folder stays open to pick something inside it
+    updateMentionToken(next.value, suggestion.kind === "folder" ? next.cursor : null);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (!showSuggestions || suggestions.length === 0) return;
+    const count = isMentioning ? mentionSuggestions.length : suggestions.length;
+    if (!isMentioning && (!showSuggestions || suggestions.length === 0)) return;
 
     switch (e.key) {
       case 'ArrowDown':
         e.preventDefault();
         setSelectedIndex(prev => 
-          prev < suggestions.length - 1 ? prev + 1 : 0
+          prev < count - 1 ? prev + 1 : 0
         );
         break;
       case 'ArrowUp':
         e.preventDefault();
         setSelectedIndex(prev => 
-          prev > 0 ? prev - 1 : suggestions.length - 1
+          prev > 0 ? prev - 1 : count - 1
         );
         break;
+      case 'Tab':
       case 'Enter':
         if (selectedIndex >= 0) {
           e.preventDefault();
-          handleSelectSuggestion(suggestions[selectedIndex]);
+          if (isMentioning) {
+            handleSelectMention(mentionSuggestions[selectedIndex]);
+          } else if (e.key === 'Enter') {
+            handleSelectSuggestion(suggestions[selectedIndex]);
+          }
         }
         break;
       case 'Escape':
         setShowSuggestions(false);
+        setMentionToken(null);
         setSelectedIndex(-1);
         break;
     }
@@ -89,6 +148,7 @@ export default function QuestionAutoComplete({
     // Delay hiding suggestions to allow clicks on suggestion buttons
     setTimeout(() => {
       setShowSuggestions(false);
+      setMentionToken(null);
       setSelectedIndex(-1);
     }, 150);
   };
@@ -96,7 +156,31 @@ export default function QuestionAutoComplete({
   return (
     <div className={`relative ${className}`}>
       {/* Position suggestions above the input */}
-      {showSuggestions && suggestions.length > 0 && (
+      {isMentioning ? (
+        <div className="absolute bottom-full left-0 right-0 z-50 mb-1 bg-white border rounded-md shadow-lg max-h-64 overflow-y-auto">
+          {mentionSuggestions.map((suggestion, index) => {
+            const Icon = MENTION_ICONS[suggestion.kind];
+            return (
+              <Button
+                key={`${suggestion.kind}:${suggestion.value}:${suggestion.detail || ""}`}
+                variant="ghost"
+                className={`w-full justify-start text-left px-3 py-2 h-auto rounded-none border-0 ${
+                  index === selectedIndex ? 'bg-gray-100' : 'hover:bg-gray-50'
+                }`}
+                // Keep focus in the input so choosing a folder can continue into it
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => handleSelectMention(suggestion)}
+              >
+                <Icon className="h-4 w-4 mr-2 flex-shrink-0 text-gray-500" />
+                <span className="font-mono text-sm truncate">{suggestion.value}</span>
+                {suggestion.detail && (
+                  <span className="ml-auto pl-3 text-xs text-gray-400 truncate">{suggestion.detail}</span>
+                )}
+              </Button>
+            );
+          })}
+        </div>
+      ) : showSuggestions && suggestions.length > 0 && (
         <div className="absolute bottom-full left-0 right-0 z-50 mb-1 bg-white border rounded-md shadow-lg max-h-48 overflow-y-auto">
           {suggestions.map((suggestion, index) => (
             <Button
@@ -120,6 +204,7 @@ export default function QuestionAutoComplete({
         value={value}
         onChange={handleInputChange}
         onKeyDown={handleKeyDown}
+        onSelect={handleCursorMove}
         onFocus={handleInputFocus}
         onBlur={handleInputBlur}
         placeholder={placeholder}
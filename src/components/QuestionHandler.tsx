@@ -5,9 +5,15 @@ import SuggestedQuestions from "./SuggestedQuestions";
 import ShareSessionButton from "./ShareSessionButton";
 import { generateAnswer } from "@/services/answerGenerator";
 import { addChatEntry } from "@/services/chatHistoryService";
+import { createConversation, addConversationTurn } from "@/services/conversation";
 import NoAnswerFallback from "./NoAnswerFallback";
 import { getCurrentRepository } from "@/services/githubConnector";
 import { initializeKnowledgeBase, isUsingMockData, getEnhancedDiagnostics } from "@/services/knowledgeBase";
+import { getUserRepositories } from "@/services/userRepositories";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { MessageSquarePlus } from "lucide-react";
 
 export default function QuestionHandler({
   className
@@ -15,13 +21,23 @@ export default function QuestionHandler({
   className?: string;
 }) {
   const [answers, setAnswers] = useState<Array<{
+    id: number;
     question: string;
     answer: any;
     timestamp: string;
     hasError?: boolean;
+    isStreaming?: boolean;
   }>>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [currentRepo, setCurrentRepo] = useState<{ owner: string; repo: string } | null>(null);
+  const [searchAcross, setSearchAcross] = useState(false);
+  const repositoryCount = getUserRepositories().length;
+  
+  // Controller for the answer currently being streamed, so it can be stopped
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const nextAnswerIdRef = useRef(0);
+  // Earlier questions and answers, so follow-ups are understood in context
+  const conversationRef = useRef(createConversation());
   
   // Create a ref for the most recent answer to scroll to
   const latestAnswerRef = useRef<HTMLDivElement>(null);
@@ -59,6 +75,9 @@ export default function QuestionHandler({
 
   // Generate dynamic content based on repository
   const getHeading = () => {
+    if (searchAcross && repositoryCount > 1) {
+      return `Ask anything across ${repositoryCount} repositories`;
+    }
     if (currentRepo) {
       return `Ask anything about ${currentRepo.repo}`;
     }
@@ -66,6 +85,9 @@ export default function QuestionHandler({
   };
 
   const getSubheading = () => {
+    if (searchAcross && repositoryCount > 1) {
+      return "Get instant answers from every connected codebase";
+    }
     if (currentRepo) {
       return `Get instant answers based on the ${currentRepo.owner}/${currentRepo.repo} codebase`;
     }
@@ -88,7 +110,29 @@ export default function QuestionHandler({
     ];
   };
   
+  const updateAnswerEntry = (id: number, update: (entry: typeof answers[number]) => typeof answers[number]) => {
+    setAnswers(prev => prev.map(entry => entry.id === id ? update(entry) : entry));
+  };
+
+  const handleStopAnswer = () => {
+    abortControllerRef.current?.abort();
+  };
+  
   const handleAskQuestion = async (question: string) => {
+    const id = nextAnswerIdRef.current++;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const conversation = conversationRef.current;
+
+    // Add a placeholder entry straight away; streamed tokens are appended to it
+    setAnswers(prev => [...prev, {
+      id,
+      question,
+      answer: { text: '', confidence: 0, references: [] },
+      timestamp: new Date().toLocaleString(),
+      isStreaming: true
+    }]);
+
     try {
       setIsProcessing(true);
       
@@ -128,7 +172,18 @@ export default function QuestionHandler({
       // Pass this context to the answer generator
       const answer = await generateAnswer(question, { 
         concise: isHowToQuestion,
-        skipBenefits: isHowToQuestion
+        skipBenefits: isHowToQuestion,
+        signal: controller.signal,
+        repositoryIds: searchAcross && repositoryCount > 1
+          ? getUserRepositories().map(repo => repo.id)
+          : undefined,
+        conversation,
+        onToken: (token) => {
+          updateAnswerEntry(id, entry => ({
+            ...entry,
+            answer: { ...entry.answer, text: entry.answer.text + token }
+          }));
+        }
       });
 
       console.log(`Answer received:`, answer ? 'Success' : 'No answer');
@@ -136,41 +191,58 @@ export default function QuestionHandler({
       if (answer) {
         // Save to chat history after getting the answer
         addChatEntry(question, answer);
+        // A stopped answer is cut short, so later follow-ups shouldn't build on it
+        if (!answer.stopped) {
+          addConversationTurn(conversation, question, answer);
+        }
 
-        // Add the new answer to the END of our answers array to maintain oldest-to-newest ordering
-        setAnswers(prev => [...prev, {
-          question,
+        // Replace the streamed placeholder with the final answer and its references
+        updateAnswerEntry(id, entry => ({
+          ...entry,
           answer,
-          timestamp: new Date().toLocaleString(),
-          hasError: false
-        }]);
+          hasError: false,
+          isStreaming: false
+        }));
         
         console.log(`Answer added to display for question: "${question}"`);
+      } else if (controller.signal.aborted) {
+        // Stopped before anything came back - drop the placeholder
+        console.log(`Answer stopped for question: "${question}"`);
+        setAnswers(prev => prev.filter(entry => entry.id !== id));
       } else {
         // Add error answer to display
         console.log(`No answer found for question: "${question}"`);
-        setAnswers(prev => [...prev, {
-          question,
+        updateAnswerEntry(id, entry => ({
+          ...entry,
           answer: null,
-          timestamp: new Date().toLocaleString(),
-          hasError: true
-        }]);
+          hasError: true,
+          isStreaming: false
+        }));
       }
     } catch (error) {
       console.error("Error processing question:", error);
       
       // Add error answer to display
-      setAnswers(prev => [...prev, {
-        question,
+      updateAnswerEntry(id, entry => ({
+        ...entry,
         answer: null,
-        timestamp: new Date().toLocaleString(),
-        hasError: true
-      }]);
+        hasError: true,
+        isStreaming: false
+      }));
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsProcessing(false);
     }
   };
   
+  const handleNewConversation = () => {
+    abortControllerRef.current?.abort();
+    conversationRef.current = createConversation();
+    setAnswers([]);
+  };
+
   const handleSelectQuestion = (question: string) => {
     handleAskQuestion(question);
   };
@@ -186,14 +258,37 @@ export default function QuestionHandler({
   }, [answers.length]);
 
   // Determine the layout based on whether we have answers or not
+  // Only offered once more than one repository is connected
+  const renderSearchAcrossToggle = () => {
+    if (repositoryCount < 2) return null;
+
+    return (
+      <div className="flex items-center justify-center gap-2 mt-3">
+        <Switch
+          id="search-across-repositories"
+          checked={searchAcross}
+          onCheckedChange={setSearchAcross}
+          disabled={isProcessing}
+        />
+        <Label htmlFor="search-across-repositories" className="text-sm text-muted-foreground">
+          Search across all {repositoryCount} repositories
+        </Label>
+      </div>
+    );
+  };
+
   const hasAnswers = answers.length > 0;
   
   return (
     <div className={`relative ${className}`}>
       {/* Header with share button - only show when there are answers */}
       {hasAnswers && (
-        <div className="flex justify-end mb-6">
-          <ShareSessionButton answers={answers.filter(a => !a.hasError)} />
+        <div className="flex justify-end gap-2 mb-6">
+          <Button variant="outline" size="sm" onClick={handleNewConversation}>
+            <MessageSquarePlus className="h-4 w-4 mr-1" />
+            New conversation
+          </Button>
+          <ShareSessionButton answers={answers.filter(a => !a.hasError && !a.isStreaming)} />
         </div>
       )}
 
@@ -203,6 +298,7 @@ export default function QuestionHandler({
           <h2 className="text-2xl font-semibold mb-2 text-center">{getHeading()}</h2>
           <p className="text-muted-foreground mb-8 text-center">{getSubheading()}</p>
           <QuestionInput onAskQuestion={handleAskQuestion} isProcessing={isProcessing} centered={true} />
+          {renderSearchAcrossToggle()}
           <SuggestedQuestions questions={getSuggestedQuestions()} onSelectQuestion={handleSelectQuestion} isProcessing={isProcessing} />
         </div>
       )}
@@ -212,7 +308,7 @@ export default function QuestionHandler({
         <div>
           <div className="space-y-8 mb-8">
             {answers.map((item, index) => (
-              <div key={index} className="max-w-3xl mx-auto" ref={index === answers.length - 1 ? latestAnswerRef : null}>
+              <div key={item.id} className="max-w-3xl mx-auto" ref={index === answers.length - 1 ? latestAnswerRef : null}>
                 {item.hasError || !item.answer ? (
                   <NoAnswerFallback question={item.question} />
                 ) : (
@@ -222,6 +318,8 @@ export default function QuestionHandler({
                     confidence={item.answer.confidence} 
                     references={item.answer.references} 
                     timestamp={item.timestamp} 
+                    isStreaming={item.isStreaming}
+                    onStop={handleStopAnswer}
                   />
                 )}
               </div>
@@ -232,6 +330,7 @@ export default function QuestionHandler({
           <div className="fixed bottom-0 left-0 right-0 bg-white/95 backdrop-blur-sm border-t shadow-md py-4 z-10">
             <div className="max-w-2xl mx-auto px-4">
               <QuestionInput onAskQuestion={handleAskQuestion} isProcessing={isProcessing} centered={false} />
+              {renderSearchAcrossToggle()}
             </div>
           </div>
         </div>
@@ -58,7 +58,7 @@ export default function QuestionInput({
             onSelect={handleSelectQuestion}
             placeholder={
               centered
-                ? "What do you want to know today?"
+                ? "What do you want to know today? Use @ for files, # for symbols"
                 : "Ask another question..."
             }
             disabled={isProcessing}
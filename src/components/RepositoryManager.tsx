@@ -29,17 +29,20 @@ import {
   RefreshCw,
   Calendar,
   ExternalLink,
+  Pencil,
+  Check,
 } from "lucide-react";
 import { toast } from "sonner";
 import {
   getActiveRepository,
   getUserRepositories,
   removeUserRepository,
+  saveUserRepository,
+  updateRepositoryNickname,
   UserRepository,
 } from "@/services/userRepositories";
-import { saveRepositoryConfig } from "@/services/repositoryConfig";
 import { validateGithubToken } from "@/services/githubClient";
-import { initializeKnowledgeBase } from "@/services/knowledgeBase";
+import { switchActiveRepository } from "@/services/knowledgeBase";
 import {
   getGitHubAuthState,
   logoutGitHub,
@@ -49,10 +52,12 @@ import EnhancedRepositoryBrowser from "./EnhancedRepositoryBrowser";
 
 interface RepositoryManagerProps {
   className?: string;
+  onRepositoryChange?: () => void;
 }
 
 export default function RepositoryManager({
   className = "",
+  onRepositoryChange,
 }: RepositoryManagerProps) {
   const [repositories, setRepositories] = useState<UserRepository[]>([]);
   const [activeRepo, setActiveRepo] = useState<UserRepository | null>(null);
@@ -65,7 +70,13 @@ export default function RepositoryManager({
   const [owner, setOwner] = useState("");
   const [repo, setRepo] = useState("");
   const [token, setToken] = useState("");
+  const [nickname, setNickname] = useState("");
   const [isConnecting, setIsConnecting] = useState(false);
+  const [switchingRepoId, setSwitchingRepoId] = useState<string | null>(null);
+
+  // Inline nickname editing
+  const [editingRepoId, setEditingRepoId] = useState<string | null>(null);
+  const [nicknameDraft, setNicknameDraft] = useState("");
 
   useEffect(() => {
     loadRepositories();
@@ -102,18 +113,24 @@ export default function RepositoryManager({
         return;
       }
 
-      // Save repository configuration
-      saveRepositoryConfig({
-        owner: owner.trim(),
-        repo: repo.trim(),
-        token: token.trim(),
-      });
+      const savedRepo = saveUserRepository(
+        owner.trim(),
+        repo.trim(),
+        token.trim(),
+        nickname.trim()
+      );
 
       toast.success(`Repository ${owner}/${repo} added successfully`);
       setShowAddDialog(false);
       setOwner("");
       setRepo("");
       setToken("");
+      setNickname("");
+
+      // The first repository becomes active straight away
+      if (!getActiveRepository()) {
+        await handleActivateRepository(savedRepo.id);
+      }
       loadRepositories();
     } catch (error) {
       console.error("Error adding repository:", error);
@@ -125,9 +142,17 @@ export default function RepositoryManager({
 
   const handleRemoveRepository = async (repoId: string) => {
     try {
+      const wasActive = activeRepo?.id === repoId;
       removeUserRepository(repoId);
       toast.success("Repository removed successfully");
+
+      // Load the knowledge base of whichever repository took over
+      const nextActive = getActiveRepository();
+      if (wasActive && nextActive) {
+        await handleActivateRepository(nextActive.id);
+      }
       loadRepositories();
+      onRepositoryChange?.();
     } catch (error) {
       console.error("Error removing repository:", error);
       toast.error("Failed to remove repository");
@@ -136,19 +161,23 @@ export default function RepositoryManager({
 
   const handleRepositorySelect = async (selectedRepos: GitHubRepository[]) => {
     try {
-      // For now, we'll add the first repository as the primary one
-      // In the future, we can enhance this to support multiple repositories
-      const primaryRepo = selectedRepos[0];
-
-      // Save repository configuration
-      saveRepositoryConfig({
-        owner: primaryRepo.owner.login,
-        repo: primaryRepo.name,
-        token: githubAuth.token!,
-      });
+      selectedRepos.forEach((selected) =>
+        saveUserRepository(selected.owner.login, selected.name, githubAuth.token!)
+      );
 
-      toast.success(`Repository ${primaryRepo.full_name} added successfully`);
+      toast.success(
+        selectedRepos.length > 1
+          ? `${selectedRepos.length} repositories added successfully`
+          : `Repository ${selectedRepos[0].full_name} added successfully`
+      );
       setShowOAuthBrowser(false);
+
+      if (!getActiveRepository()) {
+        const firstRepo = getUserRepositories()[0];
+        if (firstRepo) {
+          await handleActivateRepository(firstRepo.id);
+        }
+      }
       loadRepositories();
     } catch (error) {
       console.error("Error adding repository:", error);
@@ -156,6 +185,34 @@ export default function RepositoryManager({
     }
   };
 
+  const handleActivateRepository = async (repoId: string) => {
+    setSwitchingRepoId(repoId);
+    try {
+      await switchActiveRepository(repoId);
+      toast.success("Active repository changed");
+      loadRepositories();
+      onRepositoryChange?.();
+    } catch (error) {
+      console.error("Error switching repository:", error);
+      toast.error("Failed to switch repository");
+    } finally {
+      setSwitchingRepoId(null);
+    }
+  };
+
+  const handleStartEditNickname = (repo: UserRepository) => {
+    setEditingRepoId(repo.id);
+    setNicknameDraft(repo.nickname || "");
+  };
+
+  const handleSaveNickname = () => {
+    if (!editingRepoId) return;
+    updateRepositoryNickname(editingRepoId, nicknameDraft);
+    setEditingRepoId(null);
+    setNicknameDraft("");
+    loadRepositories();
+  };
+
   const handleLogoutGitHub = () => {
     logoutGitHub();
     setGithubAuth(getGitHubAuthState());
@@ -334,17 +391,58 @@ export default function RepositoryManager({
                   <div className="flex items-center gap-3">
                     <Globe className="h-4 w-4 text-muted-foreground" />
                     <div>
-                      <div className="font-medium">
-                        {repo.owner}/{repo.repo}
-                      </div>
+                      {editingRepoId === repo.id ? (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={nicknameDraft}
+                            placeholder={`${repo.owner}/${repo.repo}`}
+                            onChange={(e) => setNicknameDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") handleSaveNickname();
+                              if (e.key === "Escape") setEditingRepoId(null);
+                            }}
+                            className="h-8 w-56"
+                            autoFocus
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleSaveNickname}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="font-medium flex items-center gap-1">
+                          {repo.nickname || `${repo.owner}/${repo.repo}`}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => handleStartEditNickname(repo)}
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
                       <div className="text-sm text-muted-foreground">
+                        {repo.nickname && `${repo.owner}/${repo.repo} · `}
                         Added {formatDate(repo.createdAt)}
                       </div>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
-                    {activeRepo?.id === repo.id && (
+                    {activeRepo?.id === repo.id ? (
                       <Badge variant="default">Active</Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={switchingRepoId !== null}
+                        onClick={() => handleActivateRepository(repo.id)}
+                      >
+                        {switchingRepoId === repo.id ? "Switching..." : "Make active"}
+                      </Button>
                     )}
                     <Button
                       variant="ghost"
@@ -400,6 +498,15 @@ export default function RepositoryManager({
                 onChange={(e) => setToken(e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="nickname">Nickname (optional)</Label>
+              <Input
+                id="nickname"
+                placeholder="e.g., Billing service"
+                value={nickname}
+                onChange={(e) => setNickname(e.target.value)}
+              />
+            </div>
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setShowAddDialog(false)}>
                 Cancel
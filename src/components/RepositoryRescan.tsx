@@ -86,11 +86,23 @@ export default function RepositoryRescan({
         }
       );
 
-      // Use the new force rescan function
-      await forceRepositoryRescan();
+      // Re-processes only changed files when previous scan SHAs are available
+      const incrementalResult = await forceRepositoryRescan();
 
       toast.dismiss("rescan");
 
+      if (incrementalResult) {
+        const { added, changed, deleted, unchanged } = incrementalResult;
+        toast.success("Repository rescanned incrementally", {
+          description: `${added.length} added, ${changed.length} changed, ${deleted.length} removed, ${unchanged} unchanged files`,
+          duration: 6000,
+        });
+
+        updateScanInfo();
+        onScanComplete?.();
+        return;
+      }
+
       const stats = getKnowledgeBaseStats();
       const successRate =
         diagnostics?.scanProgress?.totalFilesAvailable > 0
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Check, ChevronDown, FolderGit2, Settings } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  getActiveRepository,
+  getUserRepositories,
+  getRepositoryDisplayName,
+} from "@/services/userRepositories";
+import { switchActiveRepository } from "@/services/knowledgeBase";
+
+interface RepositorySwitcherProps {
+  onSwitch?: () => void;
+}
+
+export default function RepositorySwitcher({ onSwitch }: RepositorySwitcherProps) {
+  const navigate = useNavigate();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  // Read on every render; the Header re-renders on its status poll
+  const repositories = getUserRepositories();
+  const activeRepo = getActiveRepository();
+
+  if (repositories.length === 0) {
+    return null;
+  }
+
+  const handleSwitch = async (repositoryId: string) => {
+    if (repositoryId === activeRepo?.id) return;
+
+    const target = repositories.find((repo) => repo.id === repositoryId);
+    if (!target) return;
+
+    setIsSwitching(true);
+    const toastId = toast.loading(
+      `Switching to ${getRepositoryDisplayName(target)}...`
+    );
+
+    try {
+      await switchActiveRepository(repositoryId);
+      toast.success(`Now asking about ${getRepositoryDisplayName(target)}`, {
+        id: toastId,
+        duration: 3000,
+      });
+      onSwitch?.();
+    } catch (error) {
+      console.error("Error switching repository:", error);
+      toast.error("Failed to switch repository", {
+        id: toastId,
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1 max-w-[220px]"
+          disabled={isSwitching}
+        >
+          <FolderGit2 className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">
+            {activeRepo ? getRepositoryDisplayName(activeRepo) : "Select repository"}
+          </span>
+          <ChevronDown className="h-3 w-3 flex-shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Repositories</DropdownMenuLabel>
+        {repositories.map((repo) => (
+          <DropdownMenuItem
+            key={repo.id}
+            onSelect={() => handleSwitch(repo.id)}
+            className="flex items-center gap-2"
+          >
+            <Check
+              className={`h-4 w-4 ${
+                repo.id === activeRepo?.id ? "opacity-100" : "opacity-0"
+              }`}
+            />
+            <div className="min-w-0">
+              <div className="truncate">{getRepositoryDisplayName(repo)}</div>
+              {repo.nickname && (
+                <div className="text-xs text-muted-foreground truncate">
+                  {repo.owner}/{repo.repo}
+                </div>
+              )}
+            </div>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => navigate("/settings")}>
+          <Settings className="h-4 w-4 mr-2" />
+          Manage repositories
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
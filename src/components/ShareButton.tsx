@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Share, Check, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { createShareableAnswer } from "@/services/shareableAnswerService";
+import { ConfidenceBreakdown } from "@/services/answerConfidence";
 
 interface Reference {
   filePath: string;
@@ -12,11 +13,19 @@ interface Reference {
   lastUpdated?: string;
   author?: string;
   authorEmail?: string;
+  repository?: {
+    owner: string;
+    repo: string;
+    commitSha?: string;
+  };
+  citation?: number;
+  cited?: boolean;
 }
 
 interface VisualContext {
-  type: 'flowchart' | 'component' | 'state';
+  type: 'flowchart' | 'component' | 'state' | 'sequence' | 'er';
   syntax: string;
+  title?: string;
 }
 
 interface ShareButtonProps {
@@ -24,6 +33,7 @@ interface ShareButtonProps {
   answer: {
     text: string;
     confidence: number;
+    confidenceBreakdown?: ConfidenceBreakdown;
     references: Reference[];
     visualContext?: VisualContext;
   };
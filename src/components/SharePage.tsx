@@ -18,6 +18,8 @@ import {
 import { toast } from "sonner";
 import ConfidenceScore from "./ConfidenceScore";
 import CodeReference from "./CodeReference";
+import DiagramPanel from "./DiagramPanel";
+import { getCitedReferences } from "@/services/citations";
 import {
   Card,
   CardHeader,
@@ -34,6 +36,13 @@ interface Reference {
   lastUpdated?: string;
   author?: string;
   authorEmail?: string;
+  repository?: {
+    owner: string;
+    repo: string;
+    commitSha?: string;
+  };
+  citation?: number;
+  cited?: boolean;
 }
 
 export default function SharePage() {
@@ -291,16 +300,21 @@ export default function SharePage() {
                 ))}
             </div>
 
+            {answer.answer.visualContext && (
+              <DiagramPanel visualContext={answer.answer.visualContext} className="mb-6" />
+            )}
+
             <div className="border-t pt-4 mt-6">
               <div className="mb-4">
                 <ConfidenceScore
                   score={Math.round(answer.answer.confidence * 100)}
+                  breakdown={answer.answer.confidenceBreakdown}
                 />
               </div>
 
               <h4 className="text-sm font-medium mb-2">References</h4>
               <div className="space-y-2">
-                {answer.answer.references.map((reference: Reference, index) => (
+                {getCitedReferences<Reference>(answer.answer.references).map((reference, index) => (
                   <CodeReference
                     key={index}
                     filePath={reference.filePath}
@@ -309,6 +323,8 @@ export default function SharePage() {
                     lastUpdated={reference.lastUpdated}
                     author={reference.author}
                     authorEmail={reference.authorEmail}
+                    repository={reference.repository}
+                    citation={reference.citation}
                   />
                 ))}
               </div>
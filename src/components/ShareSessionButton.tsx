@@ -69,11 +69,18 @@ export default function ShareSessionButton({ answers, className }: ShareSessionB
       
       const avgConfidence = answers.length > 0 ? confidenceSum / answers.length : 0.5;
       
+      // A shared page shows one diagram: the latest answer's
+      const visualContext = [...answers]
+        .reverse()
+        .map(item => item.answer && typeof item.answer === 'object' ? item.answer.visualContext : undefined)
+        .find(Boolean);
+      
       // Create a combined answer object
       const combinedAnswer = {
         text: combinedAnswerText,
         confidence: avgConfidence,
-        references: allReferences
+        references: allReferences,
+        visualContext
       };
       
       // Create shareable version
@@ -1,10 +1,12 @@
-import { useState, useEffect, useRef } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Copy, ExternalLink, Mail } from "lucide-react";
+import { Copy, ExternalLink, Mail, Square } from "lucide-react";
 import { toast } from "sonner";
 import ReactMarkdown from "react-markdown";
 import ScreenshotGallery from "../ScreenshotGallery";
+import DiagramPanel from "../DiagramPanel";
 import { Link } from "react-router-dom";
+import { getCitedReferences } from "@/services/citations";
 
 interface Reference {
   filePath: string;
@@ -13,6 +15,8 @@ interface Reference {
   lastUpdated?: string;
   author?: string;
   authorEmail?: string;
+  citation?: number;
+  cited?: boolean;
 }
 
 interface Screenshot {
@@ -24,8 +28,9 @@ interface Screenshot {
 }
 
 interface VisualContext {
-  type: 'flowchart' | 'component' | 'state';
+  type: 'flowchart' | 'component' | 'state' | 'sequence' | 'er';
   syntax: string;
+  title?: string;
 }
 
 interface SlackAnswerDisplayProps {
@@ -37,25 +42,28 @@ interface SlackAnswerDisplayProps {
     references: Reference[];
     screenshots?: Screenshot[];
     visualContext?: VisualContext;
+    stopped?: boolean;
+    standaloneQuestion?: string;
+    diff?: { label: string; title?: string; url: string };
   };
+  isStreaming?: boolean;
+  onStop?: () => void;
 }
 
 export default function SlackAnswerDisplay({ 
   sender, 
   time, 
-  answer 
+  answer,
+  isStreaming = false,
+  onStop
 }: SlackAnswerDisplayProps) {
-  const [displayedParagraphs, setDisplayedParagraphs] = useState<string[]>([]);
-  const [isTyping, setIsTyping] = useState(true);
-  const [paragraphIndex, setParagraphIndex] = useState(0);
   const [showSourceFiles, setShowSourceFiles] = useState(false);
-  const typingSpeed = 500; // milliseconds per paragraph
   
   // Make sure we have a valid text content to display
   const answerText = answer && typeof answer.text === 'string' ? answer.text : "No answer available";
   const screenshots = answer?.screenshots;
   const paragraphs = answerText.split('\n\n').filter(p => p.trim() !== '');
-  const fullTextRef = useRef(paragraphs);
+  const sourceReferences = getCitedReferences(answer?.references || []);
 
   // Get avatar for Unfold
   const avatar = (
@@ -64,39 +72,11 @@ export default function SlackAnswerDisplay({
     </div>
   );
 
-  useEffect(() => {
-    fullTextRef.current = answerText.split('\n\n').filter(p => p.trim() !== '');
-    setParagraphIndex(0);
-    setDisplayedParagraphs([]);
-    setIsTyping(true);
-  }, [answerText]);
-
-  useEffect(() => {
-    if (!isTyping) return;
-
-    if (paragraphIndex < fullTextRef.current.length) {
-      const timeout = setTimeout(() => {
-        setDisplayedParagraphs(prev => [...prev, fullTextRef.current[paragraphIndex]]);
-        setParagraphIndex(prev => prev + 1);
-      }, typingSpeed);
-
-      return () => clearTimeout(timeout);
-    } else {
-      setIsTyping(false);
-    }
-  }, [paragraphIndex, isTyping]);
-
   const handleCopyAnswer = () => {
     navigator.clipboard.writeText(answer.text);
     toast.success("Answer copied to clipboard");
   };
 
-  const handleCompleteTyping = () => {
-    setDisplayedParagraphs(fullTextRef.current);
-    setParagraphIndex(fullTextRef.current.length);
-    setIsTyping(false);
-  };
-  
   const handleCreateEmailTemplate = () => {
     const subject = `RE: Your Slack question`;
     const body = `Hello,
@@ -151,28 +131,66 @@ Best regards,
         <div className="mt-2 p-3 border rounded-md bg-white">
           <div className="pr-3 max-h-[60vh] overflow-auto">
             <div className="text-sm space-y-2 mb-3 text-left">
-              {displayedParagraphs.map((paragraph, index) => (
+              {answer.standaloneQuestion && (
+                <p className="text-xs text-muted-foreground italic">
+                  Follow-up, searched as: {answer.standaloneQuestion}
+                </p>
+              )}
+              {answer.diff && (
+                <a
+                  href={answer.diff.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                >
+                  {answer.diff.label}{answer.diff.title ? `: ${answer.diff.title}` : ""}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+              {paragraphs.map((paragraph, index) => (
                 <div key={index} className="animate-fade-in prose prose-sm max-w-none dark:prose-invert">
                   <ReactMarkdown components={markdownComponents}>{paragraph}</ReactMarkdown>
                 </div>
               ))}
-              {isTyping && displayedParagraphs.length < paragraphs.length && (
-                <div className="flex items-center space-x-2 animate-pulse">
-                  <div className="h-2 w-2 bg-unfold-purple rounded-full"></div>
-                  <div className="h-2 w-2 bg-unfold-purple rounded-full"></div>
-                  <div className="h-2 w-2 bg-unfold-purple rounded-full"></div>
+              {isStreaming && (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 animate-pulse">
+                    <div className="h-2 w-2 bg-unfold-purple rounded-full"></div>
+                    <div className="h-2 w-2 bg-unfold-purple rounded-full"></div>
+                    <div className="h-2 w-2 bg-unfold-purple rounded-full"></div>
+                  </div>
+                  {onStop && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs"
+                      onClick={onStop}
+                    >
+                      <Square className="h-3 w-3 mr-1" />
+                      Stop
+                    </Button>
+                  )}
                 </div>
               )}
+              {answer.stopped && (
+                <p className="text-xs text-muted-foreground italic">
+                  Answer stopped before it was complete.
+                </p>
+              )}
             </div>
             
-            {/* Show screenshots if available and typing is complete */}
-            {!isTyping && screenshots && screenshots.length > 0 && (
+            {/* Show screenshots if available and streaming is complete */}
+            {!isStreaming && screenshots && screenshots.length > 0 && (
               <div className="my-3">
                 <ScreenshotGallery screenshots={screenshots} className="border-0 bg-transparent p-0" />
               </div>
             )}
             
-            {!isTyping && (
+            {!isStreaming && answer?.visualContext && (
+              <DiagramPanel visualContext={answer.visualContext} className="my-3" />
+            )}
+            
+            {!isStreaming && (
               <>
                 <div className="border-t pt-2 mt-3">
                   <div className="text-xs flex items-center mb-2">
@@ -187,7 +205,7 @@ Best regards,
                   </div>
                   
                   <div className="text-xs text-muted-foreground mb-2">
-                    Based on {answer.references.length} file{answer.references.length !== 1 ? 's' : ''}
+                    Based on {sourceReferences.length} file{sourceReferences.length !== 1 ? 's' : ''}
                   </div>
                   
                   <div className="flex gap-2">
@@ -222,25 +240,15 @@ Best regards,
                         Open in Unfold
                       </Link>
                     </Button>
-                    
-                    {isTyping && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="text-xs"
-                        onClick={handleCompleteTyping}
-                      >
-                        Complete typing
-                      </Button>
-                    )}
+
                   </div>
                 </div>
 
                 {/* Source files section */}
-                {answer.references.length > 0 && (
+                {sourceReferences.length > 0 && (
                   <div className="mt-3 mb-1">
                     <div className="flex flex-wrap gap-2 mb-2">
-                      {Array.from(new Set(answer.references.map(ref => ref.filePath.split('/').pop()))).map((filename, index) => (
+                      {Array.from(new Set(sourceReferences.map(ref => ref.filePath.split('/').pop()))).map((filename, index) => (
                         <span key={index} className="bg-gray-100 text-gray-700 px-2 py-1 rounded-full text-xs">
                           {filename}
                         </span>
@@ -261,9 +269,10 @@ Best regards,
                     
                     {showSourceFiles && (
                       <div className="text-xs space-y-2">
-                        {answer.references.map((ref, idx) => (
+                        {sourceReferences.map((ref, idx) => (
                           <div key={idx} className="bg-slate-50 p-2 rounded border">
                             <div className="font-mono text-xs text-muted-foreground mb-1">
+                              {ref.citation !== undefined && <span className="mr-1">[{ref.citation}]</span>}
                               {ref.filePath.split('/').pop()}
                               {ref.lineNumbers && <span className="ml-2">Lines: {ref.lineNumbers}</span>}
                               {ref.author && <span className="ml-2">by {ref.author}</span>}
@@ -4,8 +4,9 @@ import { Button } from "@/components/ui/button";
 import SlackMessage from "./SlackMessage";
 import SlackAnswerDisplay from "./SlackAnswerDisplay";
 import { generateAnswer } from "@/services/answerGenerator";
-import { Send, Search } from "lucide-react";
+import { Send, Search, Square } from "lucide-react";
 import { addChatEntry } from "@/services/chatHistoryService";
+import { createConversation, addConversationTurn } from "@/services/conversation";
 
 // Pre-defined sample questions and conversation flows
 const DEMO_SCENARIOS = {
@@ -38,11 +39,13 @@ interface SlackInterfaceProps {
 }
 
 interface Message {
+  id?: number;
   sender: string;
   text: string;
   time: string;
   isAnswer?: boolean;
   answer?: any;
+  isStreaming?: boolean;
 }
 
 export default function SlackInterface({ scenario }: SlackInterfaceProps) {
@@ -50,11 +53,17 @@ export default function SlackInterface({ scenario }: SlackInterfaceProps) {
   const [newMessage, setNewMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const nextAnswerIdRef = useRef(0);
+  // Questions to @unfold in this channel and their answers, for follow-ups
+  const conversationRef = useRef(createConversation());
   const scenarioData = DEMO_SCENARIOS[scenario];
+  const isAnswering = isTyping || messages.some(msg => msg.isStreaming);
 
   // Initialize with scenario messages
   useEffect(() => {
     setMessages([...scenarioData.initialMessages]);
+    conversationRef.current = createConversation();
   }, [scenario]);
 
   // Auto scroll to bottom of messages
@@ -92,46 +101,92 @@ export default function SlackInterface({ scenario }: SlackInterfaceProps) {
       // Extract the actual question by removing the @unfold mention
       const actualQuestion = newMessage.replace(/@unfold/i, "").trim();
       
-      // Simulate delay for typing
-      setTimeout(async () => {
-        try {
-          // Generate answer
-          const answer = await generateAnswer(actualQuestion);
-          
-          if (answer) {
-            // Save to chat history
-            addChatEntry(actualQuestion, answer);
-            
-            // Add bot response
-            setMessages(prev => [...prev, {
-              sender: "Unfold",
-              text: "",
-              time: getCurrentTime(),
-              isAnswer: true,
-              answer: answer
-            }]);
-          } else {
-            // No answer found
-            setMessages(prev => [...prev, {
-              sender: "Unfold",
-              text: "I couldn't find specific information about that in the codebase. Would you like me to help with something else?",
-              time: getCurrentTime()
-            }]);
+      const id = nextAnswerIdRef.current++;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const conversation = conversationRef.current;
+      const answerTime = getCurrentTime();
+      let hasStreamed = false;
+
+      try {
+        // Stream the answer into a message that appears with the first token
+        const answer = await generateAnswer(actualQuestion, {
+          signal: controller.signal,
+          conversation,
+          onToken: (token) => {
+            hasStreamed = true;
+            setIsTyping(false);
+            setMessages(prev => prev.some(msg => msg.id === id)
+              ? prev.map(msg => msg.id === id
+                ? { ...msg, answer: { ...msg.answer, text: msg.answer.text + token } }
+                : msg)
+              : [...prev, {
+                id,
+                sender: "Unfold",
+                text: "",
+                time: answerTime,
+                isAnswer: true,
+                isStreaming: true,
+                answer: { text: token, confidence: 0, references: [] }
+              }]);
           }
-        } catch (error) {
-          // Error handling
+        });
+        
+        // Drop any streamed placeholder; the final message replaces it below
+        setMessages(prev => prev.filter(msg => msg.id !== id));
+
+        // Stopped while still searching: nothing was shown, so nothing is added
+        if (controller.signal.aborted && !hasStreamed) return;
+
+        if (answer) {
+          // Save to chat history
+          addChatEntry(actualQuestion, answer);
+          // A stopped answer is cut short, so later follow-ups shouldn't build on it
+          if (!answer.stopped) {
+            addConversationTurn(conversation, actualQuestion, answer);
+          }
+          
+          // Add bot response
           setMessages(prev => [...prev, {
+            id,
             sender: "Unfold",
-            text: "Sorry, I encountered an error trying to answer your question. Please try again.",
+            text: "",
+            time: answerTime,
+            isAnswer: true,
+            answer: answer
+          }]);
+        } else {
+          // No answer found
+          setMessages(prev => [...prev, {
+            sender: "Unfold",
+            text: "I couldn't find specific information about that in the codebase. Would you like me to help with something else?",
             time: getCurrentTime()
           }]);
-        } finally {
+        }
+      } catch (error) {
+        if (controller.signal.aborted && !hasStreamed) return;
+        // Error handling
+        setMessages(prev => [...prev.filter(msg => msg.id !== id), {
+          sender: "Unfold",
+          text: "Sorry, I encountered an error trying to answer your question. Please try again.",
+          time: getCurrentTime()
+        }]);
+      } finally {
+        // A newer question may be answering by now; leave its state alone
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
           setIsTyping(false);
         }
-      }, 1500);
+      }
     }
   };
 
+  const handleStopAnswer = () => {
+    abortControllerRef.current?.abort();
+    // A search already under way finishes in the background; its result is dropped
+    setIsTyping(false);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -164,6 +219,8 @@ export default function SlackInterface({ scenario }: SlackInterfaceProps) {
                 sender={msg.sender}
                 time={msg.time}
                 answer={msg.answer}
+                isStreaming={msg.isStreaming}
+                onStop={handleStopAnswer}
               />
             ) : (
               <SlackMessage
@@ -184,6 +241,10 @@ export default function SlackInterface({ scenario }: SlackInterfaceProps) {
                 <div className="h-2 w-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
               </div>
               <span>Unfold is typing...</span>
+              <Button variant="outline" size="sm" className="ml-2 h-6 text-xs" onClick={handleStopAnswer}>
+                <Square className="h-3 w-3 mr-1" />
+                Stop
+              </Button>
             </div>
           )}
           <div ref={messagesEndRef} />
@@ -197,12 +258,12 @@ export default function SlackInterface({ scenario }: SlackInterfaceProps) {
           value={newMessage}
           onChange={(e) => setNewMessage(e.target.value)}
           onKeyPress={handleKeyPress}
-          disabled={isTyping}
+          disabled={isAnswering}
           className="flex-1"
         />
         <Button 
           onClick={handleSendMessage} 
-          disabled={!newMessage.trim() || isTyping}
+          disabled={!newMessage.trim() || isAnswering}
           size="icon"
         >
           <Send className="h-4 w-4" />
@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react"
+import {
+  getKnowledgeEntries,
+  initializeKnowledgeBase,
+  isInitializing,
+} from "@/services/knowledgeBase"
+
+// How often to check whether a scan that was already running has finished
+const INITIALIZATION_POLL_MS = 500
+
+/**
+ * Wait for the knowledge base, loading it if nothing has yet. Pages that only read it
+ * use this instead of starting a scan of their own.
+ */
+export function useKnowledgeBaseReady() {
+  const [isReady, setIsReady] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      // Another page may already be scanning; wait for it instead of starting over
+      while (isInitializing()) {
+        await new Promise((resolve) => setTimeout(resolve, INITIALIZATION_POLL_MS))
+        if (cancelled) return
+      }
+      if (getKnowledgeEntries().length === 0) {
+        await initializeKnowledgeBase(false)
+      }
+      if (!cancelled) setIsReady(true)
+    }
+
+    load().catch((loadError) => {
+      console.error("❌ Error loading the knowledge base:", loadError)
+      if (!cancelled) {
+        setError(loadError instanceof Error ? loadError.message : String(loadError))
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { isReady, error }
+}
@@ -0,0 +1,69 @@
+// Saving drawn Mermaid diagrams as SVG or PNG files
+
+// PNGs are drawn at twice the diagram's size so they stay sharp in documents
+const PNG_SCALE = 2;
+
+/**
+ * "Calls made by checkout()" -> "calls-made-by-checkout"
+ */
+export function getDiagramFileName(title: string | undefined): string {
+  const slug = (title || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "diagram";
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Mermaid sizes its SVG to the page; a standalone file needs its own namespace and size
+function toStandaloneSvg(svg: string): { markup: string; width: number; height: number } {
+  const root = new DOMParser().parseFromString(svg, "image/svg+xml").documentElement;
+  const [, , width = 800, height = 600] = (root.getAttribute("viewBox") || "")
+    .split(/[\s,]+/)
+    .map(Number);
+
+  root.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  root.setAttribute("width", String(width));
+  root.setAttribute("height", String(height));
+  root.removeAttribute("style");
+  return { markup: new XMLSerializer().serializeToString(root), width, height };
+}
+
+export function downloadSvg(svg: string, fileName: string): void {
+  const { markup } = toStandaloneSvg(svg);
+  downloadBlob(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }), `${fileName}.svg`);
+}
+
+/**
+ * Draw the diagram onto a white canvas and save it as a PNG
+ */
+export async function downloadPng(svg: string, fileName: string): Promise<void> {
+  const { markup, width, height } = toStandaloneSvg(svg);
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error("The diagram could not be loaded as an image"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(width * PNG_SCALE);
+  canvas.height = Math.ceil(height * PNG_SCALE);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas drawing is not supported in this browser");
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("The diagram could not be converted to PNG");
+  downloadBlob(blob, `${fileName}.png`);
+}
@@ -0,0 +1,122 @@
+// Rehype plugin that marks the first mention of each glossary term in rendered markdown,
+// so the answer can explain it on hover
+import { GlossaryTerm } from "@/services/knowledgeBase";
+
+interface HastText {
+  type: "text";
+  value: string;
+}
+
+interface HastElement {
+  type: "element";
+  tagName: string;
+  properties?: Record<string, unknown>;
+  children: HastNode[];
+}
+
+type HastNode = HastText | HastElement | { type: "root" | "comment" | "doctype"; children?: HastNode[] };
+
+interface TermMatcher {
+  pattern: RegExp;
+  // Lowercased spelling -> term key
+  keys: Map<string, string>;
+}
+
+// Text in these isn't prose: links, code blocks and headings stay as they are
+const SKIPPED_TAGS = new Set(["a", "pre", "h1", "h2", "h3", "h4", "h5", "h6", "dfn"]);
+
+// Matchers by glossary; the glossary is rebuilt, not changed, when the code changes
+const matcherCache = new WeakMap<GlossaryTerm[], TermMatcher | null>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Spellings of each term: its identifiers and, for documented terms and types, its words
+ */
+function getMatcher(terms: GlossaryTerm[]): TermMatcher | null {
+  if (matcherCache.has(terms)) return matcherCache.get(terms) || null;
+
+  const keys = new Map<string, string>();
+  terms.forEach((term) => {
+    const spellings = [term.term, ...term.aliases.filter((alias) => !alias.includes("."))];
+    if (term.documented || term.kind === "type" || term.kind === "enum") {
+      spellings.push(term.key);
+    }
+    spellings
+      .filter((spelling) => spelling.length >= 3)
+      .forEach((spelling) => {
+        if (!keys.has(spelling.toLowerCase())) keys.set(spelling.toLowerCase(), term.key);
+      });
+  });
+
+  // Longest first, so "subscription tier" wins over "tier"
+  const alternatives = Array.from(keys.keys())
+    .sort((a, b) => b.length - a.length)
+    .map((spelling) => escapeRegExp(spelling).replace(/ /g, "\\s+"));
+  const matcher = alternatives.length > 0
+    ? { pattern: new RegExp(`(?<![\\w$.])(?:${alternatives.join("|")})s?(?![\\w$])`, "gi"), keys }
+    : null;
+
+  matcherCache.set(terms, matcher);
+  return matcher;
+}
+
+function getTermKeyOf(matcher: TermMatcher, text: string): string | undefined {
+  const spelling = text.toLowerCase().replace(/\s+/g, " ");
+  return matcher.keys.get(spelling) || matcher.keys.get(spelling.replace(/s$/, ""));
+}
+
+/**
+ * Replace a text node with pieces, wrapping first mentions of terms in <dfn>
+ */
+function markText(node: HastText, parent: { children: HastNode[] }, matcher: TermMatcher, seen: Set<string>): void {
+  const pieces: HastNode[] = [];
+  let cursor = 0;
+
+  for (const match of node.value.matchAll(matcher.pattern)) {
+    const key = getTermKeyOf(matcher, match[0]);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+
+    const start = match.index || 0;
+    if (start > cursor) pieces.push({ type: "text", value: node.value.slice(cursor, start) });
+    pieces.push({
+      type: "element",
+      tagName: "dfn",
+      properties: { dataGlossaryTerm: key },
+      children: [{ type: "text", value: match[0] }],
+    });
+    cursor = start + match[0].length;
+  }
+
+  if (pieces.length === 0) return;
+  if (cursor < node.value.length) pieces.push({ type: "text", value: node.value.slice(cursor) });
+  parent.children.splice(parent.children.indexOf(node), 1, ...pieces);
+}
+
+function visit(node: HastNode, matcher: TermMatcher, seen: Set<string>): void {
+  if (!("children" in node) || !node.children) return;
+  if (node.type === "element" && SKIPPED_TAGS.has(node.tagName)) return;
+
+  // Copy first: marking replaces text nodes with pieces
+  [...node.children].forEach((child) => {
+    if (child.type === "text") {
+      markText(child, node as { children: HastNode[] }, matcher, seen);
+    } else {
+      visit(child, matcher, seen);
+    }
+  });
+}
+
+/**
+ * Mark the first mention of each glossary term
+ * @param seen - Term keys already marked, to share between documents rendered separately
+ */
+export default function rehypeGlossaryTerms({ terms, seen }: { terms: GlossaryTerm[]; seen?: Set<string> }) {
+  return (tree: HastNode) => {
+    const matcher = getMatcher(terms);
+    if (matcher) visit(tree, matcher, seen || new Set());
+  };
+}
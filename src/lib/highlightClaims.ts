@@ -0,0 +1,136 @@
+// Rehype plugin that marks the sentences of rendered markdown verification found
+// unsupported or only partially supported
+import { ClaimSupport, VerifiedClaim, getClaimKey, getSentenceRanges } from "@/services/answerVerification";
+import { CITATION_HREF_PREFIX } from "@/services/citations";
+
+interface HastText {
+  type: "text";
+  value: string;
+}
+
+interface HastElement {
+  type: "element";
+  tagName: string;
+  properties?: Record<string, unknown>;
+  children: HastNode[];
+}
+
+type HastNode = HastText | HastElement | { type: "root" | "comment" | "doctype"; children?: HastNode[] };
+
+interface TextSlot {
+  node: HastText;
+  parent: { children: HastNode[] };
+  start: number;
+}
+
+interface FlaggedRange {
+  start: number;
+  end: number;
+  claim: VerifiedClaim;
+}
+
+// Elements whose sentences are matched on their own
+const BLOCK_TAGS = new Set(["p", "li", "td", "th", "h1", "h2", "h3", "h4", "h5", "h6"]);
+
+const HIGHLIGHT_CLASSES: Record<Exclude<ClaimSupport, "supported">, string> = {
+  unsupported: "bg-red-100 text-inherit underline decoration-red-400 decoration-wavy underline-offset-2 rounded-sm",
+  partial: "bg-amber-50 text-inherit underline decoration-amber-400 decoration-dotted underline-offset-2 rounded-sm",
+};
+
+function isElement(node: HastNode): node is HastElement {
+  return node.type === "element";
+}
+
+function isCitationLink(node: HastElement): boolean {
+  const href = node.properties?.href;
+  return node.tagName === "a" && typeof href === "string" && href.startsWith(CITATION_HREF_PREFIX);
+}
+
+/**
+ * Text nodes of a block in reading order, leaving out nested blocks and citation links
+ */
+function collectText(parent: HastElement, slots: TextSlot[], offset: number): number {
+  for (const child of parent.children) {
+    if (child.type === "text") {
+      slots.push({ node: child, parent, start: offset });
+      offset += child.value.length;
+    } else if (isElement(child) && !BLOCK_TAGS.has(child.tagName) && !isCitationLink(child)) {
+      offset = collectText(child, slots, offset);
+    }
+  }
+  return offset;
+}
+
+/**
+ * Replace a text node with pieces, wrapping the parts inside flagged ranges in <mark>
+ */
+function splitSlot(slot: TextSlot, ranges: FlaggedRange[]): void {
+  const end = slot.start + slot.node.value.length;
+  const overlapping = ranges.filter((range) => range.start < end && range.end > slot.start);
+  if (overlapping.length === 0) return;
+
+  const pieces: HastNode[] = [];
+  let cursor = slot.start;
+  const pushText = (until: number) => {
+    if (until > cursor) {
+      pieces.push({ type: "text", value: slot.node.value.slice(cursor - slot.start, until - slot.start) });
+    }
+  };
+
+  for (const range of overlapping) {
+    pushText(Math.max(range.start, slot.start));
+    cursor = Math.max(range.start, slot.start);
+    const markEnd = Math.min(range.end, end);
+    const support = range.claim.support as Exclude<ClaimSupport, "supported">;
+    pieces.push({
+      type: "element",
+      tagName: "mark",
+      properties: {
+        className: [HIGHLIGHT_CLASSES[support]],
+        title: `${support === "unsupported" ? "Not supported by the code" : "Partly supported by the code"}: ${range.claim.reason}`,
+      },
+      children: [{ type: "text", value: slot.node.value.slice(cursor - slot.start, markEnd - slot.start) }],
+    });
+    cursor = markEnd;
+  }
+  pushText(end);
+
+  const index = slot.parent.children.indexOf(slot.node);
+  slot.parent.children.splice(index, 1, ...pieces);
+}
+
+function highlightBlock(block: HastElement, claimsByKey: Map<string, VerifiedClaim>): void {
+  const slots: TextSlot[] = [];
+  collectText(block, slots, 0);
+  const text = slots.map((slot) => slot.node.value).join("");
+
+  const flagged: FlaggedRange[] = [];
+  for (const range of getSentenceRanges(text)) {
+    const claim = claimsByKey.get(getClaimKey(text.slice(range.start, range.end)));
+    if (claim && claim.support !== "supported") {
+      flagged.push({ ...range, claim });
+    }
+  }
+
+  if (flagged.length > 0) {
+    slots.forEach((slot) => splitSlot(slot, flagged));
+  }
+}
+
+function visit(node: HastNode, claimsByKey: Map<string, VerifiedClaim>): void {
+  if (isElement(node) && BLOCK_TAGS.has(node.tagName)) {
+    highlightBlock(node, claimsByKey);
+  }
+  if ("children" in node && node.children) {
+    // Copy first: highlighting replaces text nodes with marks
+    [...node.children].forEach((child) => visit(child, claimsByKey));
+  }
+}
+
+/**
+ * Mark unsupported and partially supported claims, matched by sentence
+ */
+export default function rehypeHighlightClaims({ claims }: { claims: VerifiedClaim[] }) {
+  const claimsByKey = new Map(claims.map((claim) => [claim.key, claim]));
+  return (tree: HastNode) => visit(tree, claimsByKey);
+}
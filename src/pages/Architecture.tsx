@@ -0,0 +1,247 @@
+import { ReactNode, useMemo } from "react";
+import Header from "@/components/Header";
+import DiagramPanel from "@/components/DiagramPanel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Blocks } from "lucide-react";
+import { ArchitectureOverview, getArchitectureOverview } from "@/services/architecture";
+import { useKnowledgeBaseReady } from "@/hooks/use-knowledge-base-ready";
+
+const CODEBASE_TYPE_LABELS: Record<ArchitectureOverview["profile"]["type"], string> = {
+  ghost: "Ghost",
+  react: "React app",
+  nextjs: "Next.js app",
+  vue: "Vue app",
+  generic: "General codebase",
+};
+
+function Section({ title, description, children }: { title: string; description: string; children: ReactNode }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+function EmptyNote({ children }: { children: ReactNode }) {
+  return <p className="text-sm text-muted-foreground">{children}</p>;
+}
+
+/**
+ * Named things (data stores, integrations) with the files that use them
+ */
+function FileList({ items }: { items: { name: string; files: string[] }[] }) {
+  return (
+    <ul className="space-y-3">
+      {items.map((item) => (
+        <li key={item.name}>
+          <span className="font-medium">{item.name}</span>
+          <div className="text-xs text-muted-foreground mt-0.5 space-y-0.5">
+            {item.files.map((file) => (
+              <div key={file}>{file}</div>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function Architecture() {
+  const { isReady, error } = useKnowledgeBaseReady();
+  const isLoading = !isReady && !error;
+  const overview = useMemo(() => (isReady ? getArchitectureOverview() : null), [isReady]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container py-8">
+        <div className="flex items-center gap-2 mb-2">
+          <Blocks className="h-6 w-6 text-indigo-600" />
+          <h1 className="text-2xl font-bold">Architecture</h1>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          Generated from the last scan: how the code is split into modules, where it starts,
+          what it stores data in and which outside services it talks to.
+        </p>
+
+        {isLoading && <p className="text-muted-foreground">Reading the knowledge base...</p>}
+
+        {error && <p className="text-red-600">The knowledge base could not be loaded: {error}</p>}
+
+        {!isLoading && overview && overview.fileCount === 0 && (
+          <p className="text-center py-8 text-muted-foreground">
+            No files scanned yet. Connect and scan a repository to generate the overview.
+          </p>
+        )}
+
+        {!isLoading && overview && overview.fileCount > 0 && (
+          <div className="space-y-6">
+            {overview.isDemoData && (
+              <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                This overview is built from demo data. Connect a repository to see your own architecture.
+              </div>
+            )}
+
+            <Section
+              title="Overview"
+              description={`${overview.repository || "Current codebase"}${
+                overview.commitSha ? ` at ${overview.commitSha.slice(0, 7)}` : ""
+              }, generated ${new Date(overview.generatedAt).toLocaleString()}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <Badge>{CODEBASE_TYPE_LABELS[overview.profile.type]}</Badge>
+                <span className="text-sm text-muted-foreground">
+                  {overview.fileCount} file{overview.fileCount !== 1 ? "s" : ""} in {overview.modules.length} module
+                  {overview.modules.length !== 1 ? "s" : ""}
+                </span>
+              </div>
+              {overview.profile.technologyStack.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {overview.profile.technologyStack.map((technology) => (
+                    <Badge key={technology} variant="secondary">{technology}</Badge>
+                  ))}
+                </div>
+              )}
+              {overview.profile.commonPatterns.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Patterns: {overview.profile.commonPatterns.join(", ")}
+                </p>
+              )}
+            </Section>
+
+            <Section
+              title="Component diagram"
+              description="Modules grouped by layer; arrows point from a module to the modules it imports, labelled with the number of imports"
+            >
+              {overview.diagram ? (
+                <DiagramPanel visualContext={{ type: "component", syntax: overview.diagram, title: "Module dependencies" }} />
+              ) : (
+                <EmptyNote>No imports between modules were found to draw.</EmptyNote>
+              )}
+            </Section>
+
+            <Section title="Modules and layers" description="Top-level folders, by the layer their files belong to">
+              <div className="space-y-5">
+                {overview.layers.map(({ layer, modules }) => (
+                  <section key={layer}>
+                    <h2 className="font-semibold border-b mb-2 pb-1">{layer}</h2>
+                    <ul className="space-y-3">
+                      {modules.map((name) => {
+                        const module = overview.modules.find((candidate) => candidate.name === name);
+                        if (!module) return null;
+                        return (
+                          <li key={name} className="text-sm">
+                            <div className="flex flex-wrap items-baseline gap-2">
+                              <code className="font-semibold">{module.name}</code>
+                              <span className="text-xs text-muted-foreground">
+                                {module.fileCount} file{module.fileCount !== 1 ? "s" : ""}
+                              </span>
+                            </div>
+                            {module.dependsOn.length > 0 && (
+                              <p className="text-xs mt-0.5">
+                                Uses {module.dependsOn.map((dependency) => dependency.module).join(", ")}
+                              </p>
+                            )}
+                            {module.keyFiles.length > 0 && (
+                              <p className="text-xs text-muted-foreground mt-0.5">
+                                Key files: {module.keyFiles.join(", ")}
+                              </p>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </section>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Most imported files" description="Files the most other files import; changes to them reach the furthest">
+              {overview.mostImported.length > 0 ? (
+                <ul className="space-y-1">
+                  {overview.mostImported.map((file) => (
+                    <li key={file.filePath} className="flex items-baseline justify-between gap-4 text-sm">
+                      <code>{file.filePath}</code>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {file.dependents} importer{file.dependents !== 1 ? "s" : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <EmptyNote>No file imports another scanned file.</EmptyNote>
+              )}
+            </Section>
+
+            <div className="grid gap-6 md:grid-cols-3">
+              <Section title="Entry points" description="Where the application starts">
+                {overview.entryPoints.length > 0 ? (
+                  <ul className="space-y-2">
+                    {overview.entryPoints.map((entryPoint) => (
+                      <li key={entryPoint.filePath} className="text-sm">
+                        <code>{entryPoint.filePath}</code>
+                        <div className="text-xs text-muted-foreground">{entryPoint.reason}</div>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <EmptyNote>No entry points found.</EmptyNote>
+                )}
+              </Section>
+
+              <Section title="Data stores" description="Databases, caches and browser storage">
+                {overview.dataStores.length > 0 ? (
+                  <FileList items={overview.dataStores} />
+                ) : (
+                  <EmptyNote>No data stores found.</EmptyNote>
+                )}
+              </Section>
+
+              <Section title="External integrations" description="Outside services the code calls">
+                {overview.integrations.length > 0 ? (
+                  <FileList items={overview.integrations} />
+                ) : (
+                  <EmptyNote>No external integrations found.</EmptyNote>
+                )}
+              </Section>
+            </div>
+
+            <Section title="Key routes" description="Pages and API endpoints, and the files that define them">
+              {overview.routes.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-1 pr-4 font-medium">Route</th>
+                      <th className="py-1 pr-4 font-medium">Handled by</th>
+                      <th className="py-1 font-medium">File</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {overview.routes.map((route) => (
+                      <tr key={`${route.method || route.kind} ${route.path} ${route.filePath}`} className="border-b last:border-0">
+                        <td className="py-1 pr-4">
+                          <Badge variant="outline" className="mr-2">{route.method || route.kind}</Badge>
+                          <code>{route.path}</code>
+                        </td>
+                        <td className="py-1 pr-4">{route.target || "—"}</td>
+                        <td className="py-1 text-xs text-muted-foreground">{route.filePath}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <EmptyNote>No routes found.</EmptyNote>
+              )}
+            </Section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import Header from "@/components/Header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { BookOpen } from "lucide-react";
+import { GlossaryTerm, getGlossary } from "@/services/knowledgeBase";
+import { useKnowledgeBaseReady } from "@/hooks/use-knowledge-base-ready";
+
+const KIND_LABELS: Record<GlossaryTerm["kind"], string> = {
+  type: "Type",
+  enum: "Enum",
+  "enum-value": "Enum value",
+  constant: "Constant",
+  i18n: "UI text",
+};
+
+function getTermAnchor(key: string): string {
+  return `term-${key.replace(/\s+/g, "-")}`;
+}
+
+export default function Glossary() {
+  const [searchParams] = useSearchParams();
+  const selectedKey = searchParams.get("term");
+  const { isReady, error } = useKnowledgeBaseReady();
+  const isLoading = !isReady && !error;
+  const terms = useMemo(() => (isReady ? getGlossary() : []), [isReady]);
+  const [filter, setFilter] = useState("");
+
+  // Scroll to the term a hover card linked to
+  useEffect(() => {
+    if (isLoading || !selectedKey) return;
+    document.getElementById(getTermAnchor(selectedKey))?.scrollIntoView({ block: "center" });
+  }, [isLoading, selectedKey]);
+
+  const filteredTerms = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return terms;
+    return terms.filter(
+      (term) =>
+        term.key.includes(query) ||
+        term.term.toLowerCase().includes(query) ||
+        term.definition.toLowerCase().includes(query)
+    );
+  }, [terms, filter]);
+
+  // Grouped by first letter, in the glossary's alphabetical order
+  const groups = useMemo(() => {
+    const byLetter = new Map<string, GlossaryTerm[]>();
+    filteredTerms.forEach((term) => {
+      const letter = /[a-z]/.test(term.key[0]) ? term.key[0].toUpperCase() : "#";
+      byLetter.set(letter, [...(byLetter.get(letter) || []), term]);
+    });
+    return Array.from(byLetter.entries());
+  }, [filteredTerms]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container py-8">
+        <div className="flex items-center gap-2 mb-2">
+          <BookOpen className="h-6 w-6 text-indigo-600" />
+          <h1 className="text-2xl font-bold">Glossary</h1>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          Domain terms found in the code: type names, enum values, constants and UI text,
+          with where they are defined.
+        </p>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Terms</CardTitle>
+            <CardDescription>
+              {isLoading
+                ? "Reading the knowledge base..."
+                : error
+                ? `The knowledge base could not be loaded: ${error}`
+                : `${terms.length} term${terms.length !== 1 ? "s" : ""}, ${
+                    terms.filter((term) => term.documented).length
+                  } with written definitions`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Input
+              placeholder="Filter terms, e.g. tier"
+              value={filter}
+              onChange={(event) => setFilter(event.target.value)}
+              className="mb-6 max-w-sm"
+            />
+
+            {isReady && filteredTerms.length === 0 && (
+              <p className="text-center py-8 text-muted-foreground">
+                {terms.length === 0
+                  ? "No terms found. Connect and scan a repository to build the glossary."
+                  : "No terms match this filter"}
+              </p>
+            )}
+
+            <div className="space-y-8">
+              {groups.map(([letter, letterTerms]) => (
+                <section key={letter}>
+                  <h2 className="text-lg font-semibold border-b mb-3 pb-1">{letter}</h2>
+                  <dl className="space-y-4">
+                    {letterTerms.map((term) => (
+                      <div
+                        key={term.key}
+                        id={getTermAnchor(term.key)}
+                        className={`rounded-lg p-3 ${
+                          term.key === selectedKey ? "bg-indigo-50 border border-indigo-200" : ""
+                        }`}
+                      >
+                        <dt className="flex flex-wrap items-center gap-2">
+                          <code className="font-semibold">{term.term}</code>
+                          <Badge variant="secondary">{KIND_LABELS[term.kind]}</Badge>
+                          {term.aliases.length > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              also {term.aliases.join(", ")}
+                            </span>
+                          )}
+                        </dt>
+                        <dd className="mt-1 text-sm">
+                          <p className={term.documented ? "" : "text-muted-foreground"}>
+                            {term.definition}
+                          </p>
+                          {term.values && term.values.length > 0 && !term.definition.startsWith("One of") && (
+                            <p className="text-xs mt-1">Values: {term.values.join(", ")}</p>
+                          )}
+                          <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                            {term.files.map((file) => (
+                              <div key={file}>{file}</div>
+                            ))}
+                          </div>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </section>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { hasAICapabilities, wasAPIKeyPreviouslySet, getAPIKeyState } from "@/ser
 import { useConnectionStatus, initializeConnection } from "@/components/ConnectionStatusManager";
 import { Link } from "react-router-dom";
 import { AIStatusBadge } from "@/components/AIStatusBadge";
+import { AIProviderSelector } from "@/components/AIProviderSelector";
+import { getActiveAIProvider } from "@/services/aiProviders";
 
 export default function Settings() {
   const [connectionStatus, updateConnectionStatus] = useConnectionStatus();
@@ -32,6 +34,7 @@ export default function Settings() {
 
   const apiKeyStatus = getAPIKeyState();
   const isAIEnabled = hasAICapabilities();
+  const activeProvider = getActiveAIProvider();
 
   return (
     <div className="min-h-screen flex flex-col bg-white">
@@ -64,12 +67,14 @@ export default function Settings() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  <div className="flex items-center justify-between">
+                  <AIProviderSelector onChange={updateConnectionStatus} />
+                  
+                  <div className="flex items-center justify-between border-t pt-4">
                     <div>
-                      <p className="font-medium">OpenAI API Key</p>
+                      <p className="font-medium">{activeProvider.label} API Key</p>
                       <p className="text-sm text-muted-foreground">
                         {isAIEnabled 
-                          ? "API Key configured" 
+                          ? activeProvider.requiresApiKey ? "API Key configured" : "No API key required"
                           : wasAPIKeyPreviouslySet() 
                             ? "API Key needs to be re-entered" 
                             : "API Key not set"
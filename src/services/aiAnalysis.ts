@@ -1,16 +1,36 @@
-// AI Analysis Service to enhance repository search with OpenAI
+// AI Analysis Service to enhance repository search with the configured LLM provider
 import { toast } from "sonner";
+import {
+  getActiveAIProvider,
+  getAIProviderSettings,
+  saveAIProviderSettings,
+  AIProviderSettings,
+  ChatCompletionRequest,
+  ChatMessage
+} from "./aiProviders";
 
-// Store the OpenAI API key in memory (not persisted for security reasons)
-let openaiApiKey: string | null = null;
+// Store the active provider's API key in memory
+let apiKey: string | null = null;
 let apiKeyState = {
   lastError: null as string | null,
   lastUsed: 0 as number,
   failedAttempts: 0 as number
 };
 
-// LocalStorage key for API key (storing encrypted version)
-const OPENAI_API_KEY_STORAGE_KEY = 'unfold_openai_api_key';
+/**
+ * LocalStorage key for a provider's API key (storing encrypted version).
+ * OpenAI keeps the original 'unfold_openai_api_key' key.
+ */
+function apiKeyStorageKey(providerId: string): string {
+  return `unfold_${providerId}_api_key`;
+}
+
+/**
+ * LocalStorage flag recording that a provider's key was set at some point
+ */
+function apiKeySetFlag(providerId: string): string {
+  return `${providerId}_key_set`;
+}
 
 /**
  * Simple encryption function for API key
@@ -33,14 +53,17 @@ function decryptKey(encryptedKey: string): string {
 }
 
 /**
- * Load the OpenAI API key from localStorage on startup
+ * Load the active provider's API key from localStorage
  */
 function loadApiKeyFromStorage(): void {
+  apiKey = null;
+  
   try {
-    const encryptedKey = localStorage.getItem(OPENAI_API_KEY_STORAGE_KEY);
+    const provider = getActiveAIProvider();
+    const encryptedKey = localStorage.getItem(apiKeyStorageKey(provider.id));
     if (encryptedKey) {
-      openaiApiKey = decryptKey(encryptedKey);
-      console.log("OpenAI API key loaded from storage");
+      apiKey = decryptKey(encryptedKey);
+      console.log(`${provider.label} API key loaded from storage`);
       
       // Clear any previous errors when loading from storage
       apiKeyState.lastError = null;
@@ -55,37 +78,61 @@ function loadApiKeyFromStorage(): void {
 loadApiKeyFromStorage();
 
 /**
- * Set the OpenAI API key
- * @param key - The OpenAI API key
+ * Switch the active AI provider, base URL or model
+ * @param settings - The provider settings to use for all AI requests
+ */
+export function setAIProviderSettings(settings: AIProviderSettings): void {
+  saveAIProviderSettings(settings);
+  apiKeyState = {
+    lastError: null,
+    lastUsed: 0,
+    failedAttempts: 0
+  };
+  loadApiKeyFromStorage();
+}
+
+/**
+ * Get the active AI provider settings
+ */
+export function getCurrentAIProviderSettings(): AIProviderSettings {
+  return getAIProviderSettings();
+}
+
+/**
+ * Set the API key for the active provider
+ * @param key - The provider API key
  */
-export function setOpenAIApiKey(key: string): void {
+export function setAIApiKey(key: string): void {
   if (!key.trim()) {
     toast.error("API key cannot be empty");
     return;
   }
   
-  // Basic validation check for OpenAI key format
-  if (!key.startsWith('sk-')) {
+  const provider = getActiveAIProvider();
+  const settings = getAIProviderSettings();
+  
+  // Basic validation check for OpenAI key format, only against OpenAI itself
+  if (provider.id === 'openai' && settings.baseUrl === provider.defaultBaseUrl && !key.startsWith('sk-')) {
     toast.warning("API key doesn't match expected OpenAI key format", {
       description: "OpenAI keys usually start with 'sk-'. Check your API key."
     });
     // Still save it since we don't want to block users with special cases
   }
   
-  openaiApiKey = key;
+  apiKey = key;
   apiKeyState.lastError = null;
   apiKeyState.failedAttempts = 0;
   
   // Save an encrypted version to localStorage
   try {
     const encryptedKey = encryptKey(key);
-    localStorage.setItem(OPENAI_API_KEY_STORAGE_KEY, encryptedKey);
-    localStorage.setItem('openai_key_set', 'true');
+    localStorage.setItem(apiKeyStorageKey(provider.id), encryptedKey);
+    localStorage.setItem(apiKeySetFlag(provider.id), 'true');
   } catch (e) {
     console.error("Could not save API key to localStorage", e);
   }
   
-  toast.success("OpenAI API key has been set successfully", {
+  toast.success(`${provider.label} API key has been set successfully`, {
     description: "AI-powered analysis is now available."
   });
 }
@@ -95,7 +142,8 @@ export function setOpenAIApiKey(key: string): void {
  * @returns Boolean indicating if AI analysis is available
  */
 export function hasAICapabilities(): boolean {
-  return openaiApiKey !== null;
+  const provider = getActiveAIProvider();
+  return provider.requiresApiKey ? apiKey !== null : true;
 }
 
 /**
@@ -104,18 +152,18 @@ export function hasAICapabilities(): boolean {
  */
 export function wasAPIKeyPreviouslySet(): boolean {
   try {
-    return localStorage.getItem('openai_key_set') === 'true';
+    return localStorage.getItem(apiKeySetFlag(getActiveAIProvider().id)) === 'true';
   } catch (e) {
     return false;
   }
 }
 
 /**
- * Get the OpenAI API key
- * @returns The OpenAI API key or null if not set
+ * Get the API key for the active provider
+ * @returns The API key or null if not set
  */
-export function getOpenAIApiKey(): string | null {
-  return openaiApiKey;
+export function getAIApiKey(): string | null {
+  return apiKey;
 }
 
 /**
@@ -127,10 +175,11 @@ export function getAPIKeyState(): typeof apiKeyState {
 }
 
 /**
- * Clear the OpenAI API key
+ * Clear the API key for the active provider
  */
-export function clearOpenAIApiKey(): void {
-  openaiApiKey = null;
+export function clearAIApiKey(): void {
+  const provider = getActiveAIProvider();
+  apiKey = null;
   apiKeyState = {
     lastError: null,
     lastUsed: 0,
@@ -138,103 +187,182 @@ export function clearOpenAIApiKey(): void {
   };
   
   try {
-    localStorage.removeItem(OPENAI_API_KEY_STORAGE_KEY);
-    localStorage.removeItem('openai_key_set');
+    localStorage.removeItem(apiKeyStorageKey(provider.id));
+    localStorage.removeItem(apiKeySetFlag(provider.id));
   } catch (e) {
     console.error("Could not clear API key from localStorage");
   }
   
-  toast.info("OpenAI API key has been cleared", {
+  toast.info(`${provider.label} API key has been cleared`, {
     description: "AI-powered features are now disabled."
   });
 }
 
+// Options for streaming a completion and letting the user stop it
+export interface AIStreamOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Check whether an error came from aborting a fetch
+ */
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Run a chat completion against the active provider, tracking key state.
+ * When onToken is given the provider streams; an aborted request resolves
+ * with whatever text arrived before the abort.
+ */
+async function runCompletion(request: ChatCompletionRequest, onToken?: (token: string) => void): Promise<string> {
+  const provider = getActiveAIProvider();
+  const settings = getAIProviderSettings();
+  apiKeyState.lastUsed = Date.now();
+  let partialText = '';
+  
+  try {
+    if (onToken) {
+      return await provider.stream(settings, apiKey, request, token => {
+        partialText += token;
+        onToken(token);
+      });
+    }
+    return await provider.complete(settings, apiKey, request);
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log(`AI request stopped by user after ${partialText.length} characters`);
+      return partialText;
+    }
+    
+    apiKeyState.lastError = error instanceof Error ? error.message : "AI request failed";
+    apiKeyState.failedAttempts++;
+    throw error;
+  }
+}
+
+/**
+ * Report a failed AI request to the user with provider-specific wording
+ */
+function reportAIError(error: unknown, action: string): void {
+  const providerLabel = getActiveAIProvider().label;
+  
+  if (error instanceof Error) {
+    if (error.message.includes("invalid_api_key") || 
+        error.message.includes("Invalid authentication") ||
+        error.message.includes("Incorrect API key") ||
+        error.message.includes("invalid x-api-key")) {
+      apiKeyState.lastError = "Invalid API key";
+      toast.error(`Invalid ${providerLabel} API key`, {
+        description: "Please check your API key and try again."
+      });
+    } else if (error.message.includes("exceeded your current quota")) {
+      apiKeyState.lastError = "API quota exceeded";
+      toast.error(`${providerLabel} API quota exceeded`, {
+        description: "Your API key has reached its usage limit."
+      });
+    } else if (error.message.toLowerCase().includes("rate limit")) {
+      apiKeyState.lastError = "Rate limit exceeded";
+      toast.error(`${providerLabel} API rate limit exceeded`, {
+        description: "Please wait a moment before trying again."
+      });
+    } else if (error.message.includes("Failed to fetch")) {
+      apiKeyState.lastError = `Could not reach ${providerLabel} endpoint`;
+      toast.error(`Could not reach ${providerLabel} endpoint`, {
+        description: "Check the base URL in Settings and that the server allows browser requests (CORS)."
+      });
+    } else {
+      toast.error(`Error ${action} with AI`, {
+        description: error.message
+      });
+      apiKeyState.lastError = error.message;
+    }
+  } else {
+    toast.error(`Unknown error ${action} with AI`);
+    apiKeyState.lastError = "Unknown error";
+  }
+}
+
+/**
+ * Ensure the active provider can be called, telling the user what is missing
+ */
+function ensureProviderReady(purpose: string): boolean {
+  if (hasAICapabilities()) return true;
+  
+  const providerLabel = getActiveAIProvider().label;
+  console.warn(`${providerLabel} API key not set`);
+  toast.error(`${providerLabel} API key not set`, {
+    description: `Please set your API key to use AI-powered ${purpose}.`
+  });
+  return false;
+}
+
+/**
+ * Identify the embedding model the active provider would use
+ * @returns "<provider>:<model>", or null when the provider cannot embed
+ */
+export function getAIEmbeddingModelId(): string | null {
+  const provider = getActiveAIProvider();
+  const settings = getAIProviderSettings();
+  
+  if (!provider.embed || !settings.embeddingModel || !hasAICapabilities()) {
+    return null;
+  }
+  
+  return `${provider.id}:${settings.embeddingModel}`;
+}
+
 /**
- * Analyze code with OpenAI
+ * Embed texts with the active provider's embeddings endpoint.
+ * Request errors are thrown, not toasted: the vector index decides whether to retry.
+ * @param texts - The texts to embed
+ * @returns The model id and one vector per text, or null when the provider cannot embed
+ */
+export async function embedTextsWithAI(texts: string[]): Promise<{ model: string; vectors: number[][] } | null> {
+  const model = getAIEmbeddingModelId();
+  if (!model) {
+    return null;
+  }
+  
+  const vectors = await getActiveAIProvider().embed(getAIProviderSettings(), apiKey, { input: texts });
+  if (vectors.length !== texts.length) {
+    throw new Error(`Expected ${texts.length} embeddings, received ${vectors.length}`);
+  }
+  return { model, vectors };
+}
+
+/**
+ * Analyze code with the active AI provider
  * @param code - The code to analyze
- * @param prompt - The prompt to send to OpenAI
+ * @param prompt - The prompt to send to the model
  * @returns The analysis result
  */
 export async function analyzeCodeWithAI(code: string, prompt: string): Promise<string | null> {
-  if (!openaiApiKey) {
-    console.warn("OpenAI API key not set");
-    toast.error("OpenAI API key not set", {
-      description: "Please set your API key to use AI-powered code analysis."
-    });
+  if (!ensureProviderReady("code analysis")) {
     return null;
   }
 
   try {
-    console.log("Analyzing code with OpenAI:", code.substring(0, 100) + "...");
-    apiKeyState.lastUsed = Date.now();
+    console.log(`Analyzing code with ${getActiveAIProvider().label}:`, code.substring(0, 100) + "...");
     
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${openaiApiKey}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini", // Using smaller model to reduce costs
-        messages: [
-          {
-            role: "system",
-            content: "You are a helpful code analysis assistant. Analyze the code below and provide insights based on the user's prompt."
-          },
-          {
-            role: "user", 
-            content: `${prompt}\n\n\`\`\`\n${code}\n\`\`\``
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 1000
-      })
+    return await runCompletion({
+      messages: [
+        {
+          role: "system",
+          content: "You are a helpful code analysis assistant. Analyze the code below and provide insights based on the user's prompt."
+        },
+        {
+          role: "user", 
+          content: `${prompt}\n\n\`\`\`\n${code}\n\`\`\``
+        }
+      ],
+      temperature: 0.1,
+      maxTokens: 1000
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      const errorMessage = error.error?.message || "OpenAI API request failed";
-      apiKeyState.lastError = errorMessage;
-      apiKeyState.failedAttempts++;
-      
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
   } catch (error) {
-    console.error("Error analyzing code with OpenAI:", error);
-    
-    // Handle specific API key errors
-    if (error instanceof Error) {
-      if (error.message.includes("invalid_api_key") || 
-          error.message.includes("Invalid authentication") ||
-          error.message.includes("Incorrect API key")) {
-        apiKeyState.lastError = "Invalid API key";
-        toast.error("Invalid OpenAI API key", {
-          description: "Please check your API key and try again."
-        });
-      } else if (error.message.includes("exceeded your current quota")) {
-        apiKeyState.lastError = "API quota exceeded";
-        toast.error("OpenAI API quota exceeded", {
-          description: "Your API key has reached its usage limit."
-        });
-      } else if (error.message.includes("rate limit")) {
-        apiKeyState.lastError = "Rate limit exceeded";
-        toast.error("OpenAI API rate limit exceeded", {
-          description: "Please wait a moment before trying again."
-        });
-      } else {
-        toast.error("Error analyzing code with AI", {
-          description: error.message
-        });
-        apiKeyState.lastError = error.message;
-      }
-    } else {
-      toast.error("Unknown error analyzing code with AI");
-      apiKeyState.lastError = "Unknown error";
-    }
-    
+    console.error("Error analyzing code with AI:", error);
+    reportAIError(error, "analyzing code");
     return null;
   }
 }
@@ -243,39 +371,34 @@ export async function analyzeCodeWithAI(code: string, prompt: string): Promise<s
  * Generate an answer to a question based on code context
  * @param question - The question to answer
  * @param codeContext - The code context to use for answering
- * @returns The generated answer
+ * @param options - Optional token callback for streaming, abort signal for stopping, and
+ * earlier turns of the conversation
+ * @returns The generated answer (partial if stopped while streaming)
  */
-export async function generateAnswerWithAI(question: string, codeContext: string[]): Promise<string | null> {
-  if (!openaiApiKey) {
-    console.warn("OpenAI API key not set, cannot generate answer with AI");
-    toast.error("OpenAI API key not set", {
-      description: "Please set your API key to use AI-powered answers."
-    });
+export async function generateAnswerWithAI(
+  question: string,
+  codeContext: string[],
+  options: AIStreamOptions & { history?: ChatMessage[] } = {}
+): Promise<string | null> {
+  if (!ensureProviderReady("answers")) {
     return null;
   }
 
   try {
     console.log("Generating answer for question:", question);
     console.log("Using code context of", codeContext.length, "items");
-    apiKeyState.lastUsed = Date.now();
     
-    // Format the context to be more readable
+    // Number the items so the answer can cite them as [1], [2], ...
     const formattedContext = codeContext.map((item, index) => 
-      `Context Item ${index + 1}:\n${item}`
+      `[${index + 1}]\n${item}`
     ).join('\n\n');
     
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${openaiApiKey}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini", // Using smaller model to reduce costs
-        messages: [
-          {
-            role: "system",
-            content: `You are an AI assistant that answers questions about code repositories in a user-friendly way. Your audience consists of non-technical users who want to understand what features and functionality are available.
+    return await runCompletion({
+      signal: options.signal,
+      messages: [
+        {
+          role: "system",
+          content: `You are an AI assistant that answers questions about code repositories in a user-friendly way. Your audience consists of non-technical users who want to understand what features and functionality are available.
 
 CRITICAL GUIDELINES:
 1. Answer ONLY what is specifically asked. If they ask about "download links", only mention actual download functionality.
@@ -291,6 +414,8 @@ CRITICAL GUIDELINES:
 8. When listing features, describe them from a user perspective (what they enable, not how they work).
 9. Distinguish between different types of functionality clearly using simple terms.
 10. Provide practical information that helps users understand what's available to them.
+11. Earlier turns of the conversation may precede the question. Read follow-up questions in their light, but answer only from the code context.
+12. The code context items are numbered. Cite the items a statement is based on right after it, using their numbers in square brackets, e.g. [2] or [1, 3]. Only cite items that actually support the statement, and never invent numbers.
 
 Example: If asked "What download links are available?", say "The site offers downloads for Mac, iOS, and Windows" instead of mentioning function names or file paths.
 
@@ -299,62 +424,256 @@ FORMAT YOUR RESPONSE:
 - List items clearly using simple descriptions
 - Avoid technical jargon completely
 - Focus on user benefits and functionality
+- Cite supporting context items inline, e.g. [2]
 `
-          },
-          {
-            role: "user", 
-            content: `Question: ${question}\n\nCode context from repository:\n${formattedContext}\n\nPlease answer the specific question in simple, user-friendly language. Focus on what users can do, not technical implementation details.`
-          }
-        ],
-        temperature: 0.1, // Lower temperature for more focused responses
-        max_tokens: 800
-      })
+        },
+        ...(options.history || []),
+        {
+          role: "user", 
+          content: `Question: ${question}\n\nCode context from repository:\n${formattedContext}\n\nPlease answer the specific question in simple, user-friendly language. Focus on what users can do, not technical implementation details.`
+        }
+      ],
+      temperature: 0.1, // Lower temperature for more focused responses
+      maxTokens: 800
+    }, options.onToken);
+  } catch (error) {
+    console.error("Error generating answer with AI:", error);
+    reportAIError(error, "generating answer");
+    return null;
+  }
+}
+
+/**
+ * Ask the model how well an answer is supported by the context it was given
+ * @param question - The question that was answered
+ * @param answer - The generated answer
+ * @param codeContext - The numbered context items the answer was based on
+ * @returns Support from 0 to 1, or null when the check could not be made
+ */
+export async function checkAnswerSupportWithAI(
+  question: string,
+  answer: string,
+  codeContext: string[]
+): Promise<number | null> {
+  if (!hasAICapabilities()) {
+    return null;
+  }
+
+  try {
+    const formattedContext = codeContext.map((item, index) => `[${index + 1}]\n${item}`).join('\n\n');
+    
+    const response = await runCompletion({
+      messages: [
+        {
+          role: "system",
+          content: "You check answers about a code repository against the code they were based on. Reply with a single number between 0 and 1: 1 when every statement in the answer is backed by the code context, 0 when the answer is not backed by it at all. Reply with the number only."
+        },
+        {
+          role: "user",
+          content: `Code context:\n${formattedContext}\n\nQuestion: ${question}\n\nAnswer:\n${answer}`
+        }
+      ],
+      temperature: 0,
+      maxTokens: 10
     });
+    
+    const support = parseFloat(response.match(/\d*\.?\d+/)?.[0] ?? '');
+    if (isNaN(support)) {
+      console.warn("Answer self-check returned no score:", response);
+      return null;
+    }
+    return Math.min(1, Math.max(0, support));
+  } catch (error) {
+    // The self-check only refines the confidence score, so don't toast here
+    console.error("Error checking answer support with AI:", error);
+    return null;
+  }
+}
 
-    if (!response.ok) {
-      const error = await response.json();
-      const errorMessage = error.error?.message || "OpenAI API request failed";
-      apiKeyState.lastError = errorMessage;
-      apiKeyState.failedAttempts++;
-      
-      throw new Error(errorMessage);
+/**
+ * Ask the model to judge each claim of an answer against the code context
+ * @param claims - The claims to judge, in answer order
+ * @param codeContext - The numbered context items the answer was based on
+ * @returns One verdict per claim, or null when the model gave no usable verdicts
+ */
+export async function judgeClaimsWithAI(
+  claims: string[],
+  codeContext: string[]
+): Promise<{ verdict: 'supported' | 'partial' | 'unsupported'; reason: string }[] | null> {
+  if (!hasAICapabilities() || claims.length === 0) {
+    return null;
+  }
+
+  try {
+    const formattedContext = codeContext.map((item, index) => `[${index + 1}]\n${item}`).join('\n\n');
+    const formattedClaims = claims.map((claim, index) => `${index + 1}. ${claim}`).join('\n');
+    
+    const response = await runCompletion({
+      messages: [
+        {
+          role: "system",
+          content: `You verify statements about a code repository against the code they were based on. For each numbered claim decide whether the code context supports it:
+- "supported": the code clearly backs the whole claim
+- "partial": the code backs part of the claim, or backs it only loosely
+- "unsupported": the code does not back the claim, or contradicts it
+
+Be strict with numbers, limits, prices, names and settings: they must appear in the code.
+Reply with a JSON array only, one object per claim in order: [{"verdict": "supported", "reason": "short reason"}]`
+        },
+        {
+          role: "user",
+          content: `Code context:\n${formattedContext}\n\nClaims:\n${formattedClaims}`
+        }
+      ],
+      temperature: 0,
+      maxTokens: Math.min(2000, 60 * claims.length + 50)
+    });
+    
+    const json = response.match(/\[[\s\S]*\]/)?.[0];
+    const verdicts = json ? JSON.parse(json) : null;
+    if (!Array.isArray(verdicts) || verdicts.length !== claims.length) {
+      console.warn("Claim verification returned unusable verdicts:", response);
+      return null;
     }
+    
+    return verdicts.map(item => ({
+      verdict: ['supported', 'partial', 'unsupported'].includes(item?.verdict) ? item.verdict : 'partial',
+      reason: typeof item?.reason === 'string' ? item.reason : ''
+    }));
+  } catch (error) {
+    // Verification falls back to matching against the code, so don't toast here
+    console.error("Error judging claims with AI:", error);
+    return null;
+  }
+}
+
+/**
+ * Rewrite a follow-up question so it can be understood, and searched for, on its own
+ * @param question - The follow-up question
+ * @param history - Earlier turns of the conversation
+ * @returns The standalone question, or null when it could not be rewritten
+ */
+export async function rewriteFollowUpWithAI(question: string, history: ChatMessage[]): Promise<string | null> {
+  if (!hasAICapabilities() || history.length === 0) {
+    return null;
+  }
 
-    const data = await response.json();
-    return data.choices[0].message.content;
+  try {
+    const transcript = history
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n\n');
+    
+    const response = await runCompletion({
+      messages: [
+        {
+          role: "system",
+          content: "Rewrite the user's latest question about a code repository so it can be understood without the conversation: replace pronouns and references like \"it\" or \"what about\" with what they refer to. Keep it short and keep the user's wording otherwise. Reply with the rewritten question only."
+        },
+        {
+          role: "user",
+          content: `Conversation:\n${transcript}\n\nLatest question: ${question}`
+        }
+      ],
+      temperature: 0,
+      maxTokens: 100
+    });
+    
+    const rewritten = response.trim().replace(/^["']|["']$/g, '');
+    return rewritten || null;
   } catch (error) {
-    console.error("Error generating answer with OpenAI:", error);
+    // Search falls back to a rewrite without the model, so don't toast here
+    console.error("Error rewriting follow-up question with AI:", error);
+    return null;
+  }
+}
+
+/**
+ * Explain a pull request or comparison in plain language
+ * @param overview - Title, description or commit messages, and the changed symbols
+ * @param changes - One item per changed file with its patch, trimmed to the context budget
+ * @param dependents - Code outside the change that uses what it changed
+ * @returns The explanation, or null when the AI provider is unavailable
+ */
+export async function explainDiffWithAI(
+  overview: string,
+  changes: string[],
+  dependents: string[]
+): Promise<string | null> {
+  if (!ensureProviderReady("diff explanations")) {
+    return null;
+  }
+
+  try {
+    const response = await runCompletion({
+      messages: [
+        {
+          role: "system",
+          content: `You explain code changes to support staff and product managers who don't read code. Using the change overview and diffs, write in plain language:
+
+## What changed
+What users, customers or admins will notice, as a short list. Say so when a change is internal only.
+
+## Why it matters
+The reason for the change when the description or commits give one, and who is affected.
+
+## What else depends on it
+Other parts of the product that use the changed code and could behave differently. Say so when nothing else uses it.
+
+Avoid code, function names and file names unless there is no other way to identify a feature. Don't guess beyond the diff.`
+        },
+        {
+          role: "user",
+          content: `${overview}\n\nDiffs:\n${changes.join('\n\n')}\n\nCode that uses the changed code:\n${dependents.length > 0 ? dependents.join('\n') : 'None found'}`
+        }
+      ],
+      temperature: 0.1,
+      maxTokens: 900
+    });
     
-    // Handle specific API key errors (same as in analyzeCodeWithAI)
-    if (error instanceof Error) {
-      if (error.message.includes("invalid_api_key") || 
-          error.message.includes("Invalid authentication") ||
-          error.message.includes("Incorrect API key")) {
-        apiKeyState.lastError = "Invalid API key";
-        toast.error("Invalid OpenAI API key", {
-          description: "Please check your API key and try again."
-        });
-      } else if (error.message.includes("exceeded your current quota")) {
-        apiKeyState.lastError = "API quota exceeded";
-        toast.error("OpenAI API quota exceeded", {
-          description: "Your API key has reached its usage limit."
-        });
-      } else if (error.message.includes("rate limit")) {
-        apiKeyState.lastError = "Rate limit exceeded";
-        toast.error("OpenAI API rate limit exceeded", {
-          description: "Please wait a moment before trying again."
-        });
-      } else {
-        toast.error("Error generating answer with AI", {
-          description: error.message
-        });
-        apiKeyState.lastError = error.message;
-      }
-    } else {
-      toast.error("Unknown error generating answer with AI");
-      apiKeyState.lastError = "Unknown error";
-    }
+    return response.trim() || null;
+  } catch (error) {
+    console.error("Error explaining diff with AI:", error);
+    reportAIError(error, "explaining the changes");
+    return null;
+  }
+}
+
+/**
+ * Summarize the commits in a time range as release notes
+ * @param question - The question that was asked
+ * @param rangeLabel - The time range, e.g. "since March 1, 2026"
+ * @param timeline - Commits grouped by area, one per line
+ * @returns The summary, or null when the AI provider is unavailable
+ */
+export async function summarizeChangesWithAI(
+  question: string,
+  rangeLabel: string,
+  timeline: string
+): Promise<string | null> {
+  if (!ensureProviderReady("change summaries")) {
+    return null;
+  }
+
+  try {
+    const response = await runCompletion({
+      messages: [
+        {
+          role: "system",
+          content: `You write release-notes-style summaries of code changes for product managers. You get the commits made in a time range, grouped by area of the codebase. For each area with notable changes write a short heading and a few bullets on what changed for users, merging related commits. Put changes users will notice first and mention internal-only work briefly. Use only what the commit messages say; don't invent features or reasons.`
+        },
+        {
+          role: "user",
+          content: `Question: ${question}\nTime range: ${rangeLabel}\n\nCommits:\n${timeline}`
+        }
+      ],
+      temperature: 0.1,
+      maxTokens: 800
+    });
     
+    return response.trim() || null;
+  } catch (error) {
+    console.error("Error summarizing changes with AI:", error);
+    reportAIError(error, "summarizing changes");
     return null;
   }
 }
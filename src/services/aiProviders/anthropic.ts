@@ -0,0 +1,91 @@
+import { AIProvider, AIProviderSettings, ChatCompletionRequest, ChatMessage } from './types';
+import { providerRequestError, joinUrl } from './errors';
+import { readServerSentEvents } from './sse';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * POST to an Anthropic-style messages API: the system prompt is a top-level field, not a message
+ */
+async function postMessages(
+  settings: AIProviderSettings,
+  apiKey: string | null,
+  request: ChatCompletionRequest,
+  stream: boolean
+): Promise<Response> {
+  const system = request.messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+  const messages = request.messages.filter(
+    (message): message is ChatMessage & { role: 'user' | 'assistant' } => message.role !== 'system'
+  );
+
+  const response = await fetch(joinUrl(settings.baseUrl, 'messages'), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey || '',
+      "anthropic-version": ANTHROPIC_VERSION,
+      // Required for calls made directly from the browser
+      "anthropic-dangerous-direct-browser-access": "true"
+    },
+    signal: request.signal,
+    body: JSON.stringify({
+      model: settings.model,
+      system: system || undefined,
+      messages,
+      temperature: request.temperature ?? 0.1,
+      max_tokens: request.maxTokens ?? 1000,
+      stream
+    })
+  });
+
+  if (!response.ok) {
+    throw await providerRequestError(response, 'Anthropic');
+  }
+
+  return response;
+}
+
+export const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  requiresApiKey: true,
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  defaultModel: 'claude-3-5-haiku-latest',
+  apiKeyPlaceholder: 'sk-ant-...',
+  async complete(settings, apiKey, request) {
+    const response = await postMessages(settings, apiKey, request, false);
+    const data = await response.json();
+    const blocks: { type: string; text?: string }[] = data.content || [];
+    return blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+  },
+  async stream(settings, apiKey, request, onToken) {
+    const response = await postMessages(settings, apiKey, request, true);
+    let text = '';
+
+    await readServerSentEvents(response, data => {
+      try {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          text += event.delta.text;
+          onToken(event.delta.text);
+        } else if (event.type === 'error') {
+          throw new Error(event.error?.message || 'Anthropic stream error');
+        }
+      } catch (e) {
+        if (e instanceof SyntaxError) {
+          console.warn('Ignoring malformed Anthropic stream event');
+        } else {
+          throw e;
+        }
+      }
+    });
+
+    return text;
+  }
+};
@@ -0,0 +1,41 @@
+
+// Error from a provider request that got an HTTP response, with its status code
+export interface ProviderRequestError extends Error {
+  status: number;
+}
+
+/**
+ * Build an Error from a failed provider response, preferring the provider's own message.
+ * OpenAI-compatible servers and the Anthropic messages API both return { error: { message } }.
+ */
+export async function providerRequestError(response: Response, providerLabel: string): Promise<ProviderRequestError> {
+  let message = `${providerLabel} API request failed (${response.status})`;
+  
+  try {
+    const body = await response.json();
+    const bodyMessage = body?.error?.message || (typeof body?.error === 'string' ? body.error : null);
+    if (bodyMessage) {
+      message = bodyMessage;
+    }
+  } catch (e) {
+    // Non-JSON error body, keep the status-based message
+  }
+  
+  return Object.assign(new Error(message), { status: response.status });
+}
+
+/**
+ * HTTP status of a failed provider request
+ * @returns The status, or null for network errors and anything else without a response
+ */
+export function getProviderErrorStatus(error: unknown): number | null {
+  const status = (error as Partial<ProviderRequestError> | null)?.status;
+  return typeof status === 'number' ? status : null;
+}
+
+/**
+ * Join a base URL and an endpoint path without doubling slashes
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
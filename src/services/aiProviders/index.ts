@@ -0,0 +1,121 @@
+import { AIProvider, AIProviderId, AIProviderSettings, AnswerVerificationMode } from './types';
+export { estimateTokens, getModelContextWindow, getContextTokenBudget } from './tokens';
+export { getProviderErrorStatus } from './errors';
+import { openAICompatibleProvider, localProvider } from './openaiCompatible';
+import { anthropicProvider } from './anthropic';
+
+export type {
+  AIProvider,
+  AIProviderId,
+  AIProviderSettings,
+  AnswerVerificationMode,
+  ChatMessage,
+  ChatCompletionRequest,
+  EmbeddingRequest
+} from './types';
+
+// Local storage key for provider settings (base URL and model, never the API key)
+const PROVIDER_SETTINGS_KEY = 'unfold_ai_provider_settings';
+
+const providers: Record<AIProviderId, AIProvider> = {
+  openai: openAICompatibleProvider,
+  anthropic: anthropicProvider,
+  local: localProvider
+};
+
+/**
+ * Get every available provider adapter
+ */
+export function getAIProviders(): AIProvider[] {
+  return Object.values(providers);
+}
+
+/**
+ * Get a provider adapter by id, defaulting to OpenAI-compatible for unknown ids
+ */
+export function getAIProvider(id: AIProviderId): AIProvider {
+  return providers[id] || openAICompatibleProvider;
+}
+
+/**
+ * Default settings for a provider
+ */
+export function getDefaultProviderSettings(id: AIProviderId): AIProviderSettings {
+  const provider = getAIProvider(id);
+  return {
+    provider: provider.id,
+    baseUrl: provider.defaultBaseUrl,
+    model: provider.defaultModel,
+    embeddingModel: provider.defaultEmbeddingModel
+  };
+}
+
+/**
+ * A positive whole number of tokens, or undefined for the automatic budget
+ */
+function normalizeTokenBudget(budget: unknown): number | undefined {
+  const value = Math.floor(Number(budget));
+  return value > 0 ? value : undefined;
+}
+
+function normalizeVerificationMode(mode: unknown): AnswerVerificationMode {
+  return mode === 'match' || mode === 'judge' ? mode : 'off';
+}
+
+/**
+ * Get the active provider settings from local storage
+ * @returns Saved settings, or OpenAI defaults when nothing has been configured
+ */
+export function getAIProviderSettings(): AIProviderSettings {
+  try {
+    const settingsString = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    if (!settingsString) return getDefaultProviderSettings('openai');
+    
+    const saved = JSON.parse(settingsString) as Partial<AIProviderSettings>;
+    const defaults = getDefaultProviderSettings(saved.provider && providers[saved.provider] ? saved.provider : 'openai');
+    
+    return {
+      provider: defaults.provider,
+      baseUrl: saved.baseUrl?.trim() || defaults.baseUrl,
+      model: saved.model?.trim() || defaults.model,
+      embeddingModel: saved.embeddingModel?.trim() || defaults.embeddingModel,
+      contextTokenBudget: normalizeTokenBudget(saved.contextTokenBudget),
+      confidenceSelfCheck: saved.confidenceSelfCheck === true,
+      answerVerification: normalizeVerificationMode(saved.answerVerification)
+    };
+  } catch (error) {
+    console.error('Error retrieving AI provider settings:', error);
+    return getDefaultProviderSettings('openai');
+  }
+}
+
+/**
+ * Save the active provider settings to local storage
+ * @param settings Provider, base URL and model to use for AI requests
+ */
+export function saveAIProviderSettings(settings: AIProviderSettings): void {
+  const defaults = getDefaultProviderSettings(settings.provider);
+  const normalized: AIProviderSettings = {
+    provider: defaults.provider,
+    baseUrl: settings.baseUrl.trim() || defaults.baseUrl,
+    model: settings.model.trim() || defaults.model,
+    embeddingModel: settings.embeddingModel?.trim() || defaults.embeddingModel,
+    contextTokenBudget: normalizeTokenBudget(settings.contextTokenBudget),
+    confidenceSelfCheck: settings.confidenceSelfCheck === true,
+    answerVerification: normalizeVerificationMode(settings.answerVerification)
+  };
+  
+  try {
+    localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(normalized));
+    console.log(`AI provider set to ${normalized.provider} (${normalized.model} at ${normalized.baseUrl})`);
+  } catch (error) {
+    console.error('Error saving AI provider settings:', error);
+  }
+}
+
+/**
+ * Get the adapter for the currently configured provider
+ */
+export function getActiveAIProvider(): AIProvider {
+  return getAIProvider(getAIProviderSettings().provider);
+}
@@ -0,0 +1,164 @@
+import { AIProvider, AIProviderSettings, ChatCompletionRequest, EmbeddingRequest } from './types';
+import { providerRequestError, joinUrl } from './errors';
+import { readServerSentEvents } from './sse';
+
+/**
+ * POST a chat completion request to any server speaking the OpenAI /chat/completions format
+ */
+async function postChatCompletion(
+  settings: AIProviderSettings,
+  apiKey: string | null,
+  request: ChatCompletionRequest,
+  providerLabel: string,
+  stream: boolean
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json"
+  };
+  
+  if (apiKey) {
+    headers["Authorization"] = `Bearer ${apiKey}`;
+  }
+  
+  const response = await fetch(joinUrl(settings.baseUrl, 'chat/completions'), {
+    method: "POST",
+    headers,
+    signal: request.signal,
+    body: JSON.stringify({
+      model: settings.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.1,
+      max_tokens: request.maxTokens ?? 1000,
+      stream
+    })
+  });
+  
+  if (!response.ok) {
+    throw await providerRequestError(response, providerLabel);
+  }
+  
+  return response;
+}
+
+/**
+ * Wait for the whole completion and return its text
+ */
+async function completeOpenAICompatible(
+  settings: AIProviderSettings,
+  apiKey: string | null,
+  request: ChatCompletionRequest,
+  providerLabel: string
+): Promise<string> {
+  const response = await postChatCompletion(settings, apiKey, request, providerLabel, false);
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content ?? '';
+}
+
+/**
+ * Stream the completion over SSE, forwarding each content delta
+ */
+async function streamOpenAICompatible(
+  settings: AIProviderSettings,
+  apiKey: string | null,
+  request: ChatCompletionRequest,
+  providerLabel: string,
+  onToken: (token: string) => void
+): Promise<string> {
+  const response = await postChatCompletion(settings, apiKey, request, providerLabel, true);
+  let text = '';
+  
+  await readServerSentEvents(response, data => {
+    if (data === '[DONE]') return;
+    
+    try {
+      const chunk = JSON.parse(data);
+      const token: string | undefined = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        text += token;
+        onToken(token);
+      }
+    } catch (e) {
+      console.warn(`Ignoring malformed ${providerLabel} stream chunk`);
+    }
+  });
+  
+  return text;
+}
+
+/**
+ * Embed a batch of texts with the OpenAI /embeddings format
+ */
+async function embedOpenAICompatible(
+  settings: AIProviderSettings,
+  apiKey: string | null,
+  request: EmbeddingRequest,
+  providerLabel: string
+): Promise<number[][]> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json"
+  };
+  
+  if (apiKey) {
+    headers["Authorization"] = `Bearer ${apiKey}`;
+  }
+  
+  const response = await fetch(joinUrl(settings.baseUrl, 'embeddings'), {
+    method: "POST",
+    headers,
+    signal: request.signal,
+    body: JSON.stringify({
+      model: settings.embeddingModel,
+      input: request.input
+    })
+  });
+  
+  if (!response.ok) {
+    throw await providerRequestError(response, providerLabel);
+  }
+  
+  const data = await response.json();
+  const items: { index: number; embedding: number[] }[] = data.data || [];
+  
+  // Results may come back out of order; restore input order by index
+  return [...items]
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.embedding);
+}
+
+/**
+ * OpenAI or any hosted OpenAI-compatible endpoint (Azure proxies, OpenRouter, vLLM, ...)
+ */
+export const openAICompatibleProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  requiresApiKey: true,
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-4o-mini',
+  apiKeyPlaceholder: 'sk-...',
+  defaultEmbeddingModel: 'text-embedding-3-small',
+  complete: (settings, apiKey, request) =>
+    completeOpenAICompatible(settings, apiKey, request, 'OpenAI-compatible'),
+  stream: (settings, apiKey, request, onToken) =>
+    streamOpenAICompatible(settings, apiKey, request, 'OpenAI-compatible', onToken),
+  embed: (settings, apiKey, request) =>
+    embedOpenAICompatible(settings, apiKey, request, 'OpenAI-compatible')
+};
+
+/**
+ * Local Ollama or llama.cpp server, both of which expose the OpenAI format under /v1
+ */
+export const localProvider: AIProvider = {
+  id: 'local',
+  label: 'Local (Ollama / llama.cpp)',
+  requiresApiKey: false,
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  defaultModel: 'llama3.1',
+  apiKeyPlaceholder: 'Optional',
+  defaultEmbeddingModel: 'nomic-embed-text',
+  complete: (settings, apiKey, request) =>
+    completeOpenAICompatible(settings, apiKey, request, 'Local model'),
+  stream: (settings, apiKey, request, onToken) =>
+    streamOpenAICompatible(settings, apiKey, request, 'Local model', onToken),
+  embed: (settings, apiKey, request) =>
+    embedOpenAICompatible(settings, apiKey, request, 'Local model')
+};
@@ -0,0 +1,52 @@
+
+/**
+ * Read a Server-Sent Events response body, calling onData with each event's data payload.
+ * Resolves when the stream ends; rejects with an AbortError if the request is aborted.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string, event?: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+  
+  const flushEvent = (rawEvent: string) => {
+    let eventName: string | undefined;
+    const dataLines: string[] = [];
+    
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith('event:')) {
+        eventName = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    
+    if (dataLines.length > 0) {
+      onData(dataLines.join('\n'), eventName);
+    }
+  };
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      flushEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+  
+  if (buffer.trim()) {
+    flushEvent(buffer);
+  }
+}
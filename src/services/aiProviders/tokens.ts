@@ -0,0 +1,79 @@
+import { AIProviderId, AIProviderSettings } from './types';
+
+// Context windows by model name; the first match wins
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-4\.1/, 1047576],
+  [/^(o1|o3|o4)/, 200000],
+  [/^(gpt-4o|gpt-4-turbo|chatgpt-4o)/, 128000],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5/, 16385],
+  [/^claude/, 200000]
+];
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// Ollama and llama.cpp serve a short context unless the server is configured otherwise
+const LOCAL_CONTEXT_WINDOW = 4096;
+
+// Tokens kept free for the system prompt, the question and the answer
+const RESERVED_TOKENS = 2000;
+const CONTEXT_WINDOW_SHARE = 0.75;
+const MIN_CONTEXT_BUDGET = 1000;
+const MAX_AUTOMATIC_CONTEXT_BUDGET = 60000;
+
+// Claude's tokenizer produces noticeably more tokens than OpenAI's for the same code
+const TOKENIZER_FACTORS: Record<AIProviderId, number> = {
+  openai: 1,
+  anthropic: 1.15,
+  local: 1
+};
+
+// Pieces that BPE tokenizers keep together or split predictably
+const TOKEN_PIECE_PATTERN = /[A-Za-z]+|\d+| +|\s+|[^\sA-Za-z\d]/g;
+
+/**
+ * Estimate how many tokens a text uses with a provider's tokenizer.
+ * Words cost a token per ~4 letters, numbers per ~3 digits, each symbol one token and
+ * runs of spaces one per 4; a single space is merged into the next word.
+ */
+export function estimateTokens(text: string, provider: AIProviderId = 'openai'): number {
+  let tokens = 0;
+
+  for (const piece of text.match(TOKEN_PIECE_PATTERN) || []) {
+    if (/^[A-Za-z]/.test(piece)) {
+      tokens += Math.ceil(piece.length / 4);
+    } else if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (piece[0] === ' ') {
+      tokens += piece.length === 1 ? 0 : Math.ceil(piece.length / 4);
+    } else {
+      // Symbols, and line breaks together with the indentation after them
+      tokens += 1;
+    }
+  }
+
+  return Math.ceil(tokens * (TOKENIZER_FACTORS[provider] || 1));
+}
+
+/**
+ * Context window of the configured model, in tokens
+ */
+export function getModelContextWindow(settings: AIProviderSettings): number {
+  if (settings.provider === 'local') return LOCAL_CONTEXT_WINDOW;
+
+  const model = settings.model.toLowerCase();
+  const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens of code context to send with a question: the configured budget, or a share
+ * of the model's context window
+ */
+export function getContextTokenBudget(settings: AIProviderSettings): number {
+  if (settings.contextTokenBudget && settings.contextTokenBudget > 0) {
+    return settings.contextTokenBudget;
+  }
+
+  const available = (getModelContextWindow(settings) - RESERVED_TOKENS) * CONTEXT_WINDOW_SHARE;
+  return Math.round(Math.min(MAX_AUTOMATIC_CONTEXT_BUDGET, Math.max(MIN_CONTEXT_BUDGET, available)));
+}
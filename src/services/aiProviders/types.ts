@@ -0,0 +1,69 @@
+
+// Supported LLM provider adapters
+export type AIProviderId = 'openai' | 'anthropic' | 'local';
+
+// A single chat message in provider-neutral form
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Provider-neutral chat completion request
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+// Provider-neutral embedding request, one vector is returned per input
+export interface EmbeddingRequest {
+  input: string[];
+  signal?: AbortSignal;
+}
+
+// How AI answers are checked claim by claim: not at all, by matching them against the
+// code, or by matching plus the model as a judge
+export type AnswerVerificationMode = 'off' | 'match' | 'judge';
+
+// User-configurable connection settings for the active provider
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  baseUrl: string;
+  model: string;
+  embeddingModel?: string;
+  // Tokens of code context per answer; derived from the model's context window when unset
+  contextTokenBudget?: number;
+  // Ask the model to rate how well each answer is supported, as part of its confidence score
+  confidenceSelfCheck?: boolean;
+  answerVerification?: AnswerVerificationMode;
+}
+
+// Adapter contract every provider implements
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  apiKeyPlaceholder: string;
+  // Only set for providers that expose an embeddings endpoint
+  defaultEmbeddingModel?: string;
+  complete(
+    settings: AIProviderSettings,
+    apiKey: string | null,
+    request: ChatCompletionRequest
+  ): Promise<string>;
+  // Streams tokens as they arrive and resolves with the full text
+  stream(
+    settings: AIProviderSettings,
+    apiKey: string | null,
+    request: ChatCompletionRequest,
+    onToken: (token: string) => void
+  ): Promise<string>;
+  embed?(
+    settings: AIProviderSettings,
+    apiKey: string | null,
+    request: EmbeddingRequest
+  ): Promise<number[][]>;
+}
@@ -0,0 +1,249 @@
+// Confidence of an answer, computed from how well the retrieved code backs it
+import { KnowledgeEntry } from './knowledgeBase/types';
+
+export type ConfidenceSignalId = 'retrieval-margin' | 'source-agreement' | 'term-coverage' | 'self-check';
+
+export interface ConfidenceSignal {
+  id: ConfidenceSignalId;
+  label: string;
+  // 0-1
+  value: number;
+  // Share of the overall score, 0-1
+  weight: number;
+  detail: string;
+}
+
+export interface ConfidenceBreakdown {
+  // 0-1
+  score: number;
+  signals: ConfidenceSignal[];
+}
+
+interface ConfidenceInput {
+  // The answer as shown to the user
+  text: string;
+  // Search results, best first, with their retrieval scores
+  results: KnowledgeEntry[];
+  // Code the answer was based on
+  sources: KnowledgeEntry[];
+  // Sources the answer cites; omitted for answers that don't cite
+  citedSources?: KnowledgeEntry[];
+  // Model self-check, 0-1
+  selfCheck?: number | null;
+}
+
+const SIGNAL_WEIGHTS: Record<ConfidenceSignalId, number> = {
+  'retrieval-margin': 0.3,
+  'source-agreement': 0.2,
+  'term-coverage': 0.5,
+  'self-check': 0.4
+};
+
+// The top result is compared with the result at this position
+const MARGIN_COMPARISON_RANK = 5;
+// A top keyword score this much above the comparison counts as fully distinct
+const FULL_KEYWORD_MARGIN = 0.5;
+// A top cosine similarity this much above the comparison counts as fully distinct
+const FULL_VECTOR_MARGIN = 0.1;
+// Distinct files that make agreement count in full
+const FULL_AGREEMENT_FILES = 3;
+const MAX_KEY_TERMS = 25;
+
+// Prose words that say nothing about whether the code backs the answer
+const NON_KEY_TERMS = new Set([
+  'about', 'above', 'after', 'also', 'allows', 'another', 'answer', 'available', 'based', 'because',
+  'been', 'before', 'being', 'below', 'between', 'both', 'cannot', 'code', 'could', 'does', 'doesn',
+  'each', 'either', 'enable', 'enables', 'every', 'example', 'file', 'files', 'find', 'found', 'from', 'have',
+  'here', 'however', 'into', 'just', 'like', 'make', 'makes', 'many', 'more', 'most', 'much', 'must',
+  'need', 'only', 'other', 'over', 'provide', 'provides', 'repository', 'same', 'several', 'should',
+  'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'under', 'used', 'user', 'users', 'using', 'very', 'want', 'well', 'were', 'what', 'when',
+  'where', 'whether', 'which', 'while', 'will', 'with', 'within', 'without', 'would', 'your', 'yours'
+]);
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function toPercent(value: number): number {
+  return Math.round(value * 100);
+}
+
+/**
+ * Positive scores of one kind of search, best first
+ */
+function getMatchScores(results: KnowledgeEntry[], kind: 'keyword' | 'vector'): number[] {
+  return results
+    .map(result => result.matchScores ? result.matchScores[kind] : kind === 'keyword' ? result.score : undefined)
+    .filter((score): score is number => typeof score === 'number' && score > 0)
+    .sort((a, b) => b - a);
+}
+
+/**
+ * How far the best search result stands out from the rest. A flat ranking means the
+ * search found nothing specific to the question. Fused scores only reflect rank, so
+ * the keyword and vector scores are compared, each on its own scale, and averaged.
+ */
+function scoreRetrievalMargin(results: KnowledgeEntry[]): Omit<ConfidenceSignal, 'id' | 'label' | 'weight'> {
+  const margins: { value: number; detail: string }[] = [];
+
+  const keywordScores = getMatchScores(results, 'keyword');
+  if (keywordScores.length > 1) {
+    const compareRank = Math.min(MARGIN_COMPARISON_RANK, keywordScores.length);
+    // Keyword scores grow with the number of matches; compare them as a ratio
+    const margin = 1 - keywordScores[compareRank - 1] / keywordScores[0];
+    margins.push({
+      value: clamp(margin / FULL_KEYWORD_MARGIN),
+      detail: `top keyword match scores ${toPercent(margin)}% above #${compareRank}`
+    });
+  }
+
+  const vectorScores = getMatchScores(results, 'vector');
+  if (vectorScores.length > 1) {
+    const compareRank = Math.min(MARGIN_COMPARISON_RANK, vectorScores.length);
+    // Similarities sit in a narrow band; compare them as a difference
+    const margin = vectorScores[0] - vectorScores[compareRank - 1];
+    margins.push({
+      value: clamp(margin / FULL_VECTOR_MARGIN),
+      detail: `top semantic match is ${margin.toFixed(2)} more similar than #${compareRank}`
+    });
+  }
+
+  if (margins.length === 0) {
+    return keywordScores.length + vectorScores.length > 0
+      ? { value: 0.6, detail: 'Only one matching result' }
+      : { value: 0.5, detail: 'No retrieval scores available' };
+  }
+
+  const detail = margins.map(margin => margin.detail).join('; ');
+  return {
+    value: margins.reduce((sum, margin) => sum + margin.value, 0) / margins.length,
+    detail: detail.charAt(0).toUpperCase() + detail.slice(1)
+  };
+}
+
+function getSourceFile(entry: KnowledgeEntry): string {
+  return entry.repository ? `${entry.repository.id}:${entry.filePath}` : entry.filePath;
+}
+
+/**
+ * How many distinct files back the answer; several files agreeing is harder to get by chance
+ */
+function scoreSourceAgreement(
+  supporting: KnowledgeEntry[],
+  citesNothing: boolean
+): Omit<ConfidenceSignal, 'id' | 'label' | 'weight'> {
+  const files = new Set(supporting.map(getSourceFile)).size;
+  const value = clamp(files / FULL_AGREEMENT_FILES);
+
+  if (citesNothing) {
+    return { value: value / 2, detail: `The answer cites no code; ${files} file${files !== 1 ? 's were' : ' was'} sent as context` };
+  }
+  return { value, detail: `${files} distinct file${files !== 1 ? 's support' : ' supports'} the answer` };
+}
+
+/**
+ * Reduce a word to a prefix shared by its common inflections, e.g. "scheduled" -> "schedul"
+ */
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word;
+}
+
+/**
+ * Whether a key term, or an inflection of it, appears in lowercased code
+ */
+export function codeMentionsTerm(code: string, term: string): boolean {
+  return code.includes(stem(term));
+}
+
+/**
+ * Distinctive terms of an answer: names and longer words, without citations and markdown
+ */
+export function extractKeyTerms(text: string): string[] {
+  const words = text
+    .replace(/\[\d+(?:\s*,\s*\d+)*\]/g, ' ')
+    .match(/[A-Za-z][A-Za-z0-9_]{3,}/g) || [];
+
+  const terms = new Set<string>();
+  for (const word of words) {
+    const term = word.toLowerCase();
+    if (!NON_KEY_TERMS.has(term)) {
+      terms.add(term);
+    }
+  }
+
+  // Longer terms are the more specific ones
+  return Array.from(terms).sort((a, b) => b.length - a.length).slice(0, MAX_KEY_TERMS);
+}
+
+/**
+ * Share of the answer's key terms that appear in the code it is based on. Terms the
+ * code never mentions are what a made-up answer looks like.
+ */
+function scoreTermCoverage(text: string, supporting: KnowledgeEntry[]): Omit<ConfidenceSignal, 'id' | 'label' | 'weight'> {
+  const terms = extractKeyTerms(text);
+  if (terms.length === 0) {
+    return { value: 0.5, detail: 'The answer has no distinctive terms to check' };
+  }
+
+  const code = supporting.map(entry => `${entry.filePath}\n${entry.content}`).join('\n').toLowerCase();
+  const missing = terms.filter(term => !codeMentionsTerm(code, term));
+  const covered = terms.length - missing.length;
+
+  return {
+    value: covered / terms.length,
+    detail: `${covered} of ${terms.length} key terms appear in the code` +
+      (missing.length > 0 ? `; not found: ${missing.slice(0, 3).join(', ')}` : '')
+  };
+}
+
+/**
+ * Compute an answer's confidence from retrieval signals and, when available, the
+ * model's own check of the answer against the code
+ */
+export function scoreAnswerConfidence(input: ConfidenceInput): ConfidenceBreakdown {
+  const citesNothing = input.citedSources !== undefined && input.citedSources.length === 0;
+  const supporting = input.citedSources && input.citedSources.length > 0 ? input.citedSources : input.sources;
+
+  const signals: ConfidenceSignal[] = [
+    {
+      id: 'retrieval-margin',
+      label: 'Search match',
+      weight: SIGNAL_WEIGHTS['retrieval-margin'],
+      ...scoreRetrievalMargin(input.results)
+    },
+    {
+      id: 'source-agreement',
+      label: 'Agreeing sources',
+      weight: SIGNAL_WEIGHTS['source-agreement'],
+      ...scoreSourceAgreement(supporting, citesNothing)
+    },
+    {
+      id: 'term-coverage',
+      label: 'Grounded terms',
+      weight: SIGNAL_WEIGHTS['term-coverage'],
+      ...scoreTermCoverage(input.text, supporting)
+    }
+  ];
+
+  if (typeof input.selfCheck === 'number') {
+    signals.push({
+      id: 'self-check',
+      label: 'Model self-check',
+      weight: SIGNAL_WEIGHTS['self-check'],
+      value: clamp(input.selfCheck),
+      detail: `The model rates the answer ${toPercent(input.selfCheck)}% supported by the code`
+    });
+  }
+
+  // Weights are relative; normalize so they add up to 1 with or without the self-check
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  signals.forEach(signal => {
+    signal.weight = signal.weight / totalWeight;
+  });
+  const score = signals.reduce((sum, signal) => sum + signal.value * signal.weight, 0);
+
+  console.log(`🎯 Confidence ${toPercent(score)}%: ${signals.map(signal => `${signal.id} ${toPercent(signal.value)}%`).join(', ')}`);
+
+  return { score: Math.round(score * 100) / 100, signals };
+}
@@ -1,10 +1,22 @@
 import { searchKnowledgeWithHistory } from "./knowledgeBaseEnhanced";
 import { getLastUpdatedText } from "./knowledgeBaseEnhanced";
-import { generateVisualContext } from "./visualContextGenerator";
-import { hasAICapabilities, generateAnswerWithAI } from "./aiAnalysis";
+import { VisualContext, generateVisualContext, isDiagramQuestion } from "./visualContextGenerator";
+import { hasAICapabilities, generateAnswerWithAI, checkAnswerSupportWithAI, getCurrentAIProviderSettings, summarizeChangesWithAI } from "./aiAnalysis";
 import { screenshotService, Screenshot } from "./screenshotService";
 import { getCurrentRepository } from "./githubConnector";
-import { isUsingMockData, getEnhancedDiagnostics } from "./knowledgeBase";
+import { isUsingMockData, getEnhancedDiagnostics, getScannedCommitSha, getPinnedKnowledge } from "./knowledgeBase";
+import { buildAnswerContext, AnswerContext } from "./contextBuilder";
+import { markCitedReferences } from "./citations";
+import { scoreAnswerConfidence, ConfidenceBreakdown } from "./answerConfidence";
+import { verifyAnswer, AnswerVerification } from "./answerVerification";
+import { Conversation, countTranscriptTokens, getConversationTranscript, rewriteFollowUp } from "./conversation";
+import { getContextTokenBudget } from "./aiProviders";
+import { Mention, parseMentions } from "./mentions";
+import { DiffExplanation, DiffTarget, explainDiff, getDiffTargetLabel, parseDiffTarget } from "./diffExplainer";
+import { KnowledgeEntry } from "./knowledgeBase/types";
+import { TimeRange, buildChangeTimeline, formatChangeTimeline, getChangeSubject, isChangeQuestion, parseTimeRange } from "./changeTimeline";
+import { Expert, OwnershipResult, describeExpertise, findExperts, getDirectoryOwnership, getExpertSubject, isExpertQuestion, scoreOwnershipConfidence } from "./codeOwnership";
+import { analyzeImpact, findGraphFile, findImportStatement, getDependencyGraph, getImpactSubject, isImpactQuestion } from "./dependencyGraph";
 import { toast } from "sonner";
 
 interface Reference {
@@ -12,35 +24,72 @@ interface Reference {
   lineNumbers?: string;
   snippet?: string;
   lastUpdated?: string;
+  repository?: {
+    owner: string;
+    repo: string;
+    commitSha?: string;
+  };
+  // Number of the context item the reference was sent as; the answer cites it as [n]
+  citation?: number;
+  cited?: boolean;
 }
 
 interface Answer {
   text: string;
   confidence: number;
+  // The signals the confidence was computed from
+  confidenceBreakdown?: ConfidenceBreakdown;
+  // Claim-by-claim check of an AI answer, when enabled in settings
+  verification?: AnswerVerification;
   references: Reference[];
   screenshots?: Screenshot[];
-  visualContext?: {
-    type: 'flowchart' | 'component' | 'state';
-    syntax: string;
+  visualContext?: VisualContext;
+  stopped?: boolean;
+  // The follow-up rewritten to stand on its own, when it was searched for that way
+  standaloneQuestion?: string;
+  // Files, folders and symbols the question mentioned
+  mentions?: Mention[];
+  // The pull request or compare range a diff explanation is about
+  diff?: {
+    label: string;
+    title?: string;
+    url: string;
   };
+  // People to ask about the referenced code, for "who should I ask" questions
+  experts?: Expert[];
+  // Code context that was sent to the AI
+  context?: AnswerContext;
 }
 
 /**
  * Enhanced query analysis for better answer targeting
  */
 function analyzeQuery(query: string): {
-  type: 'how-to' | 'what-is' | 'where-is' | 'code-search' | 'content-count' | 'general';
+  type: 'how-to' | 'what-is' | 'where-is' | 'code-search' | 'content-count' | 'what-changed' | 'who-to-ask' | 'impact' | 'general';
   keywords: string[];
   needsScreenshots: boolean;
   needsCode: boolean;
   isContentQuery: boolean;
+  // Set for 'what-changed' questions
+  timeRange?: TimeRange;
 } {
   const lowerQuery = query.toLowerCase();
   
   // Determine query type
-  let type: 'how-to' | 'what-is' | 'where-is' | 'code-search' | 'content-count' | 'general' = 'general';
-  
-  if (lowerQuery.includes('how to') || lowerQuery.startsWith('how do') || lowerQuery.startsWith('how can')) {
+  let type: 'how-to' | 'what-is' | 'where-is' | 'code-search' | 'content-count' | 'what-changed' | 'who-to-ask' | 'impact' | 'general' = 'general';
+  
+  // "What changed in checkout since March?" is answered from commit history
+  const timeRange = isChangeQuestion(query) ? parseTimeRange(query) : null;
+  
+  // "Who should I ask about billing?" is answered from CODEOWNERS and commit authors
+  if (isExpertQuestion(query)) {
+    type = 'who-to-ask';
+  } else if (isImpactQuestion(query)) {
+    // "What breaks if I change X?" is answered from the import graph
+    type = 'impact';
+  } else if (timeRange) {
+    type = 'what-changed';
+  } else if (lowerQuery.includes('how to') || lowerQuery.startsWith('how do') || lowerQuery.startsWith('how can')) {
     type = 'how-to';
   } else if (lowerQuery.startsWith('what is') || lowerQuery.startsWith('what are')) {
     type = 'what-is';
@@ -78,7 +127,7 @@ function analyzeQuery(query: string): {
   const needsCode = lowerQuery.includes('code') || lowerQuery.includes('implement') || 
                    lowerQuery.includes('function') || lowerQuery.includes('component');
   
-  return { type, keywords, needsScreenshots, needsCode, isContentQuery };
+  return { type, keywords, needsScreenshots, needsCode, isContentQuery, timeRange: type === 'what-changed' ? timeRange : undefined };
 }
 
 /**
@@ -297,21 +346,354 @@ async function generateRelevantScreenshots(query: string): Promise<Screenshot[]>
   return screenshots;
 }
 
+/**
+ * Repository a search result came from: its cross-repository tag, or the active repository
+ */
+function getReferenceRepository(result: { repository?: { owner: string; repo: string; commitSha?: string } }): Reference['repository'] {
+  if (result.repository) {
+    return { owner: result.repository.owner, repo: result.repository.repo, commitSha: result.repository.commitSha };
+  }
+  // Sample data is taken from the Ghost repository
+  if (isUsingMockData()) {
+    return { owner: 'TryGhost', repo: 'Ghost' };
+  }
+  
+  const repository = getCurrentRepository();
+  return repository ? { ...repository, commitSha: getScannedCommitSha() || undefined } : undefined;
+}
+
+// Files whose commit history is read for a "what changed" question
+const MAX_TIMELINE_FILES = 10;
+
+/**
+ * Answer a "what changed since..." question from the commit history of the files the
+ * search found relevant, grouped by area and summarized when an AI provider is set up
+ */
+async function generateTimelineAnswer(query: string, results: KnowledgeEntry[], range: TimeRange): Promise<Answer> {
+  const repository = getCurrentRepository();
+  // Cross-repository results would need their own history lookups
+  const relevant = results.filter(result => !result.repository ||
+    (result.repository.owner === repository?.owner && result.repository.repo === repository?.repo));
+  const filePaths = Array.from(new Set<string>(relevant.map(result => result.filePath))).slice(0, MAX_TIMELINE_FILES);
+  
+  if (!repository || isUsingMockData()) {
+    return {
+      text: `Commit history is unavailable because no repository is connected, so I can't tell what changed ${range.label}. Connect your repository to answer questions about recent changes.`,
+      confidence: 0,
+      references: []
+    };
+  }
+  
+  const timeline = await buildChangeTimeline(repository.owner, repository.repo, filePaths, range);
+  const changedFiles = new Set(timeline.areas.flatMap(area => area.commits.flatMap(commit => commit.files)));
+  
+  const historyUnavailable = timeline.commitCount === 0 && timeline.unavailable.length === filePaths.length;
+  let text: string;
+  if (timeline.commitCount === 0) {
+    text = historyUnavailable
+      ? `Commit history is unavailable (${timeline.unavailable[0]?.reason || 'no files to check'}), so I can't tell what changed ${range.label}.`
+      : `No commits ${range.label} touched the files most relevant to your question:
+
+${filePaths.map(filePath => `- \`${filePath}\``).join('\n')}`;
+  } else {
+    const commitList = formatChangeTimeline(timeline);
+    const summary = hasAICapabilities()
+      ? await summarizeChangesWithAI(query, range.label, commitList)
+      : null;
+    const heading = `**${timeline.commitCount} commit${timeline.commitCount === 1 ? '' : 's'} ${range.label}** in ${timeline.areas.length} area${timeline.areas.length === 1 ? '' : 's'}`;
+    text = summary ? `${summary}\n\n## Commits\n\n${heading}\n\n${commitList}` : `${heading}:\n\n${commitList}`;
+    
+    if (timeline.truncated) {
+      text += `\n\n*Only the latest commits of each file were checked, so older changes in this range may be missing.*`;
+    }
+    if (timeline.unavailable.length > 0) {
+      text += `\n\n*History unavailable for ${timeline.unavailable.map(file => `\`${file.filePath}\``).join(', ')}.*`;
+    }
+  }
+  
+  const references = filePaths
+    .filter(filePath => changedFiles.size === 0 || changedFiles.has(filePath))
+    .map(filePath => relevant.find(result => result.filePath === filePath))
+    .map(result => ({
+      filePath: result.filePath,
+      lineNumbers: getReferenceLineNumbers(result, 400),
+      snippet: result.content.substring(0, 400) + (result.content.length > 400 ? '...' : ''),
+      lastUpdated: result.lastUpdated,
+      repository: getReferenceRepository(result)
+    }));
+  
+  // The summary has to be grounded in the commit messages
+  const commits: KnowledgeEntry[] = timeline.areas.flatMap(area => area.commits.map(commit => ({
+    type: 'content' as const,
+    content: `${commit.message}\n${commit.author}`,
+    filePath: commit.files[0],
+    keywords: []
+  })));
+  const confidence = historyUnavailable
+    ? undefined
+    : scoreAnswerConfidence({ text, results: relevant, sources: commits.length > 0 ? commits : relevant.slice(0, MAX_TIMELINE_FILES) });
+  
+  return {
+    text,
+    confidence: confidence ? confidence.score : 0,
+    confidenceBreakdown: confidence,
+    references
+  };
+}
+
+// Files whose owners and authors are looked up for a "who should I ask" question
+const MAX_EXPERT_FILES = 8;
+
+/**
+ * Answer a "who should I ask about..." question with the owners and most active recent
+ * authors of the files the search found relevant
+ * @param folder - Folder the question mentioned, whose ownership is used instead
+ */
+async function generateExpertAnswer(results: KnowledgeEntry[], folder?: string): Promise<Answer> {
+  const repository = getCurrentRepository();
+  const relevant = results.filter(result => !result.repository ||
+    (result.repository.owner === repository?.owner && result.repository.repo === repository?.repo));
+  const filePaths = Array.from(new Set<string>(relevant.map(result => result.filePath))).slice(0, MAX_EXPERT_FILES);
+  
+  const ownership: OwnershipResult = folder ? await getDirectoryOwnership(folder) : await findExperts(filePaths);
+  
+  let text: string;
+  if (ownership.status === 'unavailable') {
+    text = `Ownership information is unavailable (${ownership.reason}), so I can't tell who knows this code best.`;
+  } else if (ownership.experts.length === 0) {
+    text = `I couldn't find code owners or commit authors for the code most relevant to your question.`;
+  } else {
+    const list = ownership.experts.map((expert, index) => {
+      const name = expert.displayName ? `**${expert.name}** (${expert.displayName})` : `**${expert.name}**`;
+      const areas = expert.areas.slice(0, 3).map(area => `\`${area}\``).join(', ');
+      return `${index + 1}. ${name} — ${describeExpertise(expert)}; knows ${areas}`;
+    }).join('\n');
+    const source = ownership.codeOwnersFile
+      ? `Based on \`${ownership.codeOwnersFile}\` and recent commits`
+      : 'Based on recent commits (no CODEOWNERS file found)';
+    text = `**Who to ask about ${folder ? `\`${folder}\`` : 'this code'}**\n\n${list}\n\n*${source}, weighted by how recent and how large the changes were.*`;
+  }
+  
+  const references = filePaths
+    .map(filePath => relevant.find(result => result.filePath === filePath))
+    .map(result => ({
+      filePath: result.filePath,
+      lineNumbers: getReferenceLineNumbers(result, 400),
+      snippet: result.content.substring(0, 400) + (result.content.length > 400 ? '...' : ''),
+      lastUpdated: result.lastUpdated,
+      repository: getReferenceRepository(result)
+    }));
+  
+  return {
+    text,
+    // Ownership is read from the repository, not inferred, so it is as strong as its evidence
+    confidence: scoreOwnershipConfidence(ownership),
+    references,
+    experts: ownership.experts.length > 0 ? ownership.experts : undefined
+  };
+}
+
+// Dependents listed in an impact answer; the rest are counted
+const MAX_IMPACT_LISTED = 15;
+const MAX_IMPACT_REFERENCES = 5;
+// Confidence of an impact answer about a named file; imports the scan can't see are the only gap
+const NAMED_FILE_IMPACT_CONFIDENCE = 0.9;
+
+/**
+ * Answer "what breaks if I change X?" with the files that import X, directly or through
+ * other files
+ * @param mentionedFile - File the question mentioned, used instead of looking the subject up
+ */
+function generateImpactAnswer(subject: string, results: KnowledgeEntry[], mentionedFile?: string): Answer {
+  const graph = getDependencyGraph();
+  const namedFile = mentionedFile || findGraphFile(subject);
+  const filePath = namedFile ||
+    results.map(result => result.filePath).find(path => graph.dependencies.has(path) || graph.dependents.has(path));
+  
+  if (!filePath) {
+    return {
+      text: `I couldn't tell which file ${subject ? `"${subject}"` : 'you mean'} is. Mention it with @, e.g. \`@src/services/billing.ts\`, to see what depends on it.`,
+      confidence: 0,
+      references: []
+    };
+  }
+  
+  const impact = analyzeImpact(filePath);
+  const total = impact.direct.length + impact.indirect.length;
+  const listFiles = (items: string[]) => [
+    ...items.slice(0, MAX_IMPACT_LISTED),
+    ...(items.length > MAX_IMPACT_LISTED ? [`…and ${items.length - MAX_IMPACT_LISTED} more`] : [])
+  ].join('\n');
+  
+  const sections = [`**What depends on \`${filePath}\`**`];
+  if (total === 0) {
+    sections.push(`No scanned file imports \`${filePath}\`, so changing it shouldn't break other files in this repository. It may be an entry point, or be loaded in a way imports don't show, such as configuration, dynamic paths or another repository.`);
+  } else {
+    sections.push(impact.indirect.length > 0
+      ? `${impact.direct.length} file${impact.direct.length === 1 ? '' : 's'} import${impact.direct.length === 1 ? 's' : ''} it directly and ${impact.indirect.length} more depend on it through them, so a change to its exports can reach ${total} files.`
+      : `${impact.direct.length} file${impact.direct.length === 1 ? '' : 's'} import${impact.direct.length === 1 ? 's' : ''} it directly; nothing else depends on it through them.`);
+    sections.push(`**Imported directly by**\n${listFiles(impact.direct.map(path => `- \`${path}\``))}`);
+    if (impact.indirect.length > 0) {
+      sections.push(`**Through other files**\n${listFiles(impact.indirect.map(item => `- \`${item.filePath}\` (via \`${item.via}\`)`))}`);
+    }
+  }
+  impact.cycles.forEach(cycle => {
+    sections.push(`⚠️ It is part of an import cycle: ${[...cycle, cycle[0]].map(path => `\`${path}\``).join(' → ')}. Changes can come back around to it.`);
+  });
+  sections.push(`*From the imports of the last scan; code that reaches it without importing it isn't included.*`);
+  const text = sections.join('\n\n');
+  
+  // The file itself, then where its direct dependents import it
+  const imports = impact.direct
+    .map(dependent => findImportStatement(dependent, filePath))
+    .filter(Boolean)
+    .slice(0, MAX_IMPACT_REFERENCES);
+  const target = results.find(result => result.filePath === filePath);
+  const references: Reference[] = [
+    ...(target ? [{
+      filePath,
+      lineNumbers: getReferenceLineNumbers(target, 400),
+      snippet: target.content.substring(0, 400) + (target.content.length > 400 ? '...' : ''),
+      lastUpdated: target.lastUpdated,
+      repository: getReferenceRepository(target)
+    }] : []),
+    ...imports.map(({ entry, lineIndex }) => {
+      const lines = entry.content.split('\n');
+      return {
+        filePath: entry.filePath,
+        lineNumbers: entry.startLine ? `${entry.startLine + lineIndex}` : undefined,
+        snippet: lines.slice(Math.max(0, lineIndex - 2), lineIndex + 3).join('\n'),
+        lastUpdated: entry.lastUpdated,
+        repository: getReferenceRepository(entry)
+      };
+    })
+  ];
+  
+  const sources = [...(target ? [target] : []), ...imports.map(({ entry }) => entry)];
+  return {
+    text,
+    // The graph is read from the code; the search only decides the file when none was named
+    confidence: namedFile ? NAMED_FILE_IMPACT_CONFIDENCE : scoreAnswerConfidence({ text, results, sources }).score,
+    references
+  };
+}
+
+// Changed files and dependents shown as references of a diff explanation
+const MAX_DIFF_FILE_REFERENCES = 10;
+const MAX_DEPENDENT_REFERENCES = 5;
+
+/**
+ * Answer a question about a pull request or compare range from its diff
+ * @returns The explanation, or null when the diff could not be fetched
+ */
+async function generateDiffAnswer(target: DiffTarget): Promise<Answer | null> {
+  let explanation: DiffExplanation;
+  try {
+    explanation = await explainDiff(target);
+  } catch (error) {
+    console.error(`Error explaining ${getDiffTargetLabel(target)}:`, error);
+    toast.warning(`Couldn't load ${getDiffTargetLabel(target)}`, {
+      description: `${error instanceof Error ? error.message : 'Unknown error'}. Answering from the code instead.`
+    });
+    return null;
+  }
+  
+  const headRepository = { ...explanation.repository, commitSha: explanation.headSha || undefined };
+  const references: Reference[] = [
+    ...explanation.files.slice(0, MAX_DIFF_FILE_REFERENCES).map(file => {
+      const hunk = file.hunks[0];
+      return {
+        filePath: file.filename,
+        lineNumbers: hunk && file.status !== 'removed' ? `${hunk.newStart}` : undefined,
+        snippet: hunk ? hunk.patch.substring(0, 400) + (hunk.patch.length > 400 ? '...' : '') : `${file.status}, +${file.additions} -${file.deletions}`,
+        repository: file.status === 'removed' ? undefined : headRepository
+      };
+    }),
+    ...explanation.dependents.slice(0, MAX_DEPENDENT_REFERENCES).map(dependent => ({
+      filePath: dependent.filePath,
+      lineNumbers: dependent.lineNumbers,
+      snippet: dependent.snippet,
+      repository: getReferenceRepository({})
+    }))
+  ];
+  
+  // The patches are what the explanation has to be grounded in
+  const patches: KnowledgeEntry[] = explanation.files.map(file => ({
+    type: 'content',
+    content: file.patch || '',
+    filePath: file.filename,
+    keywords: []
+  }));
+  const confidence = scoreAnswerConfidence({ text: explanation.summary, results: patches, sources: patches });
+  
+  return {
+    text: explanation.summary,
+    confidence: confidence.score,
+    confidenceBreakdown: confidence,
+    references,
+    diff: { label: explanation.label, title: explanation.title, url: explanation.url }
+  };
+}
+
+/**
+ * Lines a reference snippet covers, e.g. "10-42".
+ * Entries holding verbatim source span exactly as many lines as their content, and the
+ * range is narrowed to the part shown in the snippet; other entries describe a symbol,
+ * so the whole symbol range is used.
+ */
+function getReferenceLineNumbers(
+  result: { content: string; startLine?: number; endLine?: number },
+  snippetLength: number
+): string | undefined {
+  if (!result.startLine) return undefined;
+  
+  const endLine = result.endLine || result.startLine;
+  const isVerbatim = result.content.split('\n').length === endLine - result.startLine + 1;
+  const shownEndLine = isVerbatim
+    ? result.startLine + (result.content.substring(0, snippetLength).match(/\n/g) || []).length
+    : endLine;
+  
+  return shownEndLine > result.startLine ? `${result.startLine}-${shownEndLine}` : `${result.startLine}`;
+}
+
 /**
  * Generates an answer based on a user question
- * @param {string} query - User question
+ * @param {string} question - User question; may mention @files, @folders/ and #symbols
  * @param {Object} [options] - Options for generating the answer
  * @param {boolean} [options.concise] - Whether to generate a concise answer
  * @param {boolean} [options.skipBenefits] - Whether to skip benefits sections
+ * @param {Function} [options.onToken] - Receives AI answer tokens as they stream in
+ * @param {AbortSignal} [options.signal] - Stops the answer; a partially streamed AI answer is returned with stopped: true
+ * @param {string[]} [options.repositoryIds] - Search across these connected repositories instead of only the active one
+ * @param {Conversation} [options.conversation] - Earlier turns; the AI sees a trimmed transcript of them
  * @returns {Promise<Answer|null>} Generated answer or null if no answer could be generated
  */
-export async function generateAnswer(query: string, options?: { 
+export async function generateAnswer(question: string, options?: { 
   concise?: boolean, 
-  skipBenefits?: boolean 
+  skipBenefits?: boolean,
+  onToken?: (token: string) => void,
+  signal?: AbortSignal,
+  repositoryIds?: string[],
+  conversation?: Conversation
 }): Promise<Answer | null> {
   await new Promise(resolve => setTimeout(resolve, 300));
   
   try {
+    // "What did PR #1234 change?" is answered from the diff rather than by searching
+    const diffTarget = parseDiffTarget(question);
+    if (diffTarget) {
+      const diffAnswer = await generateDiffAnswer(diffTarget);
+      if (diffAnswer) return diffAnswer;
+    }
+    
+    // @file, @folder/ and #symbol mentions limit the search and pin their code into the context
+    const { text: plainQuestion, mentions, scope } = parseMentions(question);
+    const hasMentions = mentions.length > 0;
+    
+    // Follow-ups are searched for as standalone questions
+    const query = options?.conversation ? await rewriteFollowUp(plainQuestion, options.conversation) : plainQuestion;
+    const standaloneQuestion = query !== plainQuestion ? query : undefined;
+
     // Enhanced query analysis
     const queryAnalysis = analyzeQuery(query);
     console.log('Query analysis:', queryAnalysis);
@@ -326,7 +708,14 @@ export async function generateAnswer(query: string, options?: {
     
     // Enhanced search for content queries
     let searchQuery = query;
-    if (queryAnalysis.isContentQuery) {
+    if (queryAnalysis.type === 'what-changed') {
+      // Dates and "what changed" match nothing useful in the code; search for the subject
+      searchQuery = getChangeSubject(query) || query;
+    } else if (queryAnalysis.type === 'who-to-ask') {
+      searchQuery = getExpertSubject(query) || query;
+    } else if (queryAnalysis.type === 'impact') {
+      searchQuery = getImpactSubject(query) || query;
+    } else if (queryAnalysis.isContentQuery) {
       // Add content-specific keywords to improve search
       searchQuery = [query, ...queryAnalysis.keywords, 'content', 'page', 'post', 'count'].join(' ');
     } else {
@@ -338,7 +727,7 @@ export async function generateAnswer(query: string, options?: {
                               query.toLowerCase().includes("link") ||
                               query.toLowerCase().includes("install");
     
-    let results = await searchKnowledgeWithHistory(searchQuery);
+    let results = await searchKnowledgeWithHistory(searchQuery, options?.repositoryIds, hasMentions ? scope : undefined);
     
     if (isDownloadQuestion) {
       console.log("Download question detected, applying enhanced filtering");
@@ -356,11 +745,12 @@ export async function generateAnswer(query: string, options?: {
         ];
         
         for (const altSearch of alternativeSearches) {
-          const altResults = await searchKnowledgeWithHistory(altSearch);
+          const altResults = await searchKnowledgeWithHistory(altSearch, options?.repositoryIds, hasMentions ? scope : undefined);
           console.log(`Alternative search "${altSearch}" found ${altResults.length} results`);
           
           altResults.forEach(newResult => {
-            if (!results.find(existing => existing.filePath === newResult.filePath && existing.content === newResult.content)) {
+            if (!results.find(existing => existing.filePath === newResult.filePath && existing.content === newResult.content &&
+                existing.repository?.id === newResult.repository?.id)) {
               results.push(newResult);
             }
           });
@@ -380,6 +770,15 @@ export async function generateAnswer(query: string, options?: {
       console.log("=== END ENHANCED FILTERING ===");
     }
     
+    if (hasMentions) {
+      // Pinned code leads the results so it always fits in the context
+      const pinned = getPinnedKnowledge(scope);
+      const isPinned = (result: { filePath: string; startLine?: number; content: string }) =>
+        pinned.some(entry => entry.filePath === result.filePath && entry.startLine === result.startLine && entry.content === result.content);
+      results = [...pinned, ...results.filter(result => !isPinned(result))];
+      console.log(`📌 Pinned ${pinned.length} entries for ${mentions.length} mention${mentions.length === 1 ? '' : 's'}`);
+    }
+    
     console.log(`Enhanced search results: ${results.length} entries found for "${query}"`);
     
     if (results.length === 0) {
@@ -387,12 +786,32 @@ export async function generateAnswer(query: string, options?: {
       return null;
     }
     
+    if (options?.signal?.aborted) {
+      console.log("Answer generation stopped before AI processing");
+      return null;
+    }
+    
     // Log enhanced result information
     console.log("Enhanced search results summary:");
     results.slice(0, 3).forEach((result, index) => {
       console.log(`${index + 1}. File: ${result.filePath}, Content: ${result.content.substring(0, 100)}...`);
     });
     
+    if (queryAnalysis.type === 'what-changed') {
+      const timelineAnswer = await generateTimelineAnswer(query, results, queryAnalysis.timeRange);
+      return { ...timelineAnswer, standaloneQuestion, mentions: hasMentions ? mentions : undefined };
+    }
+    
+    if (queryAnalysis.type === 'who-to-ask') {
+      const expertAnswer = await generateExpertAnswer(results, scope.files.length === 0 && scope.folders.length === 1 ? scope.folders[0] : undefined);
+      return { ...expertAnswer, standaloneQuestion, mentions: hasMentions ? mentions : undefined };
+    }
+    
+    if (queryAnalysis.type === 'impact') {
+      const impactAnswer = generateImpactAnswer(getImpactSubject(query), results, scope.files[0]);
+      return { ...impactAnswer, standaloneQuestion, mentions: hasMentions ? mentions : undefined };
+    }
+    
     // Generate screenshots if needed
     let screenshots: Screenshot[] = [];
     if (queryAnalysis.needsScreenshots || shouldIncludeScreenshots(query)) {
@@ -402,42 +821,77 @@ export async function generateAnswer(query: string, options?: {
     // Enhanced AI processing with more context
     if (hasAICapabilities()) {
       try {
-        // Prepare enhanced context with more detail
-        const context = results.slice(0, 15).map(result => {
-          let metadataStr = '';
-          if (result.metadata) {
-            try {
-              metadataStr = `\nMetadata: ${JSON.stringify(result.metadata)}`;
-            } catch (error) {
-              metadataStr = '\nMetadata: [Circular Reference]';
-            }
-          }
-          return `File: ${result.filePath}\nType: ${result.type}\nContent: ${result.content.substring(0, 800)}${metadataStr}\n---`;
-        });
+        // Earlier turns go to the model alongside the code, so they come out of its budget
+        const history = options?.conversation ? getConversationTranscript(options.conversation) : [];
+        const contextBudget = getContextTokenBudget(getCurrentAIProviderSettings()) - countTranscriptTokens(history);
         
-        console.log(`Sending ${context.length} enhanced context items to AI`);
+        // Highest-ranked content first, deduped, up to the active model's token budget
+        const context = buildAnswerContext(results, contextBudget);
         
-        const aiAnswer = await generateAnswerWithAI(query, context);
+        console.log(`Sending ${context.texts.length} enhanced context items to AI`);
+        
+        const aiAnswer = await generateAnswerWithAI(plainQuestion, context.texts, {
+          onToken: options?.onToken,
+          signal: options?.signal,
+          history
+        });
+        const stopped = !!options?.signal?.aborted;
+        
+        if (stopped && !aiAnswer) {
+          console.log("Answer generation stopped before the AI replied");
+          return null;
+        }
         
         if (aiAnswer) {
-          const references = results.slice(0, 8).map(result => ({
-            filePath: result.filePath,
-            snippet: result.content.substring(0, 300) + (result.content.length > 300 ? '...' : ''),
-            lastUpdated: result.lastUpdated
-          }));
+          // One reference per context item, numbered as the AI saw them
+          const references = markCitedReferences(aiAnswer, context.sources.map((source, index) => ({
+            filePath: source.filePath,
+            lineNumbers: getReferenceLineNumbers(source, 300),
+            snippet: source.content.substring(0, 300) + (source.content.length > 300 ? '...' : ''),
+            lastUpdated: source.lastUpdated,
+            repository: getReferenceRepository(source),
+            citation: index + 1
+          })));
+          console.log(`🔗 Answer cites ${references.filter(reference => reference.cited).length} of ${references.length} context items`);
+          
+          const settings = getCurrentAIProviderSettings();
+          
+          // Optional second opinion from the model on how well the code backs the answer
+          let selfCheck: number | null = null;
+          if (!stopped && settings.confidenceSelfCheck) {
+            selfCheck = await checkAnswerSupportWithAI(plainQuestion, aiAnswer, context.texts);
+          }
+          
+          let verification: AnswerVerification | undefined;
+          if (!stopped && settings.answerVerification && settings.answerVerification !== 'off') {
+            verification = await verifyAnswer(aiAnswer, context.sources, context.texts, settings.answerVerification);
+          }
+          
+          const confidence = scoreAnswerConfidence({
+            text: aiAnswer,
+            results,
+            sources: context.sources,
+            citedSources: context.sources.filter((_, index) => references[index].cited),
+            selfCheck
+          });
           
           let visualContext = null;
-          if (queryAnalysis.type === 'code-search' || query.toLowerCase().includes('flow') || 
-              query.toLowerCase().includes('process') || query.toLowerCase().includes('component')) {
+          if (queryAnalysis.type === 'code-search' || isDiagramQuestion(query)) {
             visualContext = generateVisualContext(query, results);
           }
           
           return {
             text: aiAnswer,
-            confidence: 0.94,
+            confidence: confidence.score,
+            confidenceBreakdown: confidence,
+            verification,
             references,
             screenshots: screenshots.length > 0 ? screenshots : undefined,
-            visualContext: visualContext
+            visualContext: visualContext,
+            stopped,
+            standaloneQuestion,
+            mentions: hasMentions ? mentions : undefined,
+            context: { items: context.items, usedTokens: context.usedTokens, budget: context.budget }
           };
         }
       } catch (error) {
@@ -461,29 +915,35 @@ export async function generateAnswer(query: string, options?: {
     // Enhanced references with more content
     const references = results.slice(0, 8).map(result => ({
       filePath: result.filePath,
+      lineNumbers: getReferenceLineNumbers(result, 400),
       snippet: result.content.substring(0, 400) + (result.content.length > 400 ? '...' : ''),
-      lastUpdated: result.lastUpdated
+      lastUpdated: result.lastUpdated,
+      repository: getReferenceRepository(result)
     }));
 
     // Enhanced visual context generation
     let visualContext = null;
-    if (queryAnalysis.needsCode || query.toLowerCase().includes('flow') || 
-        query.toLowerCase().includes('process') || query.toLowerCase().includes('component') ||
-        query.toLowerCase().includes('state')) {
+    if (queryAnalysis.needsCode || isDiagramQuestion(query)) {
       visualContext = generateVisualContext(query, results);
     }
     
-    // Enhanced confidence calculation
-    const confidence = Math.min(0.3 + (results.length * 0.08) + (queryAnalysis.keywords.length * 0.05), 0.88);
+    const confidence = scoreAnswerConfidence({
+      text: answerText,
+      results,
+      sources: results.slice(0, 8)
+    });
     
     console.log("Generated enhanced answer:", answerText.substring(0, 150) + "...");
     
     return {
       text: answerText,
-      confidence,
+      confidence: confidence.score,
+      confidenceBreakdown: confidence,
       references,
       screenshots: screenshots.length > 0 ? screenshots : undefined,
-      visualContext: visualContext
+      visualContext: visualContext,
+      standaloneQuestion,
+      mentions: hasMentions ? mentions : undefined
     };
   } catch (error) {
     console.error("Error in enhanced generateAnswer:", error);
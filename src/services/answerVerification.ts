@@ -0,0 +1,209 @@
+// Claim-by-claim verification of AI answers against the code they were based on
+import { KnowledgeEntry } from './knowledgeBase/types';
+import { AnswerVerificationMode } from './aiProviders';
+import { judgeClaimsWithAI } from './aiAnalysis';
+import { extractCitations } from './citations';
+import { codeMentionsTerm, extractKeyTerms } from './answerConfidence';
+
+export type ClaimSupport = 'supported' | 'partial' | 'unsupported';
+
+export interface VerifiedClaim {
+  // The sentence as plain text, without markdown
+  text: string;
+  // Letters and digits only, to find the sentence in rendered markdown
+  key: string;
+  support: ClaimSupport;
+  reason: string;
+  // Context items the sentence cites
+  citations: number[];
+  judgedBy: 'match' | 'model';
+}
+
+export interface AnswerVerification {
+  mode: Exclude<AnswerVerificationMode, 'off'>;
+  claims: VerifiedClaim[];
+}
+
+interface SentenceRange {
+  start: number;
+  end: number;
+}
+
+const CITATION_MARKER_PATTERN = /\[\d+(?:\s*,\s*\d+)*\]/g;
+// Sentences end at . ! or ? followed by whitespace and something that starts a sentence
+const SENTENCE_END_PATTERN = /[.!?]+(?=\s+["'([]?[A-Z0-9])/g;
+const MIN_CLAIM_WORDS = 4;
+const MAX_CLAIMS = 30;
+// Share of a claim's key terms the code must mention
+const SUPPORTED_COVERAGE = 0.8;
+const PARTIAL_COVERAGE = 0.5;
+
+/**
+ * Sentence boundaries in plain text, trimmed of surrounding whitespace
+ */
+export function getSentenceRanges(text: string): SentenceRange[] {
+  const ranges: SentenceRange[] = [];
+  let start = 0;
+
+  const push = (end: number) => {
+    const sentence = text.slice(start, end);
+    const leading = sentence.length - sentence.trimStart().length;
+    const trimmed = sentence.trim();
+    if (trimmed) {
+      ranges.push({ start: start + leading, end: start + leading + trimmed.length });
+    }
+  };
+
+  for (const match of text.matchAll(SENTENCE_END_PATTERN)) {
+    const end = match.index + match[0].length;
+    push(end);
+    start = end;
+  }
+  push(text.length);
+
+  return ranges;
+}
+
+/**
+ * Normalized form of a sentence, equal for its markdown source and its rendered text
+ */
+export function getClaimKey(text: string): string {
+  return text.replace(CITATION_MARKER_PATTERN, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Inline markdown reduced to the text it renders as; citations are kept
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|`)/g, '');
+}
+
+/**
+ * Split an answer into sentences worth checking: headings, code blocks, list
+ * introductions and short fragments are skipped
+ */
+function splitIntoClaims(answer: string): { raw: string; text: string }[] {
+  const claims: { raw: string; text: string }[] = [];
+  let inCodeBlock = false;
+
+  for (const line of answer.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock || /^\s*#/.test(line)) continue;
+
+    const content = line.replace(/^\s*(?:[-*+]|\d+[.)]|>)\s+/, '');
+    getSentenceRanges(content).forEach(range => {
+      const raw = content.slice(range.start, range.end);
+      const text = stripInlineMarkdown(raw);
+      const words = text.replace(CITATION_MARKER_PATTERN, '').trim().split(/\s+/);
+      if (words.length >= MIN_CLAIM_WORDS && !text.trim().endsWith(':')) {
+        claims.push({ raw, text });
+      }
+    });
+  }
+
+  return claims.slice(0, MAX_CLAIMS);
+}
+
+/**
+ * Names and figures a claim states, which the code has to contain as they are:
+ * `code spans`, camelCase and snake_case identifiers, and numbers
+ */
+function extractExactTerms(raw: string): string[] {
+  const withoutCitations = raw.replace(CITATION_MARKER_PATTERN, ' ');
+  const codeSpans = Array.from(withoutCitations.matchAll(/`([^`]+)`/g), match => match[1].trim());
+  const identifiers = withoutCitations.match(/\b(?:[a-z]+[A-Z]\w*|[A-Za-z]+_\w+)\b/g) || [];
+  const numbers = (withoutCitations.match(/\d[\d,]*(?:\.\d+)?/g) || []).map(number => number.replace(/,/g, ''));
+
+  return Array.from(new Set([...codeSpans, ...identifiers, ...numbers])).filter(Boolean);
+}
+
+/**
+ * Check a claim by looking for its terms in the code it cites, or in all context
+ * when it cites nothing
+ * @returns The verdict, or null when the claim has nothing specific to check
+ */
+function matchClaim(
+  claim: { raw: string; text: string },
+  sources: KnowledgeEntry[]
+): Omit<VerifiedClaim, 'key' | 'judgedBy'> | null {
+  const citations = extractCitations(claim.raw).filter(number => number >= 1 && number <= sources.length);
+  const checked = citations.length > 0 ? citations.map(number => sources[number - 1]) : sources;
+  const code = checked.map(entry => `${entry.filePath}\n${entry.content}`).join('\n');
+  const lowerCode = code.toLowerCase();
+
+  const exactTerms = extractExactTerms(claim.raw);
+  const keyTerms = extractKeyTerms(claim.text.replace(CITATION_MARKER_PATTERN, ' '));
+  if (exactTerms.length === 0 && keyTerms.length === 0) return null;
+
+  const missingExact = exactTerms.filter(term => !code.includes(term));
+  const missingKeys = keyTerms.filter(term => !codeMentionsTerm(lowerCode, term));
+  const coverage = keyTerms.length > 0 ? 1 - missingKeys.length / keyTerms.length : 1;
+
+  let support: ClaimSupport;
+  if (missingExact.some(term => /^\d/.test(term))) {
+    // A wrong limit or price is the costliest kind of mistake
+    support = 'unsupported';
+  } else if (missingExact.length > 0) {
+    support = coverage < PARTIAL_COVERAGE ? 'unsupported' : 'partial';
+  } else if (coverage >= SUPPORTED_COVERAGE) {
+    support = 'supported';
+  } else {
+    support = coverage >= PARTIAL_COVERAGE ? 'partial' : 'unsupported';
+  }
+
+  const where = citations.length > 0 ? 'the cited code' : 'the code';
+  const missing = [...missingExact, ...missingKeys];
+  return {
+    text: claim.text,
+    support,
+    reason: missing.length > 0
+      ? `Not found in ${where}: ${missing.slice(0, 4).join(', ')}`
+      : `Everything it names appears in ${where}`,
+    citations
+  };
+}
+
+/**
+ * Verify an answer claim by claim against the context it was generated from
+ * @param answer - The answer text
+ * @param sources - The context items, in the order they were numbered
+ * @param contextTexts - The context items as sent to the model, for the judge
+ * @param mode - 'match' checks terms only; 'judge' also asks the model
+ */
+export async function verifyAnswer(
+  answer: string,
+  sources: KnowledgeEntry[],
+  contextTexts: string[],
+  mode: Exclude<AnswerVerificationMode, 'off'>
+): Promise<AnswerVerification> {
+  const candidates = splitIntoClaims(answer);
+  const checked = candidates
+    .map(claim => ({ claim, result: matchClaim(claim, sources) }))
+    .filter(item => item.result !== null);
+
+  const claims: VerifiedClaim[] = checked.map(({ result }) => ({
+    ...result,
+    key: getClaimKey(result.text),
+    judgedBy: 'match'
+  }));
+
+  if (mode === 'judge') {
+    const verdicts = await judgeClaimsWithAI(checked.map(item => item.claim.raw), contextTexts);
+    verdicts?.forEach((verdict, index) => {
+      claims[index].support = verdict.verdict;
+      claims[index].reason = verdict.reason || claims[index].reason;
+      claims[index].judgedBy = 'model';
+    });
+  }
+
+  const unsupported = claims.filter(claim => claim.support === 'unsupported').length;
+  const partial = claims.filter(claim => claim.support === 'partial').length;
+  console.log(`🔎 Verified ${claims.length} claims (${mode}): ${unsupported} unsupported, ${partial} partially supported`);
+
+  return { mode, claims };
+}
@@ -0,0 +1,422 @@
+// Architecture overview of the active repository, generated from the scan: modules and
+// layers, entry points, data stores, integrations, routes and a component diagram
+import { getDependencyGraph, getFileContents, getMostDependedOn } from './dependencyGraph';
+import { getCurrentRepository } from './githubConnector';
+import {
+  CodebaseProfile,
+  KnowledgeEntry,
+  getCodebaseProfile,
+  getKnowledgeEntries,
+  getKnowledgeFilePaths,
+  getScannedCommitSha,
+  isUsingMockData
+} from './knowledgeBase';
+
+export type ArchitectureLayer =
+  | 'UI'
+  | 'State'
+  | 'Routing & API'
+  | 'Services'
+  | 'Data'
+  | 'Utilities'
+  | 'Configuration'
+  | 'Tests'
+  | 'Docs'
+  | 'Build & CI'
+  | 'Other';
+
+export interface ArchitectureModule {
+  // Folder of the module, e.g. "src/services" or "packages/api"
+  name: string;
+  layer: ArchitectureLayer;
+  fileCount: number;
+  // Files other modules import most, or the first files when nothing imports them
+  keyFiles: string[];
+  // Other modules this one imports, most imports first
+  dependsOn: { module: string; imports: number }[];
+}
+
+export interface ArchitectureRoute {
+  path: string;
+  kind: 'page' | 'api';
+  method?: string;
+  // Component or handler the route renders or calls
+  target?: string;
+  filePath: string;
+}
+
+export interface ArchitectureOverview {
+  // owner/repo, when a repository is connected
+  repository: string | null;
+  commitSha: string | null;
+  generatedAt: string;
+  isDemoData: boolean;
+  profile: CodebaseProfile;
+  fileCount: number;
+  modules: ArchitectureModule[];
+  layers: { layer: ArchitectureLayer; modules: string[] }[];
+  entryPoints: { filePath: string; reason: string }[];
+  dataStores: { name: string; files: string[] }[];
+  integrations: { name: string; files: string[] }[];
+  routes: ArchitectureRoute[];
+  // Files imported by the most other files: the ones a change ripples out from
+  mostImported: { filePath: string; dependents: number }[];
+  // Mermaid flowchart of the modules and the imports between them
+  diagram: string | null;
+}
+
+interface Signature {
+  name: string;
+  // Package names, or prefixes ending in "/" for scoped packages
+  packages?: string[];
+  patterns?: RegExp[];
+}
+
+// Folders that hold the code rather than being modules themselves
+const SOURCE_ROOTS = ['src', 'source'];
+// Folders whose children are separate packages
+const MONOREPO_ROOTS = ['packages', 'apps', 'libs', 'modules', 'services'];
+const LAYER_PATTERNS: [ArchitectureLayer, RegExp][] = [
+  ['UI', /^(components?|pages|views|screens|layouts?|ui|widgets|templates|app|frontend|client|web|styles)$/i],
+  ['State', /^(store|stores|state|redux|contexts?|hooks|atoms|slices)$/i],
+  ['Routing & API', /^(routes?|router|api|controllers?|handlers?|endpoints|server|graphql|resolvers|middlewares?)$/i],
+  ['Services', /^(services?|domain|core|features?|usecases|business|lib|integrations?)$/i],
+  ['Data', /^(models?|schemas?|db|database|migrations|prisma|entities|repositories|dao|data)$/i],
+  ['Utilities', /^(utils?|helpers?|shared|common|tools)$/i],
+  ['Configuration', /^(config|configs|settings|env|constants)$/i],
+  ['Tests', /^(tests?|__tests__|spec|specs|e2e|cypress|__mocks__)$/i],
+  ['Docs', /^(docs?|documentation)$/i],
+  ['Build & CI', /^(\.github|scripts|build|ci|\.circleci|deploy|infra|docker)$/i]
+];
+const LAYER_ORDER: ArchitectureLayer[] = ['UI', 'Routing & API', 'State', 'Services', 'Data', 'Utilities', 'Configuration', 'Tests', 'Docs', 'Build & CI', 'Other'];
+
+const ENTRY_POINT_PATTERNS: [RegExp, string][] = [
+  [/^(?:(?:packages|apps)\/[^/]+\/)?(?:src\/)?(main|index|app|server|cli)\.(t|j)sx?$/, 'Application entry file'],
+  [/(^|\/)pages\/_app\.(t|j)sx?$/, 'Next.js app shell'],
+  [/(^|\/)app\/layout\.(t|j)sx?$/, 'Next.js root layout'],
+  [/^(manage|main|app|wsgi|asgi)\.py$/, 'Python entry script'],
+  [/^(cmd\/[^/]+\/)?main\.go$/, 'Go main package'],
+  [/(^|\/)(App)\.(t|j)sx?$/, 'Root component']
+];
+
+const DATA_STORES: Signature[] = [
+  { name: 'PostgreSQL', packages: ['pg', 'postgres', 'pg-promise', '@neondatabase/serverless'], patterns: [/postgres(?:ql)?:\/\//] },
+  { name: 'MySQL', packages: ['mysql', 'mysql2'], patterns: [/mysql:\/\//] },
+  { name: 'MongoDB', packages: ['mongodb', 'mongoose'], patterns: [/mongodb(?:\+srv)?:\/\//] },
+  { name: 'Redis', packages: ['redis', 'ioredis', '@upstash/redis'] },
+  { name: 'SQLite', packages: ['sqlite', 'sqlite3', 'better-sqlite3'] },
+  { name: 'Prisma', packages: ['@prisma/client'] },
+  { name: 'Drizzle', packages: ['drizzle-orm'] },
+  { name: 'Knex', packages: ['knex'] },
+  { name: 'Sequelize', packages: ['sequelize'] },
+  { name: 'TypeORM', packages: ['typeorm'] },
+  { name: 'Firestore', packages: ['firebase/firestore', 'firebase-admin', '@google-cloud/firestore'] },
+  { name: 'Supabase', packages: ['@supabase/supabase-js'] },
+  { name: 'DynamoDB', packages: ['@aws-sdk/client-dynamodb', '@aws-sdk/lib-dynamodb'] },
+  { name: 'SQLAlchemy', patterns: [/^\s*(?:from|import)\s+sqlalchemy\b/m] },
+  { name: 'Django ORM', patterns: [/\bmodels\.Model\b/] },
+  { name: 'Browser localStorage', patterns: [/\blocalStorage\.(?:get|set)Item\(/] },
+  { name: 'IndexedDB', packages: ['idb', 'dexie', 'idb-keyval'], patterns: [/\bindexedDB\.open\(/] }
+];
+
+const INTEGRATIONS: Signature[] = [
+  { name: 'GitHub', packages: ['@octokit/'] },
+  { name: 'Stripe', packages: ['stripe', '@stripe/'] },
+  { name: 'OpenAI', packages: ['openai'] },
+  { name: 'Anthropic', packages: ['@anthropic-ai/'] },
+  { name: 'Slack', packages: ['@slack/'] },
+  { name: 'Twilio', packages: ['twilio'] },
+  { name: 'SendGrid', packages: ['@sendgrid/'] },
+  { name: 'Mailgun', packages: ['mailgun.js', 'mailgun-js'] },
+  { name: 'Resend', packages: ['resend'] },
+  { name: 'AWS', packages: ['aws-sdk', '@aws-sdk/'] },
+  { name: 'Google Cloud', packages: ['@google-cloud/', 'googleapis'] },
+  { name: 'Firebase', packages: ['firebase', 'firebase-admin'] },
+  { name: 'Supabase', packages: ['@supabase/'] },
+  { name: 'Sentry', packages: ['@sentry/'] },
+  { name: 'PostHog', packages: ['posthog-js', 'posthog-node'] },
+  { name: 'Segment', packages: ['@segment/'] },
+  { name: 'Mixpanel', packages: ['mixpanel', 'mixpanel-browser'] },
+  { name: 'Algolia', packages: ['algoliasearch'] },
+  { name: 'PayPal', packages: ['@paypal/'] },
+  { name: 'Auth0', packages: ['auth0', '@auth0/'] },
+  { name: 'Clerk', packages: ['@clerk/'] },
+  { name: 'NextAuth', packages: ['next-auth'] }
+];
+
+// Absolute URLs called from code, e.g. fetch('https://api.example.com/...')
+const HTTP_CALL_PATTERN = /\b(?:fetch|axios(?:\.\w+)?|got|ky|request)\(\s*[`'"]https?:\/\/([^/`'"$:]+)/g;
+const ROUTE_PATH_PATTERN = /\bpath\s*=\s*["'{`]+([^"'`}]+)["'`}]/;
+const ROUTE_TARGET_PATTERN = /\b(?:element\s*=\s*\{\s*<\s*|component\s*=\s*\{\s*)([A-Z][\w.]*)/;
+const OBJECT_ROUTE_PATTERN = /\bpath\s*:\s*['"`]([^'"`]+)['"`]\s*,\s*(?:component|element)\s*:\s*<?\s*([A-Z][\w.]*)/g;
+const SERVER_ROUTE_PATTERN = /\b(?:app|router|server|api|fastify)\.(get|post|put|patch|delete)\s*\(\s*['"`]([^'"`]+)['"`]/g;
+
+const MAX_DIAGRAM_MODULES = 12;
+const MAX_KEY_FILES = 3;
+const MAX_MOST_IMPORTED = 10;
+const MAX_FILES_PER_FINDING = 5;
+const MAX_ROUTES = 50;
+// Characters after "<Route" read for its attributes
+const MAX_ROUTE_TAG_LENGTH = 300;
+
+// The last overview and the knowledge base it was generated from
+let overviewState: { source: KnowledgeEntry[] | null; size: number; overview: ArchitectureOverview | null } = {
+  source: null,
+  size: 0,
+  overview: null
+};
+
+/**
+ * Module a file belongs to: "src/services/knowledgeBase/index.ts" -> "src/services"
+ */
+export function getModuleName(filePath: string): string {
+  const folders = filePath.split('/').slice(0, -1);
+  if (folders.length === 0) return '(root)';
+  if ((SOURCE_ROOTS.includes(folders[0]) || MONOREPO_ROOTS.includes(folders[0])) && folders.length > 1) {
+    return `${folders[0]}/${folders[1]}`;
+  }
+  return folders[0];
+}
+
+function getLayer(moduleName: string): ArchitectureLayer {
+  const folder = moduleName.split('/').pop() || moduleName;
+  const match = LAYER_PATTERNS.find(([, pattern]) => pattern.test(folder));
+  return match ? match[0] : 'Other';
+}
+
+function matchesPackage(signature: Signature, specifier: string): boolean {
+  return (signature.packages || []).some(name => name.endsWith('/') ? specifier.startsWith(name) : specifier === name || specifier.startsWith(`${name}/`));
+}
+
+/**
+ * Files that match each signature, by the packages they import or their content
+ */
+function findSignatures(
+  signatures: Signature[],
+  contents: Map<string, string>,
+  importsByFile: Map<string, string[]>
+): { name: string; files: string[] }[] {
+  const found = new Map<string, string[]>();
+
+  contents.forEach((content, filePath) => {
+    const specifiers = importsByFile.get(filePath) || [];
+    signatures.forEach(signature => {
+      const matches = specifiers.some(specifier => matchesPackage(signature, specifier)) ||
+        (signature.patterns || []).some(pattern => pattern.test(content));
+      if (!matches) return;
+      const files = found.get(signature.name) || [];
+      if (!files.includes(filePath)) files.push(filePath);
+      found.set(signature.name, files);
+    });
+  });
+
+  return Array.from(found.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([name, files]) => ({ name, files: files.slice(0, MAX_FILES_PER_FINDING) }));
+}
+
+function findHttpIntegrations(contents: Map<string, string>): { name: string; files: string[] }[] {
+  const hosts = new Map<string, string[]>();
+  contents.forEach((content, filePath) => {
+    for (const match of content.matchAll(HTTP_CALL_PATTERN)) {
+      const files = hosts.get(match[1]) || [];
+      if (!files.includes(filePath)) files.push(filePath);
+      hosts.set(match[1], files);
+    }
+  });
+  return Array.from(hosts.entries(), ([host, files]) => ({ name: host, files: files.slice(0, MAX_FILES_PER_FINDING) }));
+}
+
+function findEntryPoints(files: string[], contents: Map<string, string>): { filePath: string; reason: string }[] {
+  const entryPoints = new Map<string, string>();
+
+  // package.json "main", "module" and "bin" name the entry files of a package
+  files.filter(file => file.endsWith('package.json')).forEach(packageFile => {
+    try {
+      const manifest = JSON.parse(contents.get(packageFile) || '');
+      const folder = packageFile.split('/').slice(0, -1).join('/');
+      const bins = typeof manifest.bin === 'string' ? [manifest.bin] : Object.values(manifest.bin || {});
+      [manifest.main, manifest.module, ...bins].filter((value): value is string => typeof value === 'string').forEach(target => {
+        const filePath = [folder, target.replace(/^\.\//, '')].filter(Boolean).join('/');
+        entryPoints.set(filePath, `Listed in ${packageFile}`);
+      });
+    } catch (error) {
+      // Not stored or split into chunks; the file name patterns still apply
+    }
+  });
+
+  files.forEach(file => {
+    const match = ENTRY_POINT_PATTERNS.find(([pattern]) => pattern.test(file));
+    if (match && !entryPoints.has(file)) entryPoints.set(file, match[1]);
+  });
+
+  return Array.from(entryPoints.entries(), ([filePath, reason]) => ({ filePath, reason }));
+}
+
+/**
+ * Page and API routes: React Router and Vue Router definitions, Next.js pages and app
+ * folders, and Express-style server routes
+ */
+function findRoutes(files: string[], contents: Map<string, string>, isNextApp: boolean): ArchitectureRoute[] {
+  const routes: ArchitectureRoute[] = [];
+
+  // Other React apps have pages/ and app/ folders too; only Next.js routes by file
+  (isNextApp ? files : []).forEach(filePath => {
+    const nextPage = filePath.match(/(?:^|\/)pages\/(.+)\.(?:t|j)sx?$/);
+    if (nextPage && !nextPage[1].startsWith('_')) {
+      const route = `/${nextPage[1].replace(/(^|\/)index$/, '')}`.replace(/\[([^\]]+)\]/g, ':$1');
+      routes.push({ path: route, kind: route.startsWith('/api') ? 'api' : 'page', filePath });
+    }
+    const appPage = filePath.match(/(?:^|\/)app\/(?:(.*)\/)?(page|route)\.(?:t|j)sx?$/);
+    if (appPage) {
+      const route = `/${(appPage[1] || '').split('/').filter(segment => !/^\(.*\)$/.test(segment)).join('/')}`.replace(/\[([^\]]+)\]/g, ':$1');
+      routes.push({ path: route, kind: appPage[2] === 'route' ? 'api' : 'page', filePath });
+    }
+  });
+
+  contents.forEach((content, filePath) => {
+    // <Route path="/x" element={<X />} />, one tag at a time
+    content.split(/<Route\b/).slice(1).forEach(tag => {
+      const attributes = tag.substring(0, MAX_ROUTE_TAG_LENGTH);
+      const path = attributes.match(ROUTE_PATH_PATTERN);
+      if (path) routes.push({ path: path[1], kind: 'page', target: attributes.match(ROUTE_TARGET_PATTERN)?.[1], filePath });
+    });
+    for (const match of content.matchAll(OBJECT_ROUTE_PATTERN)) {
+      routes.push({ path: match[1], kind: 'page', target: match[2], filePath });
+    }
+    for (const match of content.matchAll(SERVER_ROUTE_PATTERN)) {
+      routes.push({ path: match[2], kind: 'api', method: match[1].toUpperCase(), filePath });
+    }
+  });
+
+  const unique = new Map(routes.map(route => [`${route.method || ''} ${route.path} ${route.filePath}`, route]));
+  return Array.from(unique.values())
+    .sort((a, b) => a.kind.localeCompare(b.kind) || a.path.localeCompare(b.path))
+    .slice(0, MAX_ROUTES);
+}
+
+function getNodeId(index: number): string {
+  return `m${index}`;
+}
+
+/**
+ * Mermaid flowchart of the most connected modules, grouped by layer, with the number of
+ * imports on each edge
+ */
+function buildDiagram(modules: ArchitectureModule[]): string | null {
+  const connected = modules
+    .map(module => ({
+      module,
+      degree: module.dependsOn.length + modules.filter(other => other.dependsOn.some(edge => edge.module === module.name)).length
+    }))
+    .filter(({ degree }) => degree > 0)
+    .sort((a, b) => b.degree - a.degree || b.module.fileCount - a.module.fileCount)
+    .slice(0, MAX_DIAGRAM_MODULES)
+    .map(({ module }) => module);
+  if (connected.length < 2) return null;
+
+  const ids = new Map(connected.map((module, index) => [module.name, getNodeId(index)]));
+  const lines = ['flowchart LR'];
+
+  LAYER_ORDER.forEach((layer, layerIndex) => {
+    const layerModules = connected.filter(module => module.layer === layer);
+    if (layerModules.length === 0) return;
+    lines.push(`  subgraph layer${layerIndex}["${layer}"]`);
+    layerModules.forEach(module => {
+      lines.push(`    ${ids.get(module.name)}["${module.name.replace(/"/g, "'")}<br/>${module.fileCount} files"]`);
+    });
+    lines.push('  end');
+  });
+
+  connected.forEach(module => {
+    module.dependsOn
+      .filter(edge => ids.has(edge.module))
+      .forEach(edge => lines.push(`  ${ids.get(module.name)} -->|${edge.imports}| ${ids.get(edge.module)}`));
+  });
+
+  return lines.join('\n');
+}
+
+function generateArchitectureOverview(entries: KnowledgeEntry[]): ArchitectureOverview {
+  const files = getKnowledgeFilePaths();
+  const contents = getFileContents(entries);
+  const graph = getDependencyGraph();
+  const importsByFile = graph.packageImports;
+
+  // File-to-file imports, counted between modules
+  const moduleEdges = new Map<string, Map<string, number>>();
+  graph.dependencies.forEach((dependencies, filePath) => {
+    const from = getModuleName(filePath);
+    dependencies.forEach(dependency => {
+      const to = getModuleName(dependency.filePath);
+      if (from === to) return;
+      const edges = moduleEdges.get(from) || new Map<string, number>();
+      edges.set(to, (edges.get(to) || 0) + 1);
+      moduleEdges.set(from, edges);
+    });
+  });
+  const importCount = (filePath: string) => graph.dependents.get(filePath)?.length || 0;
+
+  const filesByModule = new Map<string, string[]>();
+  files.forEach(file => {
+    const module = getModuleName(file);
+    filesByModule.set(module, [...(filesByModule.get(module) || []), file]);
+  });
+
+  const modules: ArchitectureModule[] = Array.from(filesByModule.entries())
+    .map(([name, moduleFiles]) => ({
+      name,
+      layer: getLayer(name),
+      fileCount: moduleFiles.length,
+      keyFiles: [...moduleFiles]
+        .sort((a, b) => importCount(b) - importCount(a))
+        .slice(0, MAX_KEY_FILES),
+      dependsOn: Array.from((moduleEdges.get(name) || new Map<string, number>()).entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([module, imports]) => ({ module, imports }))
+    }))
+    .sort((a, b) => LAYER_ORDER.indexOf(a.layer) - LAYER_ORDER.indexOf(b.layer) || b.fileCount - a.fileCount);
+
+  const layers = LAYER_ORDER
+    .map(layer => ({ layer, modules: modules.filter(module => module.layer === layer).map(module => module.name) }))
+    .filter(layer => layer.modules.length > 0);
+
+  const isNextApp = files.some(file => /(^|\/)next\.config\.\w+$/.test(file)) ||
+    Array.from(importsByFile.values()).some(specifiers => specifiers.some(specifier => specifier === 'next' || specifier.startsWith('next/')));
+
+  // Integrations found by package first; hosts called directly after them
+  const integrations = [...findSignatures(INTEGRATIONS, contents, importsByFile), ...findHttpIntegrations(contents)];
+  const repository = getCurrentRepository();
+
+  const overview: ArchitectureOverview = {
+    repository: repository && !isUsingMockData() ? `${repository.owner}/${repository.repo}` : null,
+    commitSha: getScannedCommitSha(),
+    generatedAt: new Date().toISOString(),
+    isDemoData: isUsingMockData(),
+    profile: getCodebaseProfile(),
+    fileCount: files.length,
+    modules,
+    layers,
+    entryPoints: findEntryPoints(files, contents),
+    dataStores: findSignatures(DATA_STORES, contents, importsByFile),
+    integrations,
+    routes: findRoutes(files, contents, isNextApp),
+    mostImported: getMostDependedOn(MAX_MOST_IMPORTED),
+    diagram: buildDiagram(modules)
+  };
+
+  console.log(`🏛️ Architecture overview: ${modules.length} modules, ${overview.entryPoints.length} entry points, ${overview.routes.length} routes, ${overview.integrations.length} integrations`);
+  return overview;
+}
+
+/**
+ * The architecture overview of the active repository, regenerated whenever a scan
+ * changes the knowledge base
+ */
+export function getArchitectureOverview(): ArchitectureOverview {
+  const entries = getKnowledgeEntries();
+  if (!overviewState.overview || overviewState.source !== entries || overviewState.size !== entries.length) {
+    overviewState = { source: entries, size: entries.length, overview: generateArchitectureOverview(entries) };
+  }
+  return overviewState.overview;
+}
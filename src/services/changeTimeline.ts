@@ -0,0 +1,258 @@
+// "What changed since March?" questions: the time range is read from the question and
+// answered from the commit history of the files the search finds relevant
+import { CommitInfo, calculateChangeFrequency, getFileHistory } from './gitHistoryService';
+
+export interface TimeRange {
+  since: Date;
+  until: Date;
+  // "since March 1, 2026", "in the last 14 days"
+  label: string;
+}
+
+export interface TimelineCommit extends CommitInfo {
+  // Relevant files the commit touched
+  files: string[];
+}
+
+export interface ChangeArea {
+  // Folder the files belong to, e.g. "services/checkout"
+  area: string;
+  files: { filePath: string; changeFrequency: ReturnType<typeof calculateChangeFrequency> }[];
+  commits: TimelineCommit[];
+}
+
+export interface ChangeTimeline {
+  range: TimeRange;
+  areas: ChangeArea[];
+  commitCount: number;
+  // Files whose history could not be loaded
+  unavailable: { filePath: string; reason: string }[];
+  // Whether some files have more history in the range than was loaded
+  truncated: boolean;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, sprint: 14, month: 30, quarter: 91, year: 365 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The history page loaded per file; older commits in the range are not seen
+const HISTORY_PAGE_SIZE = 100;
+
+// "change" and "update" alone are usually verbs in how-to questions
+const CHANGE_QUESTION_PATTERN = /\b(changed|changes|changelog|release notes|what'?s new|new in|updated|shipped|commits?|worked on)\b/i;
+
+const ISO_DATE_PATTERN = /\b(since|after|from)\s+(\d{4}-\d{2}-\d{2})\b/i;
+const SINCE_MONTH_PATTERN = new RegExp(`\\b(since|after|from)\\s+(?:the\\s+)?(?:(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?)?${MONTH_PATTERN}\\b(?:\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b)?(?:,?\\s+(\\d{4}))?`, 'i');
+const IN_MONTH_PATTERN = new RegExp(`\\b(?:in|during)\\s+${MONTH_PATTERN}\\b(?:\\s+(\\d{4}))?`, 'i');
+const LAST_N_PATTERN = /\b(?:in\s+|over\s+|during\s+)?(?:the\s+)?(?:last|past)\s+(\d+)\s+(day|week|sprint|month|quarter|year)s?\b/i;
+const LAST_UNIT_PATTERN = /\b(?:since\s+|in\s+|during\s+|over\s+)?(?:the\s+)?(last|past|this)\s+(day|week|sprint|month|quarter|year)\b/i;
+const RELATIVE_DAY_PATTERN = /\b(?:since\s+)?(yesterday|today)\b/i;
+const RECENT_PATTERN = /\b(recently|lately)\b/i;
+// Days counted as "recently"
+const RECENT_DAYS = 30;
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function getMonthIndex(name: string): number {
+  return MONTHS.findIndex(month => month.startsWith(name.toLowerCase().substring(0, 3)));
+}
+
+/**
+ * The most recent occurrence of a month: "March" asked in January means last year's
+ */
+function resolveMonthYear(month: number, year: string | undefined, now: Date): number {
+  if (year) return parseInt(year, 10);
+  return month > now.getMonth() ? now.getFullYear() - 1 : now.getFullYear();
+}
+
+function lastDays(days: number, now: Date, label: string): TimeRange {
+  return { since: new Date(now.getTime() - days * DAY_MS), until: now, label };
+}
+
+/**
+ * Read a time range from a question, e.g. "since March", "last sprint", "in the past
+ * 2 weeks" or "since 2026-03-01"
+ * @returns The range, ending now unless a single month was asked for, or null
+ */
+export function parseTimeRange(query: string, now: Date = new Date()): TimeRange | null {
+  const iso = query.match(ISO_DATE_PATTERN);
+  if (iso) {
+    const since = new Date(`${iso[2]}T00:00:00`);
+    if (!isNaN(since.getTime())) {
+      return { since, until: now, label: `since ${formatDate(since)}` };
+    }
+  }
+
+  const sinceMonth = query.match(SINCE_MONTH_PATTERN);
+  if (sinceMonth) {
+    const month = getMonthIndex(sinceMonth[3]);
+    const day = parseInt(sinceMonth[2] || sinceMonth[4] || '1', 10);
+    const since = new Date(resolveMonthYear(month, sinceMonth[5], now), month, day);
+    return { since, until: now, label: `since ${formatDate(since)}` };
+  }
+
+  const inMonth = query.match(IN_MONTH_PATTERN);
+  if (inMonth) {
+    const month = getMonthIndex(inMonth[1]);
+    const year = resolveMonthYear(month, inMonth[2], now);
+    const since = new Date(year, month, 1);
+    const end = new Date(year, month + 1, 1);
+    return { since, until: end < now ? end : now, label: `in ${MONTHS[month][0].toUpperCase()}${MONTHS[month].slice(1)} ${year}` };
+  }
+
+  const lastN = query.match(LAST_N_PATTERN);
+  if (lastN) {
+    const count = parseInt(lastN[1], 10);
+    const unit = lastN[2].toLowerCase();
+    return lastDays(count * UNIT_DAYS[unit], now, `in the last ${count} ${unit}${count === 1 ? '' : 's'}`);
+  }
+
+  const lastUnit = query.match(LAST_UNIT_PATTERN);
+  if (lastUnit) {
+    const unit = lastUnit[2].toLowerCase();
+    if (lastUnit[1].toLowerCase() === 'this') {
+      const since = unit === 'month' ? new Date(now.getFullYear(), now.getMonth(), 1)
+        : unit === 'year' ? new Date(now.getFullYear(), 0, 1)
+        : unit === 'week' ? startOfDay(new Date(now.getTime() - ((now.getDay() + 6) % 7) * DAY_MS))
+        : unit === 'day' ? startOfDay(now)
+        : new Date(now.getTime() - UNIT_DAYS[unit] * DAY_MS);
+      return { since, until: now, label: `this ${unit}` };
+    }
+    // A rolling window: "last sprint" asked mid-sprint still means the recent work
+    return lastDays(UNIT_DAYS[unit], now, `in the last ${UNIT_DAYS[unit]} days`);
+  }
+
+  const relativeDay = query.match(RELATIVE_DAY_PATTERN);
+  if (relativeDay) {
+    const today = startOfDay(now);
+    const since = relativeDay[1].toLowerCase() === 'yesterday' ? new Date(today.getTime() - DAY_MS) : today;
+    return { since, until: now, label: `since ${formatDate(since)}` };
+  }
+
+  if (RECENT_PATTERN.test(query)) {
+    return lastDays(RECENT_DAYS, now, `in the last ${RECENT_DAYS} days`);
+  }
+
+  return null;
+}
+
+/**
+ * Whether a question asks what changed, as opposed to mentioning a date
+ */
+export function isChangeQuestion(query: string): boolean {
+  return CHANGE_QUESTION_PATTERN.test(query);
+}
+
+/**
+ * What a change question is about, without its time range and change wording:
+ * "what changed in checkout since March?" -> "checkout"
+ */
+export function getChangeSubject(query: string): string {
+  return query
+    .replace(ISO_DATE_PATTERN, ' ')
+    .replace(SINCE_MONTH_PATTERN, ' ')
+    .replace(IN_MONTH_PATTERN, ' ')
+    .replace(LAST_N_PATTERN, ' ')
+    .replace(LAST_UNIT_PATTERN, ' ')
+    .replace(RELATIVE_DAY_PATTERN, ' ')
+    .replace(RECENT_PATTERN, ' ')
+    .replace(new RegExp(CHANGE_QUESTION_PATTERN.source, 'gi'), ' ')
+    .replace(/\b(what|which|how|has|have|was|were|did|does|is|are|the|in|on|to|for|of|about|our|we|been|there|any|anything)\b/gi, ' ')
+    .replace(/[?!.,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Folder a file belongs to, without generic roots: "src/services/checkout/cart.ts" -> "services/checkout"
+ */
+export function getChangeArea(filePath: string): string {
+  const folders = filePath.split('/').slice(0, -1);
+  const meaningful = folders.filter((folder, index) => index > 0 || !['src', 'app', 'lib', 'apps', 'packages'].includes(folder));
+  return meaningful.slice(0, 2).join('/') || '(top level)';
+}
+
+/**
+ * Commits in a time range on the given files, grouped by the area of the files they touch
+ * @param filePaths - Files in order of relevance; a commit is listed under the area of
+ * the most relevant file it touched
+ */
+export async function buildChangeTimeline(
+  owner: string,
+  repo: string,
+  filePaths: string[],
+  range: TimeRange
+): Promise<ChangeTimeline> {
+  const commits = new Map<string, TimelineCommit>();
+  const areas = new Map<string, ChangeArea>();
+  const unavailable: ChangeTimeline['unavailable'] = [];
+  let truncated = false;
+
+  for (const filePath of filePaths) {
+    // History of the branch, not the scanned commit: the range ends now
+    const history = await getFileHistory(owner, repo, filePath, null);
+    if (history.status === 'unavailable') {
+      unavailable.push({ filePath, reason: history.reason });
+      continue;
+    }
+
+    const inRange = history.commits.filter(commit => {
+      const time = new Date(commit.date).getTime();
+      return time >= range.since.getTime() && time <= range.until.getTime();
+    });
+    const oldest = history.commits[history.commits.length - 1];
+    if (history.commits.length >= HISTORY_PAGE_SIZE && oldest && new Date(oldest.date) > range.since) {
+      truncated = true;
+    }
+    if (inRange.length === 0) continue;
+
+    const areaName = getChangeArea(filePath);
+    const area = areas.get(areaName) || { area: areaName, files: [], commits: [] };
+    area.files.push({ filePath, changeFrequency: calculateChangeFrequency(history.commits) });
+    areas.set(areaName, area);
+
+    inRange.forEach(commit => {
+      const existing = commits.get(commit.sha);
+      if (existing) {
+        existing.files.push(filePath);
+        return;
+      }
+      const timelineCommit = { ...commit, files: [filePath] };
+      commits.set(commit.sha, timelineCommit);
+      area.commits.push(timelineCommit);
+    });
+  }
+
+  const sortedAreas = Array.from(areas.values())
+    .filter(area => area.commits.length > 0)
+    .map(area => ({ ...area, commits: area.commits.sort((a, b) => b.date.localeCompare(a.date)) }));
+
+  console.log(`🗓️ ${commits.size} commits ${range.label} across ${sortedAreas.length} areas (${unavailable.length} files without history)`);
+  return { range, areas: sortedAreas, commitCount: commits.size, unavailable, truncated };
+}
+
+/**
+ * The timeline as markdown, newest commits first in each area
+ */
+export function formatChangeTimeline(timeline: ChangeTimeline): string {
+  const lines: string[] = [];
+  timeline.areas.forEach(area => {
+    lines.push(`### ${area.area}`);
+    area.commits.forEach(commit => {
+      const date = new Date(commit.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      lines.push(`- ${commit.message.split('\n')[0]} (${commit.author}, ${date}, \`${commit.sha.substring(0, 7)}\`)`);
+    });
+    lines.push('');
+    const busy = area.files.filter(file => file.changeFrequency === 'high');
+    if (busy.length > 0) {
+      lines.push(`*Changes often: ${busy.map(file => `\`${file.filePath}\``).join(', ')}*`, '');
+    }
+  });
+  return lines.join('\n').trim();
+}
@@ -0,0 +1,66 @@
+// Inline citations in AI answers: the context items sent with a question are numbered
+// and the answer cites them as [2] or [1, 3]
+
+// Skips array indexing like items[0], markdown links like [1](url) and link definitions
+const CITATION_PATTERN = /(?<![\w`\\])\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\](?![(:])/g;
+
+// Link target used for citations in rendered markdown
+export const CITATION_HREF_PREFIX = '#citation-';
+
+function parseNumbers(list: string): number[] {
+  return list.split(',').map(number => parseInt(number.trim(), 10));
+}
+
+/**
+ * Numbers cited in an answer, in order of first appearance
+ */
+export function extractCitations(text: string): number[] {
+  const cited: number[] = [];
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    parseNumbers(match[1]).forEach(number => {
+      if (!cited.includes(number)) {
+        cited.push(number);
+      }
+    });
+  }
+
+  return cited;
+}
+
+/**
+ * Mark the references an answer cites
+ * @param references References numbered by the context item they came from
+ */
+export function markCitedReferences<T extends { citation?: number }>(
+  text: string,
+  references: T[]
+): (T & { cited: boolean })[] {
+  const cited = new Set(extractCitations(text));
+  return references.map(reference => ({
+    ...reference,
+    cited: reference.citation !== undefined && cited.has(reference.citation)
+  }));
+}
+
+/**
+ * Turn citations into markdown links to #citation-n so they can be rendered as footnotes.
+ * Numbers without a matching reference are left as plain text.
+ */
+export function linkCitations(text: string, validNumbers: Set<number>): string {
+  return text.replace(CITATION_PATTERN, (citation, list: string) => {
+    const numbers = parseNumbers(list);
+    if (!numbers.every(number => validNumbers.has(number))) return citation;
+    return numbers.map(number => `[${number}](${CITATION_HREF_PREFIX}${number})`).join('');
+  });
+}
+
+/**
+ * References to show with an answer: the cited ones in citation order, or all of them
+ * when the answer cites none, as template answers don't
+ */
+export function getCitedReferences<T extends { citation?: number; cited?: boolean }>(references: T[]): T[] {
+  const cited = references.filter(reference => reference.cited);
+  if (cited.length === 0) return references;
+  return cited.sort((a, b) => (a.citation ?? 0) - (b.citation ?? 0));
+}
@@ -0,0 +1,354 @@
+// Who knows a file or folder: CODEOWNERS rules plus commit authorship weighted by
+// recency and lines changed
+import { fetchCommitFiles, fetchFileContent, isGithubClientInitialized } from './githubClient';
+import { getCurrentRepository } from './githubConnector';
+import { getFileHistory } from './gitHistoryService';
+import { getKnowledgeFilePaths, getScannedCommitSha, isUsingMockData } from './knowledgeBase';
+
+export interface Expert {
+  // GitHub login with @ when known, otherwise the commit author name; teams are "@org/team"
+  name: string;
+  login?: string;
+  email?: string;
+  // Commit author name, when it differs from the login
+  displayName?: string;
+  isCodeOwner: boolean;
+  isTeam: boolean;
+  // Relative weight, comparable within one list
+  score: number;
+  commits: number;
+  linesChanged: number;
+  lastCommitDate?: string;
+  // The files or folders the expertise comes from, most relevant first
+  areas: string[];
+}
+
+export type OwnershipResult =
+  | {
+    status: 'available';
+    experts: Expert[];
+    codeOwnersFile: string | null;
+    // Share of the files whose commit history could be read, 0-1; unset when not looked up here
+    historyCoverage?: number;
+  }
+  | { status: 'unavailable'; reason: string; experts: [] };
+
+interface CodeOwnersRule {
+  pattern: string;
+  regex: RegExp;
+  owners: string[];
+}
+
+// Where GitHub looks for CODEOWNERS, in order
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+// Commits whose line counts are fetched, newest first across all files; older ones count by recency only
+const MAX_DETAILED_COMMITS = 20;
+// GitHub requests made at the same time
+const REQUEST_CONCURRENCY = 4;
+// Commits by the listed experts that make the ownership fully supported
+const FULL_CONFIDENCE_COMMITS = 10;
+// A commit this old counts half as much as one made today
+const RECENCY_HALF_LIFE_DAYS = 180;
+// Files of a folder whose history is read for its ownership
+const MAX_DIRECTORY_FILES = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WHO_TO_ASK_PATTERN = /\b(who\s+(?:should|can|could|do|would)\s+(?:i|we)\s+(?:ask|talk to|contact|escalate to|ping|reach out to)|who\s+(?:owns|maintains|knows|wrote|works on|is responsible for|built)|who'?s\s+(?:the\s+)?(?:expert|owner|maintainer)|experts?\s+(?:on|for)|owners?\s+of)\b/i;
+
+// CODEOWNERS rules by owner/repo@sha
+const codeOwnersCache = new Map<string, { rules: CodeOwnersRule[]; path: string | null }>();
+// Changed files of commits by owner/repo@sha; commits never change
+const commitFilesCache = new Map<string, { filename: string; additions: number; deletions: number }[]>();
+
+/**
+ * Turn a CODEOWNERS pattern, which follows .gitignore rules, into a regular expression
+ */
+function patternToRegExp(pattern: string): RegExp {
+  // A slash anywhere but at the end anchors the pattern to the repository root
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  const directoryOnly = pattern.endsWith('/');
+  const body = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      source += body[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += body[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // A pattern matches the path itself or, as a directory, everything below it
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${directoryOnly ? '/.*' : '(?:/.*)?'}$`);
+}
+
+/**
+ * Parse a CODEOWNERS file into rules, in file order
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  return content.split('\n')
+    .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter(Boolean)
+    .map(line => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return { pattern, regex: patternToRegExp(pattern), owners };
+    });
+}
+
+/**
+ * Owners of a path: the last matching rule wins, as on GitHub
+ */
+export function matchCodeOwners(rules: CodeOwnersRule[], filePath: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(filePath)) return rules[i].owners;
+  }
+  return [];
+}
+
+async function loadCodeOwners(owner: string, repo: string): Promise<{ rules: CodeOwnersRule[]; path: string | null }> {
+  const cacheKey = `${owner}/${repo}@${getScannedCommitSha() || 'HEAD'}`;
+  const cached = codeOwnersCache.get(cacheKey);
+  if (cached) return cached;
+
+  let result: { rules: CodeOwnersRule[]; path: string | null } = { rules: [], path: null };
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const content = await fetchFileContent(owner, repo, path);
+      result = { rules: parseCodeOwners(content), path };
+      console.log(`👥 Loaded ${result.rules.length} CODEOWNERS rules from ${path}`);
+      break;
+    } catch (error) {
+      // Not in this location; try the next one
+    }
+  }
+
+  codeOwnersCache.set(cacheKey, result);
+  return result;
+}
+
+async function getCommitFiles(owner: string, repo: string, sha: string) {
+  const cacheKey = `${owner}/${repo}@${sha}`;
+  const cached = commitFilesCache.get(cacheKey);
+  if (cached) return cached;
+
+  const files = await fetchCommitFiles(owner, repo, sha);
+  commitFilesCache.set(cacheKey, files);
+  return files;
+}
+
+/**
+ * Map items through an async function, running at most `concurrency` calls at a time
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, map: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+function getOwnerKey(owner: { login?: string; email?: string; name: string }): string {
+  return (owner.login || owner.email || owner.name).toLowerCase();
+}
+
+function getOrCreateExpert(experts: Map<string, Expert>, identity: { login?: string; email?: string; name: string }): Expert {
+  const key = getOwnerKey(identity);
+  let expert = experts.get(key);
+  if (!expert) {
+    expert = {
+      name: identity.login ? `@${identity.login}` : identity.name,
+      login: identity.login,
+      email: identity.email,
+      displayName: identity.login && identity.name !== identity.login ? identity.name : undefined,
+      isCodeOwner: false,
+      isTeam: !!identity.login?.includes('/'),
+      score: 0,
+      commits: 0,
+      linesChanged: 0,
+      areas: []
+    };
+    experts.set(key, expert);
+  }
+  return expert;
+}
+
+function addArea(expert: Expert, area: string): void {
+  if (!expert.areas.includes(area)) expert.areas.push(area);
+}
+
+/**
+ * Rank the people who know a set of files, most relevant files first. Code owners are
+ * listed before commit authors; authors are ranked by their recency- and size-weighted
+ * commits.
+ * @param filePaths - Files in order of relevance
+ * @param limit - Experts to return
+ */
+export async function findExperts(filePaths: string[], limit: number = 5): Promise<OwnershipResult> {
+  const repository = getCurrentRepository();
+  if (!repository || isUsingMockData()) {
+    return { status: 'unavailable', reason: 'No repository is connected', experts: [] };
+  }
+  if (!isGithubClientInitialized()) {
+    return { status: 'unavailable', reason: 'GitHub is not connected', experts: [] };
+  }
+
+  const { owner, repo } = repository;
+  const codeOwners = await loadCodeOwners(owner, repo);
+  const experts = new Map<string, Expert>();
+  const now = Date.now();
+
+  filePaths.forEach(filePath => {
+    matchCodeOwners(codeOwners.rules, filePath).forEach(codeOwner => {
+      const isEmail = !codeOwner.startsWith('@');
+      const expert = getOrCreateExpert(experts, isEmail
+        ? { email: codeOwner, name: codeOwner }
+        : { login: codeOwner.slice(1), name: codeOwner.slice(1) });
+      expert.isCodeOwner = true;
+      addArea(expert, filePath);
+    });
+  });
+
+  const histories = await mapWithConcurrency(filePaths, REQUEST_CONCURRENCY, filePath => getFileHistory(owner, repo, filePath));
+  const historyFailures = histories.filter(history => history.status === 'unavailable').length;
+
+  // Line counts of the newest commits across all files; a commit touching several files is fetched once
+  const detailedShas = Array.from(new Set(histories
+    .flatMap(history => history.commits)
+    .sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0))
+    .map(commit => commit.sha)))
+    .slice(0, MAX_DETAILED_COMMITS);
+  const commitFiles = new Map<string, Awaited<ReturnType<typeof getCommitFiles>>>();
+  await mapWithConcurrency(detailedShas, REQUEST_CONCURRENCY, async sha => {
+    try {
+      commitFiles.set(sha, await getCommitFiles(owner, repo, sha));
+    } catch (error) {
+      // Line counts only refine the weight; the commit still counts
+    }
+  });
+
+  filePaths.forEach((filePath, fileIndex) => {
+    for (const commit of histories[fileIndex].commits) {
+      const time = new Date(commit.date).getTime();
+      const ageDays = isNaN(time) ? RECENCY_HALF_LIFE_DAYS * 4 : Math.max(0, (now - time) / DAY_MS);
+      const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+      const changed = commitFiles.get(commit.sha)?.find(file => file.filename === filePath);
+      const lines = changed ? changed.additions + changed.deletions : 0;
+
+      const expert = getOrCreateExpert(experts, { login: commit.authorLogin, email: commit.authorEmail, name: commit.author });
+      expert.score += recency * (1 + Math.log2(1 + lines));
+      expert.commits++;
+      expert.linesChanged += lines;
+      if (!expert.lastCommitDate || commit.date > expert.lastCommitDate) {
+        expert.lastCommitDate = commit.date;
+      }
+      addArea(expert, filePath);
+    }
+  });
+
+  if (historyFailures === filePaths.length && experts.size === 0) {
+    return { status: 'unavailable', reason: 'Commit history could not be loaded', experts: [] };
+  }
+
+  const ranked = Array.from(experts.values())
+    .filter(expert => expert.name !== 'Unknown')
+    .sort((a, b) => Number(b.isCodeOwner) - Number(a.isCodeOwner) || b.score - a.score)
+    .slice(0, limit)
+    .map(expert => ({ ...expert, score: Math.round(expert.score * 100) / 100 }));
+
+  console.log(`👥 Experts for ${filePaths.length} files: ${ranked.map(expert => expert.name).join(', ') || 'none'}`);
+  return {
+    status: 'available',
+    experts: ranked,
+    codeOwnersFile: codeOwners.path,
+    historyCoverage: filePaths.length > 0 ? 1 - historyFailures / filePaths.length : 0
+  };
+}
+
+/**
+ * Ownership of one file
+ */
+export async function getFileOwnership(filePath: string, limit?: number): Promise<OwnershipResult> {
+  return findExperts([filePath], limit);
+}
+
+/**
+ * Ownership of a folder, from its own CODEOWNERS rule and the history of its files
+ * @param folder - Folder path with a trailing slash
+ */
+export async function getDirectoryOwnership(folder: string, limit?: number): Promise<OwnershipResult> {
+  const files = getKnowledgeFilePaths().filter(filePath => filePath.startsWith(folder));
+  if (files.length === 0) {
+    return { status: 'unavailable', reason: `No scanned files in ${folder}`, experts: [] };
+  }
+
+  // Shallow files first: they are the folder's entry points
+  const sampled = files
+    .sort((a, b) => a.split('/').length - b.split('/').length)
+    .slice(0, MAX_DIRECTORY_FILES);
+  const result = await findExperts(sampled, limit);
+  if (result.status === 'unavailable') return result;
+
+  // Credit the folder rather than the sampled files
+  return { ...result, experts: result.experts.map(expert => ({ ...expert, areas: [folder] })) };
+}
+
+/**
+ * Why an expert is listed, e.g. "code owner · 12 commits, last on Oct 2, 2026"
+ */
+export function describeExpertise(expert: Expert): string {
+  const reasons: string[] = [];
+  if (expert.isCodeOwner) reasons.push(expert.isTeam ? 'owning team' : 'code owner');
+  if (expert.commits > 0) {
+    const last = expert.lastCommitDate && !isNaN(new Date(expert.lastCommitDate).getTime())
+      ? `, last on ${new Date(expert.lastCommitDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+      : '';
+    reasons.push(`${expert.commits} commit${expert.commits === 1 ? '' : 's'}${expert.linesChanged > 0 ? ` (${expert.linesChanged} lines)` : ''}${last}`);
+  }
+  return reasons.join(' · ');
+}
+
+/**
+ * Confidence of an ownership answer, 0-1, from its evidence: a CODEOWNERS rule naming the
+ * top expert, how many commits back the listed experts, and how much history could be read
+ */
+export function scoreOwnershipConfidence(ownership: OwnershipResult): number {
+  if (ownership.status === 'unavailable' || ownership.experts.length === 0) return 0;
+
+  const codeOwned = ownership.experts[0].isCodeOwner ? 1 : 0;
+  const commits = ownership.experts.reduce((sum, expert) => sum + expert.commits, 0);
+  const score = 0.4 * codeOwned +
+    0.4 * Math.min(1, commits / FULL_CONFIDENCE_COMMITS) +
+    0.2 * (ownership.historyCoverage ?? 0);
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Whether a question asks who to turn to, e.g. "who should I ask about billing?"
+ */
+export function isExpertQuestion(query: string): boolean {
+  return WHO_TO_ASK_PATTERN.test(query);
+}
+
+/**
+ * What an expert question is about: "who should I ask about refunds?" -> "refunds"
+ */
+export function getExpertSubject(query: string): string {
+  return query
+    .replace(WHO_TO_ASK_PATTERN, ' ')
+    .replace(/\b(about|the|on|for|of|code|a|an|this|that|questions?)\b/gi, ' ')
+    .replace(/[?!.,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
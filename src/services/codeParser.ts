@@ -1,3 +1,5 @@
+import { parseSource, CodeSymbol } from './syntaxParser';
+
 /**
  * Extracts JSDoc comments from code
  * @param {string} code - Source code to parse
@@ -209,7 +211,7 @@ export function extractContentCounts(code: string, filePath: string): {
  * @param {string} code - Source code to parse
  * @returns {object[]} Array of function information
  */
-export function extractFunctionDefs(code: string): { name: string, params: string, body: string }[] {
+export function extractFunctionDefs(code: string): ExtractedFunction[] {
   // Regular function definitions
   const functionRegex = /function\s+(\w+)\s*\(([^)]*)\)\s*{([^{}]*(?:{[^{}]*}[^{}]*)*?)}/g;
   // Class methods
@@ -271,7 +273,7 @@ export function extractFunctionDefs(code: string): { name: string, params: strin
  * @param {string} code - Source code to parse
  * @returns {object[]} Array of class information
  */
-export function extractClassDefs(code: string): { name: string, methods: string[], extends: string | null }[] {
+export function extractClassDefs(code: string): ExtractedClass[] {
   const classRegex = /class\s+(\w+)(?:\s+extends\s+(\w+))?\s*{([^}]*)}/g;
   const classes = [];
   
@@ -341,26 +343,39 @@ export function extractExports(code: string): Record<string, string> {
 }
 
 /**
- * Extracts imports from code
+ * Extracts imports from code: ES imports of every form, re-exports, require() and
+ * dynamic import()
  * @param {string} code - Source code to parse
  * @returns {object[]} Array of import information
  */
 export function extractImports(code: string): { from: string, imports: string[] }[] {
-  const importRegex = /import\s+(?:{([^}]*)}\s+from\s+)?['"]([^'"]+)['"]/g;
+  // import x, { a, b as c } from '...' / import * as x from '...' / import '...' / export { a } from '...'
+  const importRegex = /(?:^|[;\n])\s*(?:import|export)\s+(?:type\s+)?(?:([\w$*\s{},]+?)\s+from\s+)?['"]([^'"\n]+)['"]/g;
+  const callRegex = /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g;
   const imports = [];
   
   let match;
   while ((match = importRegex.exec(code)) !== null) {
-    const importedItems = match[1] 
-      ? match[1].split(',').map(item => item.trim().split(' as ')[0]) 
-      : ['default'];
+    const clause = match[1] || '';
+    const named = clause.match(/\{([^}]*)\}/);
+    const importedItems = named
+      ? named[1].split(',').map(item => item.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0]).filter(Boolean)
+      : [];
+    // A default or namespace import before the braces, or without them
+    const outside = clause.replace(/\{[^}]*\}/, '').split(',').map(item => item.trim()).filter(Boolean);
+    if (outside.some(item => !item.startsWith('*'))) importedItems.unshift('default');
+    if (outside.some(item => item.startsWith('*'))) importedItems.unshift('*');
       
     imports.push({
       from: match[2],
-      imports: importedItems
+      imports: importedItems.length > 0 ? importedItems : ['default']
     });
   }
   
+  while ((match = callRegex.exec(code)) !== null) {
+    imports.push({ from: match[1], imports: ['default'] });
+  }
+  
   return imports;
 }
 
@@ -399,73 +414,193 @@ export function extractAPIRoutes(code: string): { method: string, path: string,
 }
 
 /**
- * Extracts database model/schema definitions
+ * Text between a bracket and its match, skipping brackets in strings
+ * @param {number} openIndex - Index of the opening bracket
+ */
+function readBracketed(code: string, openIndex: number): string {
+  const pairs: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+  const stack: string[] = [];
+  let quote: string | null = null;
+
+  for (let i = openIndex; i < code.length; i++) {
+    const char = code[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (pairs[char]) {
+      stack.push(pairs[char]);
+    } else if (char === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) return code.slice(openIndex + 1, i);
+    }
+  }
+  return code.slice(openIndex + 1);
+}
+
+/**
+ * Top-level "key: value" pairs of an object literal's body
+ */
+function splitObjectFields(body: string): [string, string][] {
+  const fields: [string, string][] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  const addField = (text: string) => {
+    const match = text.trim().match(/^['"]?([\w$]+)['"]?\s*:\s*([\s\S]+)$/);
+    if (match) fields.push([match[1], match[2].trim()]);
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('{(['.includes(char)) {
+      depth++;
+    } else if ('})]'.includes(char)) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      addField(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  addField(body.slice(start));
+  return fields;
+}
+
+/**
+ * Fields of a Mongoose or Sequelize schema object, with their types and the models they reference
+ */
+function readSchemaFields(body: string): DatabaseSchema {
+  const schema: DatabaseSchema = { fields: [], fieldTypes: {}, relationships: [] };
+
+  splitObjectFields(body).forEach(([name, value]) => {
+    const isArray = value.startsWith('[');
+    const definition = isArray ? value.slice(1, -1).trim() : value;
+    const type = definition.startsWith('{') ? definition.match(/\btype\s*:\s*([\w$.]+)/)?.[1] : definition.match(/^[\w$.]+/)?.[0];
+
+    schema.fields.push(name);
+    if (type) schema.fieldTypes[name] = `${type.split('.').pop()}${isArray ? '[]' : ''}`;
+
+    const ref = definition.match(/\bref\s*:\s*['"](\w+)['"]/);
+    if (ref) schema.relationships.push(`${isArray ? 'belongsToMany' : 'belongsTo'} ${ref[1]}`);
+  });
+
+  return schema;
+}
+
+/**
+ * Extracts database model/schema definitions: Mongoose schemas, Sequelize models and
+ * their associations, and TypeORM entities
  * @param {string} code - Source code to parse
  * @returns {object} Extracted model information
  */
-export function extractDatabaseSchema(code: string): Record<string, { fields: string[], relationships: string[] }> {
-  const schemas = {};
-  
-  // Look for common ORM patterns (Mongoose, Sequelize, Bookshelf, etc.)
-  const mongooseSchemaRegex = /new\s+Schema\s*\(\s*{([^}]+)}\s*\)/g;
-  const sequelizeModelRegex = /(\w+)\.define\s*\(\s*['"](\w+)['"]\s*,\s*{([^}]+)}/g;
+export function extractDatabaseSchema(code: string): Record<string, DatabaseSchema> {
+  const schemas: Record<string, DatabaseSchema> = {};
+  
+  // Mongoose: const userSchema = new Schema({ ... }), registered with model('User', userSchema)
+  const mongooseSchemaRegex = /(?:(?:const|let|var)\s+(\w+)\s*=\s*)?new\s+(?:mongoose\.)?Schema\s*(?:<[^>]*>)?\s*\(\s*{/g;
+  // Sequelize: sequelize.define('User', { ... })
+  const sequelizeModelRegex = /(\w+)\.define\s*\(\s*['"](\w+)['"]\s*,\s*{/g;
+  const sequelizeAssociationRegex = /(\w+)\.(hasMany|hasOne|belongsTo|belongsToMany)\s*\(\s*(?:\w+\.)?(\w+)/g;
+  // TypeORM: @Entity() class User { @Column() email: string; @ManyToOne(() => Team) team: Team }
+  const typeormEntityRegex = /@Entity\s*\([^)]*\)\s*(?:export\s+)?(?:default\s+)?class\s+(\w+)[^{]*{/g;
+  const typeormColumnRegex = /@(?:Primary\w*Column|Column|CreateDateColumn|UpdateDateColumn|DeleteDateColumn)\s*\([^)]*\)\s*(\w+)[!?]?\s*:\s*([\w[\]]+)/g;
+  const typeormRelationRegex = /@(ManyToOne|OneToMany|OneToOne|ManyToMany)\s*\(\s*\(\)\s*=>\s*(\w+)/g;
+  const typeormRelationKinds: Record<string, string> = {
+    ManyToOne: 'belongsTo',
+    OneToMany: 'hasMany',
+    OneToOne: 'hasOne',
+    ManyToMany: 'belongsToMany'
+  };
   
   // Extract Mongoose schemas
   let match;
   while ((match = mongooseSchemaRegex.exec(code)) !== null) {
-    const schemaContent = match[1];
-    const fieldRegex = /(\w+):\s*{[^}]*}/g;
-    const fields = [];
-    let fieldMatch;
-    
-    while ((fieldMatch = fieldRegex.exec(schemaContent)) !== null) {
-      fields.push(fieldMatch[1]);
-    }
-    
-    // Look for model name in surrounding code (simplified)
-    const modelNameRegex = /model\s*\(\s*['"](\w+)['"]/;
-    const modelMatch = code.match(modelNameRegex);
-    const modelName = modelMatch ? modelMatch[1] : 'UnknownModel';
+    const variable = match[1];
+    const registered = variable
+      ? code.match(new RegExp(`model\\s*(?:<[^>]*>)?\\s*\\(\\s*['"](\\w+)['"]\\s*,\\s*${variable}\\b`))
+      : code.match(/model\s*\(\s*['"](\w+)['"]/);
+    const fromVariable = variable?.replace(/Schema$/i, '');
+    const modelName = registered?.[1] ||
+      (fromVariable ? fromVariable.charAt(0).toUpperCase() + fromVariable.slice(1) : 'UnknownModel');
     
-    schemas[modelName] = {
-      fields,
-      relationships: []
-    };
+    schemas[modelName] = readSchemaFields(readBracketed(code, match.index + match[0].length - 1));
   }
   
-  // Extract Sequelize models
+  // Extract Sequelize models, then their associations
   while ((match = sequelizeModelRegex.exec(code)) !== null) {
-    const modelName = match[2];
-    const schemaContent = match[3];
-    const fieldRegex = /(\w+):\s*{[^}]*}/g;
-    const fields = [];
-    let fieldMatch;
-    
-    while ((fieldMatch = fieldRegex.exec(schemaContent)) !== null) {
-      fields.push(fieldMatch[1]);
+    schemas[match[2]] = readSchemaFields(readBracketed(code, match.index + match[0].length - 1));
+  }
+  while ((match = sequelizeAssociationRegex.exec(code)) !== null) {
+    schemas[match[1]]?.relationships.push(`${match[2]} ${match[3]}`);
+  }
+  
+  // Extract TypeORM entities
+  while ((match = typeormEntityRegex.exec(code)) !== null) {
+    const body = readBracketed(code, match.index + match[0].length - 1);
+    const schema: DatabaseSchema = { fields: [], fieldTypes: {}, relationships: [] };
+    let member;
+    while ((member = typeormColumnRegex.exec(body)) !== null) {
+      schema.fields.push(member[1]);
+      schema.fieldTypes[member[1]] = member[2];
     }
-    
-    schemas[modelName] = {
-      fields,
-      relationships: []
-    };
+    while ((member = typeormRelationRegex.exec(body)) !== null) {
+      schema.relationships.push(`${typeormRelationKinds[member[1]]} ${member[2]}`);
+    }
+    schemas[match[1]] = schema;
   }
   
   return schemas;
 }
 
+// Model found in ORM code. Relationships read "<kind> <Model>", where kind is hasMany,
+// hasOne, belongsTo or belongsToMany, e.g. "hasMany Comment".
+export interface DatabaseSchema {
+  fields: string[];
+  // Types as written in the code, e.g. { email: 'String' }, for fields that state one
+  fieldTypes?: Record<string, string>;
+  relationships: string[];
+}
+
+// Function found in a file; line numbers are only known when it was parsed with tree-sitter
+export interface ExtractedFunction {
+  name: string;
+  params: string;
+  body: string;
+  startLine?: number;
+  endLine?: number;
+  parent?: string;
+}
+
+export interface ExtractedClass {
+  name: string;
+  methods: string[];
+  extends: string | null;
+  startLine?: number;
+  endLine?: number;
+}
+
 // Define interface for the knowledge extraction result
 export interface ExtractedKnowledge {
   jsDocComments: string[];
   inlineComments: string[];
-  functions: { name: string, params: string, body: string }[];
+  functions: ExtractedFunction[];
   exports: Record<string, string>;
   imports: { from: string, imports: string[] }[];
   filePath: string;
   fileType: string;
   apiRoutes?: { method: string, path: string, handler: string }[];
-  databaseSchemas?: Record<string, { fields: string[], relationships: string[] }>;
-  classes?: { name: string, methods: string[], extends: string | null }[];
+  databaseSchemas?: Record<string, DatabaseSchema>;
+  classes?: ExtractedClass[];
+  // Every symbol with its line range, when the file was parsed with tree-sitter
+  symbols?: CodeSymbol[];
+  parser: 'tree-sitter' | 'regex';
   markdownMetadata?: {
     title?: string;
     date?: string;
@@ -493,26 +628,72 @@ export interface ExtractedKnowledge {
 }
 
 /**
- * Extracts all knowledge from code
+ * Builds the function and class lists from tree-sitter symbols
+ */
+function fromSymbols(symbols: CodeSymbol[]): { functions: ExtractedFunction[], classes: ExtractedClass[] } {
+  const functions: ExtractedFunction[] = symbols
+    .filter(symbol => symbol.kind === 'function' || symbol.kind === 'method')
+    .map(symbol => ({
+      name: symbol.name,
+      params: symbol.params,
+      body: symbol.body,
+      startLine: symbol.startLine,
+      endLine: symbol.endLine,
+      parent: symbol.parent
+    }));
+
+  const classes: ExtractedClass[] = symbols
+    .filter(symbol => symbol.kind === 'class' || symbol.kind === 'struct')
+    .map(symbol => ({
+      name: symbol.name,
+      methods: functions.filter(func => func.parent === symbol.name).map(func => func.name),
+      extends: symbol.extends || null,
+      startLine: symbol.startLine,
+      endLine: symbol.endLine
+    }));
+
+  return { functions, classes };
+}
+
+/**
+ * Extracts all knowledge from code.
+ * Functions and classes come from tree-sitter where there is a grammar for the
+ * language, and from regular expressions otherwise.
  * @param {string} code - Source code to parse
  * @param {string} filePath - Path to the file
- * @returns {ExtractedKnowledge} Extracted knowledge
+ * @returns {Promise<ExtractedKnowledge>} Extracted knowledge
  */
-export function extractKnowledge(code: string, filePath: string): ExtractedKnowledge {
+export async function extractKnowledge(code: string, filePath: string): Promise<ExtractedKnowledge> {
   // Extract file type from path
   const fileType = filePath.split('.').pop()?.toLowerCase() || '';
+  const parsed = await parseSource(code, filePath);
   
   // Basic knowledge extraction for all file types
   const knowledge: ExtractedKnowledge = {
     jsDocComments: extractJSDocComments(code),
     inlineComments: extractInlineComments(code),
-    functions: extractFunctionDefs(code),
+    functions: [],
     exports: extractExports(code),
     imports: extractImports(code),
     filePath,
-    fileType
+    fileType,
+    parser: parsed ? 'tree-sitter' : 'regex'
   };
   
+  if (parsed) {
+    const { functions, classes } = fromSymbols(parsed.symbols);
+    knowledge.functions = functions;
+    knowledge.classes = classes;
+    knowledge.symbols = parsed.symbols;
+    
+    // Docstrings and # / // doc comments aren't picked up by the JSDoc regex
+    if (!parsed.blockDocComments) {
+      knowledge.jsDocComments.push(...parsed.symbols.filter(symbol => symbol.doc).map(symbol => symbol.doc));
+    }
+  } else {
+    knowledge.functions = extractFunctionDefs(code);
+  }
+  
   // Enhanced extraction based on file type or content patterns
   if (fileType === 'js' || fileType === 'ts' || fileType === 'tsx' || fileType === 'jsx') {
     // Look for API routes in files that might define them
@@ -529,13 +710,16 @@ export function extractKnowledge(code: string, filePath: string): ExtractedKnowl
       filePath.includes('model') || 
       filePath.includes('schema') || 
       code.includes('Schema') || 
-      code.includes('define(')
+      code.includes('define(') ||
+      code.includes('@Entity')
     ) {
       knowledge['databaseSchemas'] = extractDatabaseSchema(code);
     }
     
     // Extract class definitions for all JS/TS files
-    knowledge['classes'] = extractClassDefs(code);
+    if (!parsed) {
+      knowledge['classes'] = extractClassDefs(code);
+    }
     
     // Extract Next.js page routing information
     if (filePath.includes('/app/') || filePath.includes('/pages/')) {
@@ -0,0 +1,176 @@
+// Assembles the code context sent with a question: results are taken best first,
+// overlapping snippets from the same file are trimmed or dropped, and items are added
+// until the token budget for the active model is spent.
+import { KnowledgeEntry } from './knowledgeBase/types';
+import { estimateTokens, getContextTokenBudget } from './aiProviders';
+import { getCurrentAIProviderSettings } from './aiAnalysis';
+
+// A context item as recorded on the answer
+export interface AnswerContextItem {
+  filePath: string;
+  lineNumbers?: string;
+  repository?: {
+    owner: string;
+    repo: string;
+  };
+  // Position of the result in the search ranking, 1-based
+  rank: number;
+  tokens: number;
+}
+
+export interface AnswerContext {
+  items: AnswerContextItem[];
+  usedTokens: number;
+  budget: number;
+}
+
+export interface BuiltContext extends AnswerContext {
+  // Formatted items, in the order they are sent; the model cites them as [1], [2], ...
+  texts: string[];
+  // The entries behind each item, with content and line range trimmed as sent
+  sources: KnowledgeEntry[];
+}
+
+interface IncludedRange {
+  start: number;
+  end: number;
+}
+
+function getSourceKey(entry: KnowledgeEntry): string {
+  return entry.repository ? `${entry.repository.id}:${entry.filePath}` : entry.filePath;
+}
+
+/**
+ * Whether an entry's content is the source text of its line range, as opposed to a
+ * description of a symbol
+ */
+function isVerbatim(entry: KnowledgeEntry): boolean {
+  if (!entry.startLine || !entry.endLine) return false;
+  return entry.content.split('\n').length === entry.endLine - entry.startLine + 1;
+}
+
+/**
+ * Cut the lines already sent for the same file from either end of an entry.
+ * @returns The remaining content and range, or null when nothing new is left
+ */
+function trimOverlap(
+  entry: KnowledgeEntry,
+  included: IncludedRange[]
+): { content: string; startLine?: number; endLine?: number } | null {
+  if (!isVerbatim(entry)) {
+    return { content: entry.content, startLine: entry.startLine, endLine: entry.endLine };
+  }
+
+  let start = entry.startLine;
+  let end = entry.endLine;
+  let moved = true;
+
+  while (moved && start <= end) {
+    moved = false;
+    for (const range of included) {
+      if (range.start <= start && range.end >= start) {
+        start = range.end + 1;
+        moved = true;
+      }
+      if (range.start <= end && range.end >= end) {
+        end = range.start - 1;
+        moved = true;
+      }
+    }
+  }
+
+  if (start > end) return null;
+
+  const lines = entry.content.split('\n');
+  return {
+    content: lines.slice(start - entry.startLine, end - entry.startLine + 1).join('\n'),
+    startLine: start,
+    endLine: end
+  };
+}
+
+function formatLineNumbers(startLine?: number, endLine?: number): string | undefined {
+  if (!startLine) return undefined;
+  return endLine && endLine > startLine ? `${startLine}-${endLine}` : `${startLine}`;
+}
+
+/**
+ * Format one context item: where it comes from, the symbol it belongs to, and its content
+ */
+function formatItem(entry: KnowledgeEntry, content: string, lineNumbers?: string): string {
+  const header = [
+    entry.repository ? `Repository: ${entry.repository.owner}/${entry.repository.repo}` : null,
+    `File: ${entry.filePath}${lineNumbers ? ` (lines ${lineNumbers})` : ''}`,
+    typeof entry.metadata?.parentSymbol === 'string' ? `Symbol: ${entry.metadata.parentSymbol}` : null
+  ].filter(Boolean);
+
+  return `${header.join('\n')}\n${content}`;
+}
+
+/**
+ * Build the code context for a question from ranked search results
+ * @param results Search results, best first
+ * @param budget Token budget; defaults to the budget for the active model
+ */
+export function buildAnswerContext(results: KnowledgeEntry[], budget?: number): BuiltContext {
+  const settings = getCurrentAIProviderSettings();
+  const tokenBudget = budget ?? getContextTokenBudget(settings);
+
+  const includedRanges = new Map<string, IncludedRange[]>();
+  const includedContent = new Set<string>();
+  const texts: string[] = [];
+  const sources: KnowledgeEntry[] = [];
+  const items: AnswerContextItem[] = [];
+  let usedTokens = 0;
+
+  results.forEach((entry, index) => {
+    const sourceKey = getSourceKey(entry);
+    const normalized = `${sourceKey}\n${entry.content.replace(/\s+/g, ' ').trim()}`;
+    if (!entry.content.trim() || includedContent.has(normalized)) return;
+
+    const ranges = includedRanges.get(sourceKey) || [];
+    const trimmed = trimOverlap(entry, ranges);
+    if (!trimmed) return;
+
+    let lineNumbers = formatLineNumbers(trimmed.startLine, trimmed.endLine);
+    let text = formatItem(entry, trimmed.content, lineNumbers);
+    let tokens = estimateTokens(text, settings.provider);
+
+    // Whole-file entries from scans made before chunking can exceed the budget on their own;
+    // send the start of the best one rather than nothing
+    if (tokens > tokenBudget && items.length === 0) {
+      const content = trimmed.content.substring(0, Math.floor(trimmed.content.length * (tokenBudget / tokens) * 0.9));
+      if (trimmed.startLine && isVerbatim(entry)) {
+        trimmed.endLine = trimmed.startLine + content.split('\n').length - 1;
+      }
+      trimmed.content = content;
+      lineNumbers = formatLineNumbers(trimmed.startLine, trimmed.endLine);
+      text = formatItem(entry, content, lineNumbers);
+      tokens = estimateTokens(text, settings.provider);
+    }
+
+    // Skip what doesn't fit; a smaller item further down may still fit
+    if (usedTokens + tokens > tokenBudget) return;
+
+    texts.push(text);
+    sources.push({ ...entry, ...trimmed });
+    items.push({
+      filePath: entry.filePath,
+      lineNumbers,
+      repository: entry.repository ? { owner: entry.repository.owner, repo: entry.repository.repo } : undefined,
+      rank: index + 1,
+      tokens
+    });
+    usedTokens += tokens;
+    includedContent.add(normalized);
+
+    if (trimmed.startLine && isVerbatim(entry)) {
+      ranges.push({ start: trimmed.startLine, end: trimmed.endLine });
+      includedRanges.set(sourceKey, ranges);
+    }
+  });
+
+  console.log(`🧮 Context: ${items.length} of ${results.length} results, ~${usedTokens}/${tokenBudget} tokens`);
+
+  return { texts, sources, items, usedTokens, budget: tokenBudget };
+}
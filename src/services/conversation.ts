@@ -0,0 +1,158 @@
+// Conversation memory for follow-up questions: earlier turns are kept so a follow-up can
+// be rewritten into a standalone search query and answered with the transcript
+import { ChatMessage, estimateTokens, getContextTokenBudget } from './aiProviders';
+import { getCurrentAIProviderSettings, rewriteFollowUpWithAI } from './aiAnalysis';
+import { getCitedReferences } from './citations';
+
+export interface ConversationTurn {
+  question: string;
+  // The question rewritten to stand on its own, as used for search
+  standaloneQuestion: string;
+  // The question that started the topic: this one, or the previous turn's subject for a
+  // follow-up that only refers back to it
+  subject: string;
+  answer: string;
+  // Files the answer cited, or all its references when it cites none
+  citedFiles: string[];
+}
+
+export interface Conversation {
+  id: string;
+  turns: ConversationTurn[];
+}
+
+const MAX_TURNS = 10;
+// Tokens of earlier turns sent with a question, and with a follow-up to rewrite
+const TRANSCRIPT_TOKEN_BUDGET = 1500;
+const REWRITE_TOKEN_BUDGET = 600;
+// Most of the context budget goes to code, so small local models still get some
+const TRANSCRIPT_BUDGET_SHARE = 0.25;
+const MAX_ANSWER_CHARS = 1200;
+const MAX_CITED_FILES = 5;
+
+// "and what about admins?", "why is that?", "does it work offline?"
+const FOLLOW_UP_START_PATTERN = /^(and|but|also|or|so|then|what about|how about|why|same|ok|okay)\b/i;
+// A pronoun opening the question, or right after its question word: "it returns what?", "does it cache?"
+const LEADING_PRONOUN_PATTERN = /^(?:(?:what|how|where|when|which|who|is|are|was|were|does|do|did|can|could|will|would|should)\s+(?:\w+\s+)?)?(it|its|this|that|these|those|they|them|their)\b/i;
+// Words that don't name a topic; a question made only of these leans on the previous turn
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'but', 'or', 'so', 'then', 'also', 'too', 'again', 'more', 'less',
+  'what', 'how', 'where', 'when', 'which', 'who', 'why', 'whats', 'hows',
+  'is', 'are', 'was', 'were', 'be', 'does', 'do', 'did', 'can', 'could', 'will', 'would', 'should',
+  'it', 'its', 'this', 'that', 'these', 'those', 'they', 'them', 'their', 'there', 'here',
+  'i', 'me', 'my', 'we', 'us', 'you', 'your',
+  'about', 'of', 'in', 'on', 'for', 'to', 'from', 'with', 'by', 'at', 'as', 'else',
+  'show', 'tell', 'explain', 'give', 'detail', 'details', 'example', 'examples', 'mean', 'please',
+  'ok', 'okay', 'yes', 'no', 'not', 'same', 'other', 'one', 'ones', 'all', 'any', 'some'
+]);
+
+export function createConversation(): Conversation {
+  return { id: `conversation-${Date.now()}`, turns: [] };
+}
+
+/**
+ * Words of a question that name something, such as "invoices" or "BillingService"
+ */
+function getContentWords(question: string): string[] {
+  const words = question.toLowerCase().replace(/['’]/g, '').match(/[a-z][\w-]*(?:\.[\w-]+)*/g) || [];
+  return words.filter(word => !FILLER_WORDS.has(word));
+}
+
+/**
+ * Remember an answered question; only the most recent turns are kept
+ */
+export function addConversationTurn(
+  conversation: Conversation,
+  question: string,
+  answer: { text: string; references?: { filePath: string; citation?: number; cited?: boolean }[]; standaloneQuestion?: string }
+): void {
+  const citedFiles = Array.from(new Set(getCitedReferences(answer.references || []).map(reference => reference.filePath)));
+  const previous = conversation.turns[conversation.turns.length - 1];
+
+  // A follow-up that names its own topic, like "what about invoices?", starts a new subject
+  const refersBack = LEADING_PRONOUN_PATTERN.test(question.trim()) || getContentWords(question).length === 0;
+
+  conversation.turns.push({
+    question,
+    standaloneQuestion: answer.standaloneQuestion || question,
+    subject: answer.standaloneQuestion && previous && refersBack ? previous.subject : question,
+    answer: answer.text,
+    citedFiles: citedFiles.slice(0, MAX_CITED_FILES)
+  });
+
+  if (conversation.turns.length > MAX_TURNS) {
+    conversation.turns.splice(0, conversation.turns.length - MAX_TURNS);
+  }
+}
+
+/**
+ * Tokens a transcript uses with the active provider's tokenizer
+ */
+export function countTranscriptTokens(transcript: ChatMessage[]): number {
+  const provider = getCurrentAIProviderSettings().provider;
+  return transcript.reduce((sum, message) => sum + estimateTokens(message.content, provider), 0);
+}
+
+/**
+ * Earlier turns as chat messages, newest kept first when they don't all fit the budget.
+ * Long answers are cut and each is followed by the files it cited.
+ * @param tokenBudget Defaults to a share of the active model's context budget
+ */
+export function getConversationTranscript(
+  conversation: Conversation,
+  tokenBudget: number = Math.min(
+    TRANSCRIPT_TOKEN_BUDGET,
+    Math.round(getContextTokenBudget(getCurrentAIProviderSettings()) * TRANSCRIPT_BUDGET_SHARE)
+  )
+): ChatMessage[] {
+  const transcript: ChatMessage[] = [];
+  let usedTokens = 0;
+
+  for (const turn of [...conversation.turns].reverse()) {
+    const answer = turn.answer.length > MAX_ANSWER_CHARS
+      ? `${turn.answer.substring(0, MAX_ANSWER_CHARS)}...`
+      : turn.answer;
+    const sources = turn.citedFiles.length > 0 ? `\n\nSources: ${turn.citedFiles.join(', ')}` : '';
+    const messages: ChatMessage[] = [
+      { role: 'user', content: turn.question },
+      { role: 'assistant', content: `${answer}${sources}` }
+    ];
+
+    const tokens = countTranscriptTokens(messages);
+    if (usedTokens + tokens > tokenBudget) break;
+
+    transcript.unshift(...messages);
+    usedTokens += tokens;
+  }
+
+  return transcript;
+}
+
+/**
+ * Whether a question looks like it depends on the previous turns.
+ * Short questions like "how does billing work?" are new topics; "why?" is not.
+ */
+export function isFollowUpQuestion(question: string, conversation: Conversation): boolean {
+  if (conversation.turns.length === 0) return false;
+
+  const trimmed = question.trim();
+  return FOLLOW_UP_START_PATTERN.test(trimmed) ||
+    LEADING_PRONOUN_PATTERN.test(trimmed) ||
+    getContentWords(trimmed).length === 0;
+}
+
+/**
+ * Rewrite a follow-up into a question that can be searched for on its own.
+ * Uses the AI provider when available, otherwise appends the follow-up to the previous
+ * turn's subject so the search keeps it, without piling up every earlier turn.
+ */
+export async function rewriteFollowUp(question: string, conversation: Conversation): Promise<string> {
+  if (!isFollowUpQuestion(question, conversation)) return question;
+
+  const rewritten = await rewriteFollowUpWithAI(question, getConversationTranscript(conversation, REWRITE_TOKEN_BUDGET));
+  const previous = conversation.turns[conversation.turns.length - 1];
+  const standalone = rewritten || `${previous.subject} ${question}`;
+
+  console.log(`💬 Follow-up "${question}" rewritten as "${standalone}"`);
+  return standalone;
+}
@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { KnowledgeEntry } from './knowledgeBase/types';
+import {
+  analyzeImpact,
+  findImportCycles,
+  getDependencies,
+  getDependencyGraph,
+  getDependents,
+  getImpactSubject,
+  isImpactQuestion
+} from './dependencyGraph';
+
+// The graph reads the active knowledge base; each test sets the files it holds. vi.mock
+// is hoisted above the imports.
+let entries: KnowledgeEntry[] = [];
+
+vi.mock('./knowledgeBase', () => ({
+  getKnowledgeEntries: () => entries,
+  getKnowledgeFilePaths: () => Array.from(new Set(entries.map(entry => entry.filePath)))
+}));
+
+/**
+ * Make a knowledge base of whole files, as the scanner stores them
+ */
+function scan(files: Record<string, string>): void {
+  entries = Object.entries(files).map(([filePath, content]) => ({
+    type: 'content',
+    content,
+    filePath,
+    keywords: [],
+    metadata: { contentType: 'actual-file-content', chunkIndex: 0 }
+  }));
+}
+
+describe('dependency graph', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('import resolution', () => {
+    it('resolves relative imports with and without extensions', () => {
+      scan({
+        'src/app.ts': "import { a } from './lib/a';\nimport b from '../shared/b.ts';",
+        'src/lib/a.ts': '',
+        'shared/b.ts': ''
+      });
+      expect(getDependencies('src/app.ts')).toEqual(['src/lib/a.ts', 'shared/b.ts']);
+    });
+
+    it('resolves a folder import to its index file', () => {
+      scan({
+        'src/app.tsx': "import { Button } from './components';",
+        'src/components/index.tsx': ''
+      });
+      expect(getDependencies('src/app.tsx')).toEqual(['src/components/index.tsx']);
+    });
+
+    it('resolves ".js" imports to the TypeScript source', () => {
+      scan({
+        'src/index.ts': "export * from './types.js';\nimport View from './View.jsx';",
+        'src/types.ts': '',
+        'src/View.tsx': ''
+      });
+      expect(getDependencies('src/index.ts')).toEqual(['src/types.ts', 'src/View.tsx']);
+    });
+
+    it('resolves tsconfig "paths" wildcards against baseUrl', () => {
+      scan({
+        'tsconfig.json': `{
+          // Comments and trailing commas are allowed in tsconfig files
+          "compilerOptions": {
+            "baseUrl": ".",
+            "paths": { "@app/*": ["src/app/*"], "#utils": ["src/lib/utils"], },
+          },
+        }`,
+        'src/main.ts': "import { Store } from '@app/store';\nimport { cn } from '#utils';",
+        'src/app/store.ts': '',
+        'src/lib/utils.ts': ''
+      });
+      expect(getDependencies('src/main.ts')).toEqual(['src/app/store.ts', 'src/lib/utils.ts']);
+    });
+
+    it('applies a nested tsconfig only to the files below it', () => {
+      scan({
+        'packages/web/tsconfig.json': '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }',
+        'packages/web/src/main.ts': "import { api } from '@/api';",
+        'packages/web/src/api.ts': '',
+        'src/main.ts': "import { api } from '@/api';",
+        'src/api.ts': ''
+      });
+      expect(getDependencies('packages/web/src/main.ts')).toEqual(['packages/web/src/api.ts']);
+      expect(getDependencies('src/main.ts')).toEqual([]);
+    });
+
+    it('resolves bare imports relative to baseUrl and keeps packages apart', () => {
+      scan({
+        'tsconfig.json': '{ "compilerOptions": { "baseUrl": "src" } }',
+        'src/main.ts': "import Button from 'components/Button';\nimport React from 'react';",
+        'src/components/Button.tsx': ''
+      });
+      expect(getDependencies('src/main.ts')).toEqual(['src/components/Button.tsx']);
+      expect(getDependencyGraph().packageImports.get('src/main.ts')).toEqual(['react']);
+    });
+
+    it('falls back to "@/" for src when no tsconfig declares aliases', () => {
+      scan({
+        'src/pages/Home.tsx': "import Header from '@/components/Header';",
+        'src/components/Header.tsx': ''
+      });
+      expect(getDependencies('src/pages/Home.tsx')).toEqual(['src/components/Header.tsx']);
+    });
+
+    it('records dependents with the specifier they used', () => {
+      scan({
+        'src/a.ts': "import { b } from './b';",
+        'src/c.ts': "const b = require('./b.ts');",
+        'src/b.ts': ''
+      });
+      expect(getDependents('src/b.ts')).toEqual(['src/a.ts', 'src/c.ts']);
+      expect(getDependencyGraph().dependents.get('src/b.ts')?.map(edge => edge.specifier)).toEqual(['./b', './b.ts']);
+    });
+  });
+
+  describe('import cycles', () => {
+    it('finds no cycles in an acyclic graph', () => {
+      scan({
+        'src/a.ts': "import './b';",
+        'src/b.ts': "import './c';",
+        'src/c.ts': ''
+      });
+      expect(findImportCycles()).toEqual([]);
+    });
+
+    it('lists each cycle in import order, starting from its first file', () => {
+      scan({
+        'src/a.ts': "import './b';",
+        'src/b.ts': "import './c';",
+        'src/c.ts': "import './a';\nimport './d';",
+        'src/d.ts': ''
+      });
+      expect(findImportCycles()).toEqual([['src/a.ts', 'src/b.ts', 'src/c.ts']]);
+    });
+
+    it('returns separate cycles largest first', () => {
+      scan({
+        'src/x.ts': "import './y';",
+        'src/y.ts': "import './x';",
+        'src/a.ts': "import './b';",
+        'src/b.ts': "import './c';",
+        'src/c.ts': "import './a';"
+      });
+      expect(findImportCycles()).toEqual([
+        ['src/a.ts', 'src/b.ts', 'src/c.ts'],
+        ['src/x.ts', 'src/y.ts']
+      ]);
+    });
+
+    it('reports the cycles a file is part of in its impact', () => {
+      scan({
+        'src/a.ts': "import './b';",
+        'src/b.ts': "import './a';",
+        'src/app.ts': "import './a';"
+      });
+      const impact = analyzeImpact('src/b.ts');
+      expect(impact.direct).toEqual(['src/a.ts']);
+      expect(impact.indirect).toEqual([{ filePath: 'src/app.ts', depth: 2, via: 'src/a.ts' }]);
+      expect(impact.cycles).toEqual([['src/a.ts', 'src/b.ts']]);
+    });
+  });
+
+  describe('impact questions', () => {
+    it('recognizes questions about what depends on a file', () => {
+      expect(isImpactQuestion('What breaks if I change codeParser.ts?')).toBe(true);
+      expect(isImpactQuestion('what imports billing?')).toBe(true);
+      expect(isImpactQuestion('Which files depend on the auth service?')).toBe(true);
+    });
+
+    it('leaves questions about what a file imports to search', () => {
+      expect(isImpactQuestion('What imports does codeParser use?')).toBe(false);
+    });
+
+    it('takes the file out of the question', () => {
+      expect(getImpactSubject('What breaks if I change codeParser.ts?')).toBe('codeParser.ts');
+    });
+  });
+});
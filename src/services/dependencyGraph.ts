@@ -0,0 +1,463 @@
+// File dependency graph of the active repository: the imports found by extractImports,
+// resolved against the scanned files through relative paths, tsconfig "paths" aliases
+// and index files
+import { extractImports } from './codeParser';
+import { KnowledgeEntry, getKnowledgeEntries, getKnowledgeFilePaths } from './knowledgeBase';
+
+export interface DependencyEdge {
+  filePath: string;
+  // The import as written, e.g. "@/services/knowledgeBase" or "./types"
+  specifier: string;
+}
+
+export interface DependencyGraph {
+  files: string[];
+  // Scanned files each file imports
+  dependencies: Map<string, DependencyEdge[]>;
+  // Scanned files that import each file, with the specifier they used
+  dependents: Map<string, DependencyEdge[]>;
+  // Imports of each file that aren't scanned files, e.g. "react" or "@octokit/rest"
+  packageImports: Map<string, string[]>;
+}
+
+export interface ImpactAnalysis {
+  filePath: string;
+  // Files that import it
+  direct: string[];
+  // Files that depend on it through others, nearest first
+  indirect: { filePath: string; depth: number; via: string }[];
+  // Import cycles the file is part of
+  cycles: string[][];
+}
+
+interface PathAlias {
+  // Folder of the tsconfig that declares the alias; it applies to files below it
+  root: string;
+  prefix: string;
+  suffix: string;
+  wildcard: boolean;
+  // Folder the targets are relative to: baseUrl, or the tsconfig's folder
+  base: string;
+  targets: string[];
+}
+
+interface ResolverConfig {
+  aliases: PathAlias[];
+  baseUrls: { root: string; baseUrl: string }[];
+}
+
+const EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.json'];
+// TypeScript ESM imports name the compiled file: "./types.js" is types.ts
+const COMPILED_EXTENSIONS: [RegExp, string[]][] = [
+  [/\.js$/, ['.ts', '.tsx']],
+  [/\.jsx$/, ['.tsx']],
+  [/\.mjs$/, ['.mts']],
+  [/\.cjs$/, ['.cts']]
+];
+const TSCONFIG_PATTERN = /(^|\/)(?:tsconfig|jsconfig)(?:\.[\w-]+)?\.json$/;
+// Used when no tsconfig declares aliases; the usual Vite and Nuxt conventions
+const DEFAULT_ALIASES: PathAlias[] = [
+  { root: '', prefix: '@/', suffix: '', wildcard: true, base: '', targets: ['src/*'] },
+  { root: '', prefix: '~/', suffix: '', wildcard: true, base: '', targets: ['src/*'] }
+];
+
+// Dependents followed for "what breaks if I change X?"
+const MAX_IMPACT_DEPTH = 4;
+const MAX_CYCLES = 20;
+
+// "what imports X" asks for dependents; "what imports does X use" asks the other way and is left to search
+const IMPACT_QUESTION_PATTERN = /\bwhat\s+(?:(?:would|will|could|might)\s+)?(?:break|breaks|is affected|gets affected)\b|\bwhat\s+(?:depends on|relies on|imports(?!\s+(?:does|do|did|is|are|has|have|will|would|should|can)\b))\b|\b(?:which|what)\s+files?\s+(?:depend on|import|use|would break)\b|\b(?:impact|blast radius)\s+of\s+(?:changing|modifying|editing|removing)\b/i;
+
+// The last graph and the knowledge base it was built from
+let graphState: { source: KnowledgeEntry[] | null; size: number; graph: DependencyGraph | null; cycles: string[][] | null } = {
+  source: null,
+  size: 0,
+  graph: null,
+  cycles: null
+};
+
+/**
+ * Full text of each file, from its stored content chunks in order
+ */
+export function getFileContents(entries: KnowledgeEntry[]): Map<string, string> {
+  const chunks = new Map<string, { index: number; content: string }[]>();
+  for (const entry of entries) {
+    if (entry.metadata?.contentType !== 'actual-file-content') continue;
+    const fileChunks = chunks.get(entry.filePath) || [];
+    if (!fileChunks.some(chunk => chunk.index === entry.metadata.chunkIndex)) {
+      fileChunks.push({ index: entry.metadata.chunkIndex || 0, content: entry.content });
+    }
+    chunks.set(entry.filePath, fileChunks);
+  }
+
+  // Chunks overlap; the repeated lines don't matter for finding imports
+  return new Map(Array.from(chunks.entries(), ([filePath, fileChunks]) => [
+    filePath,
+    fileChunks.sort((a, b) => a.index - b.index).map(chunk => chunk.content).join('\n')
+  ]));
+}
+
+/**
+ * "src/a/../b/./c" -> "src/b/c"
+ */
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function joinPath(folder: string, path: string): string {
+  return normalizePath(folder ? `${folder}/${path}` : path);
+}
+
+/**
+ * JSON with the comments and trailing commas tsconfig files allow
+ */
+function parseJsonWithComments(text: string): unknown {
+  let output = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      output += char;
+      if (char === '\\') output += text[++i] || '';
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      output += char;
+    }
+  }
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * Aliases and base URLs declared in the scanned tsconfig and jsconfig files
+ */
+function readResolverConfig(contents: Map<string, string>): ResolverConfig {
+  const config: ResolverConfig = { aliases: [], baseUrls: [] };
+
+  contents.forEach((content, filePath) => {
+    if (!TSCONFIG_PATTERN.test(filePath)) return;
+    let compilerOptions: { baseUrl?: string; paths?: Record<string, string[]> } | undefined;
+    try {
+      compilerOptions = (parseJsonWithComments(content) as { compilerOptions?: typeof compilerOptions }).compilerOptions;
+    } catch {
+      console.warn(`⚠️ Couldn't read ${filePath}; its path aliases are ignored`);
+      return;
+    }
+    if (!compilerOptions) return;
+
+    const root = filePath.split('/').slice(0, -1).join('/');
+    const base = joinPath(root, compilerOptions.baseUrl || '.');
+    if (compilerOptions.baseUrl) config.baseUrls.push({ root, baseUrl: base });
+
+    Object.entries(compilerOptions.paths || {}).forEach(([pattern, targets]) => {
+      if (!Array.isArray(targets)) return;
+      const [prefix, suffix = ''] = pattern.split('*');
+      config.aliases.push({
+        root,
+        prefix,
+        suffix,
+        wildcard: pattern.includes('*'),
+        base,
+        targets
+      });
+    });
+  });
+
+  if (config.aliases.length === 0) config.aliases = DEFAULT_ALIASES;
+  // Nearest tsconfig first, then the longest prefix, as TypeScript picks the most specific match
+  config.aliases.sort((a, b) => b.root.length - a.root.length || b.prefix.length - a.prefix.length);
+  config.baseUrls.sort((a, b) => b.root.length - a.root.length);
+  return config;
+}
+
+function appliesTo(root: string, fromFile: string): boolean {
+  return root === '' || fromFile.startsWith(`${root}/`);
+}
+
+/**
+ * The scanned file a path refers to, with or without extension, or a folder's index file
+ */
+function findScannedFile(base: string, files: Set<string>): string | null {
+  const candidates = [base, ...EXTENSIONS.map(extension => `${base}${extension}`), ...EXTENSIONS.map(extension => `${base}/index${extension}`)];
+  COMPILED_EXTENSIONS.forEach(([pattern, sources]) => {
+    if (pattern.test(base)) candidates.push(...sources.map(source => base.replace(pattern, source)));
+  });
+  return candidates.find(candidate => files.has(candidate)) || null;
+}
+
+/**
+ * Paths an import could refer to, in the order they are tried, and whether it is local code
+ * rather than a package
+ */
+function getImportPaths(fromFile: string, specifier: string, config: ResolverConfig): { paths: string[]; isLocal: boolean } {
+  if (specifier.startsWith('.')) {
+    return { paths: [joinPath(fromFile.split('/').slice(0, -1).join('/'), specifier)], isLocal: true };
+  }
+  if (specifier.startsWith('/')) {
+    return { paths: [normalizePath(specifier)], isLocal: true };
+  }
+
+  const alias = config.aliases.find(candidate => appliesTo(candidate.root, fromFile) && (candidate.wildcard
+    ? specifier.startsWith(candidate.prefix) && specifier.endsWith(candidate.suffix) && specifier.length >= candidate.prefix.length + candidate.suffix.length
+    : specifier === candidate.prefix));
+  if (alias) {
+    const matched = alias.wildcard ? specifier.slice(alias.prefix.length, specifier.length - alias.suffix.length) : '';
+    return { paths: alias.targets.map(target => joinPath(alias.base, target.replace('*', matched))), isLocal: true };
+  }
+
+  // Bare imports may be relative to baseUrl, e.g. "components/Button" with baseUrl "src"
+  const baseUrl = config.baseUrls.find(candidate => appliesTo(candidate.root, fromFile));
+  return { paths: baseUrl ? [joinPath(baseUrl.baseUrl, specifier)] : [], isLocal: false };
+}
+
+function buildDependencyGraph(entries: KnowledgeEntry[]): DependencyGraph {
+  const contents = getFileContents(entries);
+  const files = Array.from(new Set([...getKnowledgeFilePaths(), ...contents.keys()]));
+  const fileSet = new Set(files);
+  const config = readResolverConfig(contents);
+
+  const dependencies = new Map<string, DependencyEdge[]>();
+  const dependents = new Map<string, DependencyEdge[]>();
+  const packageImports = new Map<string, string[]>();
+  let edgeCount = 0;
+
+  contents.forEach((content, filePath) => {
+    if (filePath.endsWith('.json')) return;
+    const specifiers = Array.from(new Set(extractImports(content).map(item => item.from)));
+    const fileDependencies: DependencyEdge[] = [];
+    const packages: string[] = [];
+
+    specifiers.forEach(specifier => {
+      const { paths, isLocal } = getImportPaths(filePath, specifier, config);
+      const target = paths.map(path => findScannedFile(path, fileSet)).find(Boolean);
+      if (!target) {
+        if (!isLocal) packages.push(specifier);
+        return;
+      }
+      if (target === filePath || fileDependencies.some(edge => edge.filePath === target)) return;
+
+      fileDependencies.push({ filePath: target, specifier });
+      dependents.set(target, [...(dependents.get(target) || []), { filePath, specifier }]);
+      edgeCount++;
+    });
+
+    dependencies.set(filePath, fileDependencies);
+    packageImports.set(filePath, packages);
+  });
+
+  console.log(`🕸️ Dependency graph: ${files.length} files, ${edgeCount} imports between them, ${config.aliases.length} path aliases`);
+  return { files, dependencies, dependents, packageImports };
+}
+
+/**
+ * The dependency graph of the active repository, rebuilt whenever a scan changes the
+ * knowledge base
+ */
+export function getDependencyGraph(): DependencyGraph {
+  const entries = getKnowledgeEntries();
+  if (!graphState.graph || graphState.source !== entries || graphState.size !== entries.length) {
+    graphState = { source: entries, size: entries.length, graph: buildDependencyGraph(entries), cycles: null };
+  }
+  return graphState.graph;
+}
+
+/**
+ * Scanned files a file imports
+ */
+export function getDependencies(filePath: string): string[] {
+  return (getDependencyGraph().dependencies.get(filePath) || []).map(edge => edge.filePath);
+}
+
+/**
+ * Scanned files that import a file
+ */
+export function getDependents(filePath: string): string[] {
+  return (getDependencyGraph().dependents.get(filePath) || []).map(edge => edge.filePath);
+}
+
+/**
+ * Where a file imports another: the content chunk holding the import and its line in it
+ */
+export function findImportStatement(filePath: string, dependency: string): { entry: KnowledgeEntry; lineIndex: number } | null {
+  const edge = (getDependencyGraph().dependencies.get(filePath) || []).find(candidate => candidate.filePath === dependency);
+  if (!edge) return null;
+
+  const quoted = [`'${edge.specifier}'`, `"${edge.specifier}"`, `\`${edge.specifier}\``];
+  for (const entry of getKnowledgeEntries()) {
+    if (entry.filePath !== filePath || entry.metadata?.contentType !== 'actual-file-content') continue;
+    const lineIndex = entry.content.split('\n').findIndex(line => quoted.some(text => line.includes(text)));
+    if (lineIndex !== -1) return { entry, lineIndex };
+  }
+  return null;
+}
+
+/**
+ * Files imported by the most other files
+ */
+export function getMostDependedOn(limit: number = 10): { filePath: string; dependents: number }[] {
+  return Array.from(getDependencyGraph().dependents.entries())
+    .map(([filePath, edges]) => ({ filePath, dependents: edges.length }))
+    .sort((a, b) => b.dependents - a.dependents || a.filePath.localeCompare(b.filePath))
+    .slice(0, limit);
+}
+
+/**
+ * Shortest import path from a file back to itself, within one strongly connected component
+ */
+function findCyclePath(start: string, component: Set<string>, graph: DependencyGraph): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const edge of graph.dependencies.get(current) || []) {
+      if (!component.has(edge.filePath)) continue;
+      if (edge.filePath === start) {
+        const path = [current];
+        while (path[0] !== start) path.unshift(previous.get(path[0]));
+        return path;
+      }
+      if (!previous.has(edge.filePath)) {
+        previous.set(edge.filePath, current);
+        queue.push(edge.filePath);
+      }
+    }
+  }
+  return [start];
+}
+
+/**
+ * Import cycles, one per group of files that import each other, largest first; each
+ * lists the files in import order, the last importing the first
+ */
+export function findImportCycles(): string[][] {
+  const graph = getDependencyGraph();
+  if (graphState.cycles) return graphState.cycles;
+
+  // Tarjan's strongly connected components
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const connect = (filePath: string) => {
+    indexes.set(filePath, indexes.size);
+    lowLinks.set(filePath, indexes.get(filePath));
+    stack.push(filePath);
+    onStack.add(filePath);
+
+    for (const edge of graph.dependencies.get(filePath) || []) {
+      if (!indexes.has(edge.filePath)) {
+        connect(edge.filePath);
+        lowLinks.set(filePath, Math.min(lowLinks.get(filePath), lowLinks.get(edge.filePath)));
+      } else if (onStack.has(edge.filePath)) {
+        lowLinks.set(filePath, Math.min(lowLinks.get(filePath), indexes.get(edge.filePath)));
+      }
+    }
+
+    if (lowLinks.get(filePath) === indexes.get(filePath)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop();
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== filePath);
+      if (component.length > 1) components.push(component);
+    }
+  };
+  graph.dependencies.forEach((_, filePath) => {
+    if (!indexes.has(filePath)) connect(filePath);
+  });
+
+  const cycles = components
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_CYCLES)
+    .map(component => findCyclePath([...component].sort()[0], new Set(component), graph));
+  graphState.cycles = cycles;
+  return cycles;
+}
+
+/**
+ * What a change to a file could break: the files that import it, directly or through others
+ */
+export function analyzeImpact(filePath: string, maxDepth: number = MAX_IMPACT_DEPTH): ImpactAnalysis {
+  const graph = getDependencyGraph();
+  const direct = (graph.dependents.get(filePath) || []).map(edge => edge.filePath);
+  const indirect: ImpactAnalysis['indirect'] = [];
+  const visited = new Set([filePath, ...direct]);
+
+  let frontier = direct.map(dependent => ({ filePath: dependent, via: dependent }));
+  for (let depth = 2; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+    frontier.forEach(item => {
+      (graph.dependents.get(item.filePath) || []).forEach(edge => {
+        if (visited.has(edge.filePath)) return;
+        visited.add(edge.filePath);
+        indirect.push({ filePath: edge.filePath, depth, via: item.via });
+        next.push({ filePath: edge.filePath, via: item.via });
+      });
+    });
+    frontier = next;
+  }
+
+  return {
+    filePath,
+    direct,
+    indirect,
+    cycles: findImportCycles().filter(cycle => cycle.includes(filePath))
+  };
+}
+
+/**
+ * The scanned file a question names: a path, a file name with or without extension, or
+ * a folder with an index file. Ties go to the file most others depend on.
+ */
+export function findGraphFile(name: string): string | null {
+  const graph = getDependencyGraph();
+  const wanted = normalizePath(name.trim().replace(/^[`'"]|[`'"]$/g, '').replace(/^@\//, 'src/')).toLowerCase();
+  if (!wanted) return null;
+
+  const stripExtension = (path: string) => path.replace(/\.[^./]+$/, '').replace(/\/index$/, '');
+  const matches = graph.files.filter(file => {
+    const lower = file.toLowerCase();
+    return lower === wanted || lower.endsWith(`/${wanted}`) ||
+      stripExtension(lower) === wanted || stripExtension(lower).endsWith(`/${wanted}`);
+  });
+
+  return matches.sort((a, b) =>
+    (graph.dependents.get(b)?.length || 0) - (graph.dependents.get(a)?.length || 0) || a.length - b.length
+  )[0] || null;
+}
+
+/**
+ * Whether a question asks what depends on some code, e.g. "what breaks if I change codeParser?"
+ */
+export function isImpactQuestion(query: string): boolean {
+  return IMPACT_QUESTION_PATTERN.test(query);
+}
+
+/**
+ * What an impact question is about: "what breaks if I change the codeParser?" -> "codeParser"
+ */
+export function getImpactSubject(query: string): string {
+  return query
+    .replace(IMPACT_QUESTION_PATTERN, ' ')
+    .replace(/\b(what|is|are|if|when|i|we|you|change|changes|changing|modify|modifying|edit|editing|remove|removing|touch|the|a|an|this|that|file|module|on|to|it|in)\b/gi, ' ')
+    .replace(/[?!,]|\.(?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,402 @@
+// Explains pull requests and compare ranges: the diff is fetched from GitHub, changed
+// hunks are mapped to the symbols of the scanned knowledge base and summarized in plain
+// language together with the code that depends on them
+import { KnowledgeEntry } from './knowledgeBase/types';
+import { getKnowledgeEntries } from './knowledgeBase';
+import { findImportStatement, getDependents } from './dependencyGraph';
+import { ChangedFile, fetchCompareDiff, fetchPullRequestDiff, isGithubClientInitialized } from './githubClient';
+import { getCurrentRepository } from './githubConnector';
+import { estimateTokens, getContextTokenBudget } from './aiProviders';
+import { explainDiffWithAI, getCurrentAIProviderSettings, hasAICapabilities } from './aiAnalysis';
+
+export type DiffTarget =
+  | { kind: 'pull'; number: number; owner?: string; repo?: string }
+  | { kind: 'compare'; base: string; head: string; owner?: string; repo?: string };
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  // Added lines, numbered in the new version
+  addedLines: number[];
+  // Removed lines, numbered in the old version
+  removedLines: number[];
+  // Enclosing code GitHub shows after the @@ header, e.g. "function charge(amount) {"
+  context: string;
+  patch: string;
+}
+
+export interface ChangedSymbol {
+  name: string;
+  filePath: string;
+  // Lines of the symbol in the scanned version, when known
+  lineNumbers?: string;
+}
+
+export interface DiffDependent {
+  filePath: string;
+  // The changed symbol or file it uses
+  uses: string;
+  lineNumbers?: string;
+  snippet: string;
+}
+
+export interface DiffFileSummary extends ChangedFile {
+  hunks: DiffHunk[];
+  symbols: ChangedSymbol[];
+}
+
+export interface DiffExplanation {
+  target: DiffTarget;
+  // "PR #1234" or "main...feature"
+  label: string;
+  title?: string;
+  url: string;
+  repository: { owner: string; repo: string };
+  // Commit the changed files are shown at
+  headSha: string | null;
+  files: DiffFileSummary[];
+  // Files changed in total; more than files when the diff was cut
+  totalFiles: number;
+  // GitHub stopped listing files, so totalFiles is only a lower bound
+  filesTruncated?: boolean;
+  dependents: DiffDependent[];
+  summary: string;
+  generatedBy: 'ai' | 'template';
+}
+
+const PULL_URL_PATTERN = /github\.com\/([\w.-]+)\/([\w.-]+)\/pull\/(\d+)/i;
+const COMPARE_URL_PATTERN = /github\.com\/([\w.-]+)\/([\w.-]+)\/compare\/([\w./-]+?)\.\.\.?([\w./-]+)/i;
+const PULL_MENTION_PATTERN = /\b(?:pr|pull request|merge request)\s*#?\s*(\d+)\b|\bpull\s*#(\d+)\b/i;
+// A bare #1234 only counts when the question is about changes
+const ISSUE_NUMBER_PATTERN = /(?:^|\s)#(\d+)\b/;
+const CHANGE_WORDS_PATTERN = /\b(chang\w*|diff|merged?|ship\w*|did|introduc\w*|fix\w*)\b/i;
+const COMPARE_RANGE_PATTERN = /(?:^|\s)([\w][\w./-]*?[\w])\.\.(\.?)([\w][\w./-]*)/;
+const COMPARE_WORDS_PATTERN = /\b(compare|between)\b/i;
+// Versions, paths, commit SHAs and common branch names; "wait...what" is not a range
+const REF_LIKE_PATTERN = /\d|\/|^(main|master|develop|dev|trunk|HEAD|staging|production)$/;
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@ ?(.*)$/;
+const CONTEXT_NAME_PATTERN = /(?:function|class|def|func|interface|struct|fn)\s+([A-Za-z_$][\w$]*)|([A-Za-z_$][\w$]*)\s*[=:]?\s*(?:async\s*)?\(/;
+// Hunk headers often show a statement rather than a declaration
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'else', 'await', 'new']);
+
+const MAX_DEPENDENTS = 12;
+// Symbols shorter than this match too much unrelated code to find dependents by name
+const MIN_DEPENDENT_NAME_LENGTH = 4;
+const MAX_PATCH_CHARS = 4000;
+
+/**
+ * Find a pull request number, PR link or compare range in a question
+ */
+export function parseDiffTarget(question: string): DiffTarget | null {
+  const pullUrl = question.match(PULL_URL_PATTERN);
+  if (pullUrl) {
+    return { kind: 'pull', owner: pullUrl[1], repo: pullUrl[2], number: parseInt(pullUrl[3], 10) };
+  }
+
+  const compareUrl = question.match(COMPARE_URL_PATTERN);
+  if (compareUrl) {
+    return { kind: 'compare', owner: compareUrl[1], repo: compareUrl[2], base: compareUrl[3], head: compareUrl[4] };
+  }
+
+  const pull = question.match(PULL_MENTION_PATTERN);
+  if (pull) {
+    return { kind: 'pull', number: parseInt(pull[1] || pull[2], 10) };
+  }
+
+  const issueNumber = question.match(ISSUE_NUMBER_PATTERN);
+  if (issueNumber && CHANGE_WORDS_PATTERN.test(question)) {
+    return { kind: 'pull', number: parseInt(issueNumber[1], 10) };
+  }
+
+  const range = question.match(COMPARE_RANGE_PATTERN);
+  const isRange = range && !question.includes('://') && (COMPARE_WORDS_PATTERN.test(question) ||
+    (CHANGE_WORDS_PATTERN.test(question) && (REF_LIKE_PATTERN.test(range[1]) || REF_LIKE_PATTERN.test(range[3]))));
+  if (isRange) {
+    return { kind: 'compare', base: range[1], head: range[3].replace(/\.+$/, '') };
+  }
+
+  return null;
+}
+
+export function getDiffTargetLabel(target: DiffTarget): string {
+  return target.kind === 'pull' ? `PR #${target.number}` : `${target.base}...${target.head}`;
+}
+
+/**
+ * Split a unified diff patch into hunks with the line numbers they add and remove
+ */
+export function parsePatchHunks(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of patch.split('\n')) {
+    const header = line.match(HUNK_HEADER_PATTERN);
+    if (header) {
+      oldLine = parseInt(header[1], 10);
+      newLine = parseInt(header[2], 10);
+      current = { oldStart: oldLine, newStart: newLine, addedLines: [], removedLines: [], context: header[3].trim(), patch: line };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    current.patch += `\n${line}`;
+    if (line.startsWith('+')) {
+      current.addedLines.push(newLine++);
+    } else if (line.startsWith('-')) {
+      current.removedLines.push(oldLine++);
+    } else if (!line.startsWith('\\')) {
+      oldLine++;
+      newLine++;
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Functions and classes of a scanned file with their line ranges, innermost first
+ */
+function getFileSymbols(entries: KnowledgeEntry[], filePath: string): (ChangedSymbol & { start: number; end: number })[] {
+  return entries
+    .filter(entry => entry.filePath === filePath && entry.startLine && typeof entry.metadata?.name === 'string' &&
+      (entry.type === 'function' || entry.content.startsWith('Class: ')))
+    .map(entry => ({
+      name: entry.metadata.parent ? `${entry.metadata.parent}.${entry.metadata.name}` : entry.metadata.name,
+      filePath,
+      start: entry.startLine,
+      end: entry.endLine ?? entry.startLine,
+      lineNumbers: entry.endLine && entry.endLine > entry.startLine ? `${entry.startLine}-${entry.endLine}` : `${entry.startLine}`
+    }))
+    .sort((a, b) => (a.end - a.start) - (b.end - b.start));
+}
+
+/**
+ * Symbols a file's hunks touch. The knowledge base was scanned at some commit, so
+ * ranges are matched against both sides of the diff, and the hunk header is used when
+ * no scanned symbol covers a hunk.
+ */
+function mapHunksToSymbols(file: ChangedFile, hunks: DiffHunk[], entries: KnowledgeEntry[]): ChangedSymbol[] {
+  const scannedPath = file.status === 'renamed' && file.previousFilename ? file.previousFilename : file.filename;
+  const fileSymbols = getFileSymbols(entries, scannedPath);
+  const changed = new Map<string, ChangedSymbol>();
+
+  if (file.status === 'removed') {
+    fileSymbols.forEach(({ start, end, ...symbol }) => changed.set(symbol.name, symbol));
+    return Array.from(changed.values());
+  }
+
+  for (const hunk of hunks) {
+    const lines = [...hunk.addedLines, ...hunk.removedLines];
+
+    const covering = fileSymbols.find(symbol => lines.some(line => line >= symbol.start && line <= symbol.end));
+    if (covering) {
+      const { start, end, ...symbol } = covering;
+      changed.set(symbol.name, symbol);
+      continue;
+    }
+
+    const contextName = hunk.context.match(CONTEXT_NAME_PATTERN);
+    const name = contextName?.[1] || contextName?.[2];
+    if (name && !CONTROL_KEYWORDS.has(name) && !changed.has(name)) {
+      changed.set(name, { name, filePath: file.filename });
+    }
+  }
+
+  return Array.from(changed.values());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Code outside the change that imports a changed file or calls a changed symbol
+ */
+function findDependents(files: DiffFileSummary[], entries: KnowledgeEntry[]): DiffDependent[] {
+  // The import graph is of the scanned repository; other repositories have no entries
+  if (entries.length === 0) return [];
+  const changedPaths = new Set(files.flatMap(file => [file.filename, file.previousFilename].filter(Boolean)));
+  const dependents = new Map<string, DiffDependent>();
+
+  // Files that import a changed file
+  for (const file of files) {
+    for (const path of [file.filename, file.previousFilename].filter(Boolean)) {
+      for (const dependent of getDependents(path)) {
+        if (changedPaths.has(dependent) || dependents.has(dependent) || dependents.size >= MAX_DEPENDENTS) continue;
+        const statement = findImportStatement(dependent, path);
+        const lines = statement ? statement.entry.content.split('\n') : [];
+        dependents.set(dependent, {
+          filePath: dependent,
+          uses: file.filename,
+          lineNumbers: statement?.entry.startLine ? `${statement.entry.startLine + statement.lineIndex}` : undefined,
+          snippet: statement ? lines.slice(Math.max(0, statement.lineIndex - 2), statement.lineIndex + 3).join('\n') : ''
+        });
+      }
+    }
+  }
+
+  // Then code that calls a changed symbol by name
+  const matchers = files.flatMap(file => file.symbols)
+    .map(symbol => symbol.name.split('.').pop())
+    .filter(name => name.length >= MIN_DEPENDENT_NAME_LENGTH)
+    .map(name => ({ uses: name, pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`) }));
+
+  for (const entry of entries) {
+    if (dependents.size >= MAX_DEPENDENTS) break;
+    if (changedPaths.has(entry.filePath) || dependents.has(entry.filePath)) continue;
+    if (entry.metadata?.contentType !== 'actual-file-content') continue;
+
+    const matcher = matchers.find(candidate => candidate.pattern.test(entry.content));
+    if (!matcher) continue;
+
+    const lines = entry.content.split('\n');
+    const lineIndex = Math.max(0, lines.findIndex(line => matcher.pattern.test(line)));
+    dependents.set(entry.filePath, {
+      filePath: entry.filePath,
+      uses: matcher.uses,
+      lineNumbers: entry.startLine ? `${entry.startLine + lineIndex}` : undefined,
+      snippet: lines.slice(Math.max(0, lineIndex - 2), lineIndex + 3).join('\n')
+    });
+  }
+
+  return Array.from(dependents.values());
+}
+
+function describeFile(file: DiffFileSummary): string {
+  const symbols = file.symbols.length > 0 ? `; changes ${file.symbols.map(symbol => symbol.name).join(', ')}` : '';
+  return `${file.filename} (${file.status}, +${file.additions} -${file.deletions})${symbols}`;
+}
+
+/**
+ * Patches for the AI, largest changes first, until the context budget is spent.
+ * Files that don't fit are described without their patch.
+ */
+function formatChangesForAI(files: DiffFileSummary[]): string[] {
+  const settings = getCurrentAIProviderSettings();
+  const budget = getContextTokenBudget(settings);
+  let usedTokens = 0;
+
+  return [...files]
+    .sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions))
+    .map(file => {
+      const header = `File: ${describeFile(file)}`;
+      const patch = file.patch && file.patch.length > MAX_PATCH_CHARS
+        ? `${file.patch.substring(0, MAX_PATCH_CHARS)}\n...`
+        : file.patch;
+      const item = patch ? `${header}\n\`\`\`diff\n${patch}\n\`\`\`` : header;
+      const tokens = estimateTokens(item, settings.provider);
+
+      if (usedTokens + tokens > budget) {
+        usedTokens += estimateTokens(header, settings.provider);
+        return header;
+      }
+      usedTokens += tokens;
+      return item;
+    });
+}
+
+/**
+ * Summary without a model: the changed files and symbols and what depends on them
+ */
+function generateTemplateSummary(explanation: Omit<DiffExplanation, 'summary' | 'generatedBy'>): string {
+  const additions = explanation.files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = explanation.files.reduce((sum, file) => sum + file.deletions, 0);
+  let summary = `**${explanation.label}${explanation.title ? `: ${explanation.title}` : ''}** changes ${explanation.filesTruncated ? 'at least ' : ''}${explanation.totalFiles} file${explanation.totalFiles === 1 ? '' : 's'} (+${additions} -${deletions}${explanation.filesTruncated ? ' in the listed files' : ''}).\n\n`;
+
+  summary += `## What changed\n\n`;
+  explanation.files.forEach(file => {
+    summary += `- \`${file.filename}\` ${file.status}`;
+    if (file.symbols.length > 0) {
+      summary += `: ${file.symbols.map(symbol => `\`${symbol.name}\``).join(', ')}`;
+    }
+    summary += '\n';
+  });
+  if (explanation.totalFiles > explanation.files.length) {
+    summary += `- ...and ${explanation.totalFiles - explanation.files.length} more files\n`;
+  }
+  if (explanation.filesTruncated) {
+    summary += `- ...and possibly more: GitHub lists at most ${explanation.totalFiles} files for a comparison\n`;
+  }
+
+  summary += `\n## What else depends on it\n\n`;
+  if (explanation.dependents.length === 0) {
+    summary += 'No other scanned code uses the changed files or functions.\n';
+  } else {
+    explanation.dependents.forEach(dependent => {
+      summary += `- \`${dependent.filePath}\` uses \`${dependent.uses}\`\n`;
+    });
+  }
+
+  summary += `\n*Connect an AI provider for a plain-language explanation of what this means for users.*`;
+  return summary;
+}
+
+/**
+ * Fetch a pull request or compare range and explain it
+ * @throws When GitHub is not connected or the pull request or range can't be fetched
+ */
+export async function explainDiff(target: DiffTarget): Promise<DiffExplanation> {
+  const repository = target.owner && target.repo ? { owner: target.owner, repo: target.repo } : getCurrentRepository();
+  if (!repository || !isGithubClientInitialized()) {
+    throw new Error('Connect a GitHub repository to explain pull requests and compare ranges');
+  }
+
+  const label = getDiffTargetLabel(target);
+  console.log(`🔍 Explaining ${label} in ${repository.owner}/${repository.repo}`);
+
+  let overview: string;
+  let diff: { url: string; headSha: string | null; files: ChangedFile[]; totalFiles: number; filesTruncated?: boolean; title?: string };
+  if (target.kind === 'pull') {
+    const pull = await fetchPullRequestDiff(repository.owner, repository.repo, target.number);
+    diff = pull;
+    overview = `${label}: ${pull.title} (${pull.state}, by ${pull.author}, ${pull.headRef} into ${pull.baseRef})\n\nDescription:\n${pull.description || 'None'}`;
+  } else {
+    const comparison = await fetchCompareDiff(repository.owner, repository.repo, target.base, target.head);
+    diff = comparison;
+    overview = `Changes from ${target.base} to ${target.head} in ${comparison.commits.length} commits:\n` +
+      comparison.commits.map(commit => `- ${commit.message.split('\n')[0]} (${commit.author})`).join('\n') +
+      (comparison.filesTruncated ? `\n\nGitHub listed only the first ${comparison.totalFiles} changed files; there are more.` : '');
+  }
+
+  // Another repository's diff can't be matched against this knowledge base
+  const current = getCurrentRepository();
+  const isScannedRepository = current?.owner === repository.owner && current?.repo === repository.repo;
+  const entries = isScannedRepository ? getKnowledgeEntries() : [];
+
+  const files: DiffFileSummary[] = diff.files.map(file => {
+    const hunks = file.patch ? parsePatchHunks(file.patch) : [];
+    return { ...file, hunks, symbols: mapHunksToSymbols(file, hunks, entries) };
+  });
+  const dependents = findDependents(files, entries);
+  console.log(`🔍 ${label}: ${files.length} files, ${files.reduce((sum, file) => sum + file.symbols.length, 0)} changed symbols, ${dependents.length} dependents`);
+
+  const explanation = {
+    target,
+    label,
+    title: diff.title,
+    url: diff.url,
+    repository,
+    headSha: diff.headSha,
+    files,
+    totalFiles: Math.max(diff.totalFiles, files.length),
+    filesTruncated: diff.filesTruncated,
+    dependents
+  };
+
+  if (hasAICapabilities()) {
+    const changedSymbols = files.flatMap(file => file.symbols.map(symbol => `${symbol.name} (${symbol.filePath})`));
+    const summary = await explainDiffWithAI(
+      `${overview}\n\nChanged functions and classes: ${changedSymbols.length > 0 ? changedSymbols.join(', ') : 'none recognized'}`,
+      formatChangesForAI(files),
+      dependents.map(dependent => `${dependent.filePath} uses ${dependent.uses}:\n${dependent.snippet}`)
+    );
+    if (summary) {
+      return { ...explanation, summary, generatedBy: 'ai' };
+    }
+  }
+
+  return { ...explanation, summary: generateTemplateSummary(explanation), generatedBy: 'template' };
+}
@@ -1,163 +1,133 @@
-
 import { fetchCommitHistory, isGithubClientInitialized } from './githubClient';
 import { getRepositoryConfig } from './repositoryConfig';
+import { getScannedCommitSha } from './knowledgeBase';
 
-interface CommitInfo {
+export interface CommitInfo {
   sha: string;
   date: string;
   message: string;
   author: string;
+  authorEmail?: string;
+  authorLogin?: string;
 }
 
+type ChangeFrequency = 'high' | 'medium' | 'low' | 'unknown';
+
+// History of a file, or why it could not be loaded; never made up
+export type FileHistoryResult =
+  | { status: 'available'; commits: CommitInfo[] }
+  | { status: 'unavailable'; reason: string; commits: [] };
+
 interface FileHistory {
   filePath: string;
+  status: FileHistoryResult['status'];
+  // Set when the history is unavailable
+  unavailableReason?: string;
   commits: CommitInfo[];
   lastUpdated: string;
-  changeFrequency: 'high' | 'medium' | 'low';
+  changeFrequency: ChangeFrequency;
 }
 
+// One page of commits: enough to count changes over the frequency window
+const HISTORY_PAGE_SIZE = 100;
+// History at a fixed commit never changes; history of the default branch does
+const BRANCH_HISTORY_TTL = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHANGE_FREQUENCY_WINDOW_DAYS = 90;
+// Commits within the window for a file to count as changing often or sometimes
+const HIGH_FREQUENCY_COMMITS = 6;
+const MEDIUM_FREQUENCY_COMMITS = 2;
+
+// Successful lookups by owner/repo@sha:path
+const historyCache = new Map<string, { commits: CommitInfo[]; fetchedAt: number }>();
+
 /**
  * Fetches commit history for a specific file
  * @param {string} repoOwner - Repository owner
  * @param {string} repoName - Repository name
  * @param {string} filePath - Path to the file
- * @returns {Promise<CommitInfo[]>} Array of commit information
+ * @param {string} [sha] - Commit to read history back from; defaults to the scanned commit
+ * @returns {Promise<FileHistoryResult>} The commits, newest first, or why they are unavailable
  */
 export async function getFileHistory(
   repoOwner: string,
-  repoName: string, 
-  filePath: string
-): Promise<CommitInfo[]> {
-  // If GitHub client is initialized, use the real API
-  if (isGithubClientInitialized()) {
-    try {
-      return await fetchCommitHistory(repoOwner, repoName, filePath);
-    } catch (error) {
-      console.warn(`Failed to fetch commit history from GitHub API, falling back to mock data: ${error}`);
-      // Fall back to mock data on error
-    }
-  }
-  
-  try {
-    // For demo purposes, we'll mock the GitHub API response
-    console.log(`Fetching history for ${filePath}`);
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 300));
-    
-    // Generate some mock commits based on the file path
-    // to make the history data look realistic
-    const mockCommits = generateMockCommits(filePath);
-    
-    return mockCommits;
-  } catch (error) {
-    console.error('Error fetching file history:', error);
-    return [];
+  repoName: string,
+  filePath: string,
+  sha: string | null = getScannedCommitSha()
+): Promise<FileHistoryResult> {
+  if (!isGithubClientInitialized()) {
+    return { status: 'unavailable', reason: 'GitHub is not connected', commits: [] };
   }
-}
 
-/**
- * Generates mock commits for demo purposes
- * @param {string} filePath - Path to the file
- * @returns {CommitInfo[]} Array of mock commit information
- */
-function generateMockCommits(filePath: string): CommitInfo[] {
-  // Extract filename for more realistic mock data
-  const fileName = filePath.split('/').pop() || filePath;
-  
-  // Generate a variable number of commits based on the file path length
-  // to create some variety in the mock data
-  const commitCount = (filePath.length % 5) + 2;
-  const commits: CommitInfo[] = [];
-  
-  const now = new Date();
-  
-  for (let i = 0; i < commitCount; i++) {
-    // Go back in time for each commit
-    const commitDate = new Date(now);
-    commitDate.setDate(now.getDate() - i * 10);
-    
-    commits.push({
-      sha: generateMockSha(),
-      date: commitDate.toISOString(),
-      message: generateMockCommitMessage(fileName, i),
-      author: MOCK_AUTHORS[i % MOCK_AUTHORS.length]
-    });
+  const cacheKey = `${repoOwner}/${repoName}@${sha || 'HEAD'}:${filePath}`;
+  const cached = historyCache.get(cacheKey);
+  if (cached && (sha || Date.now() - cached.fetchedAt < BRANCH_HISTORY_TTL)) {
+    return { status: 'available', commits: cached.commits };
   }
-  
-  return commits;
-}
 
-/**
- * Generates a mock SHA for commit
- * @returns {string} Mock SHA string
- */
-function generateMockSha(): string {
-  const chars = '0123456789abcdef';
-  let result = '';
-  for (let i = 0; i < 7; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  try {
+    const commits = await fetchCommitHistory(repoOwner, repoName, filePath, HISTORY_PAGE_SIZE, sha || undefined);
+    historyCache.set(cacheKey, { commits, fetchedAt: Date.now() });
+    console.log(`📜 Loaded ${commits.length} commits for ${filePath}`);
+    return { status: 'available', commits };
+  } catch (error) {
+    // Failures aren't cached so the next request tries again
+    console.warn(`📜 History unavailable for ${filePath}:`, error);
+    return {
+      status: 'unavailable',
+      reason: error instanceof Error ? `GitHub request failed: ${error.message}` : 'GitHub request failed',
+      commits: []
+    };
   }
-  return result;
 }
 
 /**
- * Generates a realistic mock commit message
- * @param {string} fileName - Name of the file
- * @param {number} index - Index of the commit
- * @returns {string} Mock commit message
- */
-function generateMockCommitMessage(fileName: string, index: number): string {
-  const messages = [
-    `Update ${fileName} to fix bug`,
-    `Refactor ${fileName} for better performance`,
-    `Add new features to ${fileName}`,
-    `Documentation improvements in ${fileName}`,
-    `Fix typo in ${fileName}`,
-    `Initial commit for ${fileName}`,
-    `Merge pull request for ${fileName}`
-  ];
-  
-  return messages[index % messages.length];
-}
-
-// Mock author data
-const MOCK_AUTHORS = ['Alice Johnson', 'Bob Smith', 'Charlie Davis', 'Diana Miller'];
-
-/**
- * Calculates change frequency based on commit history
+ * Calculates change frequency from the commits within a time window
  * @param {CommitInfo[]} history - File commit history
- * @returns {string} Change frequency category
+ * @param {number} [windowDays] - Length of the window, ending now
+ * @param {number} [now] - End of the window, in milliseconds
+ * @returns {ChangeFrequency} Change frequency category
  */
-export function calculateChangeFrequency(history: CommitInfo[]): 'high' | 'medium' | 'low' {
-  if (!history || history.length === 0) return 'low';
-  
-  if (history.length > 10) return 'high';
-  if (history.length > 5) return 'medium';
+export function calculateChangeFrequency(
+  history: CommitInfo[],
+  windowDays: number = CHANGE_FREQUENCY_WINDOW_DAYS,
+  now: number = Date.now()
+): Exclude<ChangeFrequency, 'unknown'> {
+  const windowStart = now - windowDays * DAY_MS;
+  const recentCommits = (history || []).filter(commit => {
+    const time = new Date(commit.date).getTime();
+    return !isNaN(time) && time >= windowStart && time <= now;
+  }).length;
+
+  if (recentCommits >= HIGH_FREQUENCY_COMMITS) return 'high';
+  if (recentCommits >= MEDIUM_FREQUENCY_COMMITS) return 'medium';
   return 'low';
 }
 
 /**
  * Enriches a knowledge item with history data
  * @param {any} item - Knowledge item to enrich
- * @param {CommitInfo[]} history - File commit history
- * @returns {any} Enriched knowledge item
+ * @param {FileHistoryResult} history - File history lookup
+ * @returns {any} Enriched knowledge item; unavailable history is marked as such
  */
-export function enrichKnowledgeItem(item: any, history: CommitInfo[]): any {
-  if (!history || history.length === 0) {
+export function enrichKnowledgeItem(item: any, history: FileHistoryResult): any {
+  if (history.status === 'unavailable') {
     return {
       ...item,
       lastUpdated: 'Unknown',
-      changeFrequency: 'low',
+      changeFrequency: 'unknown',
+      historyStatus: 'unavailable',
+      historyUnavailableReason: history.reason,
       history: []
     };
   }
-  
+
   return {
     ...item,
-    lastUpdated: history[0]?.date || 'Unknown',
-    changeFrequency: calculateChangeFrequency(history),
-    history: history.slice(0, 5), // Last 5 changes
+    lastUpdated: history.commits[0]?.date || 'Unknown',
+    changeFrequency: calculateChangeFrequency(history.commits),
+    historyStatus: 'available',
+    history: history.commits.slice(0, 5), // Last 5 changes
   };
 }
 
@@ -171,19 +141,21 @@ export async function getHistoryForFiles(
 ): Promise<Record<string, FileHistory>> {
   const result: Record<string, FileHistory> = {};
   const config = getRepositoryConfig();
-  const repoOwner = config?.owner || 'TryGhost';
-  const repoName = config?.repo || 'Ghost';
-  
+
   for (const filePath of filePaths) {
-    const commits = await getFileHistory(repoOwner, repoName, filePath);
-    
+    const history: FileHistoryResult = config
+      ? await getFileHistory(config.owner, config.repo, filePath)
+      : { status: 'unavailable', reason: 'No repository connected', commits: [] };
+
     result[filePath] = {
       filePath,
-      commits,
-      lastUpdated: commits[0]?.date || 'Unknown',
-      changeFrequency: calculateChangeFrequency(commits)
+      status: history.status,
+      unavailableReason: history.status === 'unavailable' ? history.reason : undefined,
+      commits: history.commits,
+      lastUpdated: history.commits[0]?.date || 'Unknown',
+      changeFrequency: history.status === 'available' ? calculateChangeFrequency(history.commits) : 'unknown'
     };
   }
-  
+
   return result;
 }
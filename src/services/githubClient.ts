@@ -74,6 +74,53 @@ export async function fetchRepositoryContents(owner: string, repo: string, path:
   }
 }
 
+/**
+ * Get the full recursive git tree of a repository's default branch
+ * @param owner Repository owner
+ * @param repo Repository name
+ * @returns Tree SHA, blob entries with their SHAs, and whether GitHub truncated the listing
+ */
+export async function fetchRepositoryTree(owner: string, repo: string) {
+  if (!octokitInstance) {
+    throw new Error("GitHub client not initialized");
+  }
+
+  try {
+    console.log(`Fetching repository tree for ${owner}/${repo}`);
+
+    const repoResponse = await octokitInstance.repos.get({ owner, repo });
+    const branch = repoResponse.data.default_branch;
+
+    // Resolve the branch to a commit so the tree and links to it stay pinned together
+    const branchResponse = await octokitInstance.repos.getBranch({ owner, repo, branch });
+    const commit = branchResponse.data.commit;
+
+    const response = await octokitInstance.git.getTree({
+      owner,
+      repo,
+      tree_sha: commit.commit.tree.sha,
+      recursive: "true"
+    });
+
+    return {
+      sha: response.data.sha,
+      commitSha: commit.sha,
+      branch,
+      truncated: response.data.truncated,
+      entries: response.data.tree
+        .filter(item => item.type === 'blob' && item.path && item.sha)
+        .map(item => ({
+          path: item.path as string,
+          sha: item.sha as string,
+          size: item.size
+        }))
+    };
+  } catch (error) {
+    console.error(`Error fetching repository tree for ${owner}/${repo}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Get file content from GitHub API
  * @param owner Repository owner
@@ -140,9 +187,10 @@ export async function fetchFileContent(owner: string, repo: string, path: string
  * @param repo Repository name
  * @param path Path to the file
  * @param limit Maximum number of commits to return
+ * @param sha Commit to list history back from, defaults to the default branch
  * @returns Array of commit information
  */
-export async function fetchCommitHistory(owner: string, repo: string, path: string, limit: number = 10) {
+export async function fetchCommitHistory(owner: string, repo: string, path: string, limit: number = 10, sha?: string) {
   if (!octokitInstance) {
     throw new Error("GitHub client not initialized");
   }
@@ -152,15 +200,18 @@ export async function fetchCommitHistory(owner: string, repo: string, path: stri
       owner,
       repo,
       path,
-      per_page: limit
+      per_page: limit,
+      ...(sha ? { sha } : {})
     });
 
     return response.data.map(item => ({
       sha: item.sha,
-      date: item.commit.author?.date || new Date().toISOString(),
+      date: item.commit.author?.date || item.commit.committer?.date || 'Unknown',
       message: item.commit.message,
       author: item.commit.author?.name || 'Unknown',
-      authorEmail: item.commit.author?.email || undefined
+      authorEmail: item.commit.author?.email || undefined,
+      // GitHub account of the author, when the commit email is linked to one
+      authorLogin: item.author?.login || undefined
     }));
   } catch (error) {
     console.error(`Error fetching commit history for ${owner}/${repo}/${path}:`, error);
@@ -168,6 +219,31 @@ export async function fetchCommitHistory(owner: string, repo: string, path: stri
   }
 }
 
+/**
+ * Get the files a commit changed, with line counts
+ * @param owner Repository owner
+ * @param repo Repository name
+ * @param sha Commit SHA
+ * @returns Changed files with additions and deletions
+ */
+export async function fetchCommitFiles(owner: string, repo: string, sha: string) {
+  if (!octokitInstance) {
+    throw new Error("GitHub client not initialized");
+  }
+
+  try {
+    const { data } = await octokitInstance.repos.getCommit({ owner, repo, ref: sha });
+    return (data.files || []).map(file => ({
+      filename: file.filename,
+      additions: file.additions,
+      deletions: file.deletions
+    }));
+  } catch (error) {
+    console.error(`Error fetching commit ${owner}/${repo}@${sha}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Get the most recent author information for a file
  * @param owner Repository owner
@@ -204,6 +280,123 @@ export async function fetchFileAuthor(owner: string, repo: string, path: string)
   }
 }
 
+// A file changed by a pull request or between two commits
+export interface ChangedFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  // Unified diff of the file; missing for binary files and very large diffs
+  patch?: string;
+  previousFilename?: string;
+}
+
+// Pull requests with more files than this are summarized from the first ones
+const MAX_DIFF_FILES = 300;
+// GitHub lists at most this many files for a comparison, without saying how many there are
+const COMPARE_FILE_LIMIT = 300;
+
+function toChangedFile(file: {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+  previous_filename?: string;
+}): ChangedFile {
+  return {
+    filename: file.filename,
+    status: file.status,
+    additions: file.additions,
+    deletions: file.deletions,
+    patch: file.patch,
+    previousFilename: file.previous_filename
+  };
+}
+
+/**
+ * Get a pull request with the files it changes
+ * @param owner Repository owner
+ * @param repo Repository name
+ * @param pullNumber Pull request number
+ * @returns Pull request details and changed files with their patches
+ */
+export async function fetchPullRequestDiff(owner: string, repo: string, pullNumber: number) {
+  if (!octokitInstance) {
+    throw new Error("GitHub client not initialized");
+  }
+
+  try {
+    const { data: pull } = await octokitInstance.pulls.get({ owner, repo, pull_number: pullNumber });
+    let fetchedFiles = 0;
+    const files = await octokitInstance.paginate(
+      octokitInstance.pulls.listFiles,
+      { owner, repo, pull_number: pullNumber, per_page: 100 },
+      (response, done) => {
+        fetchedFiles += response.data.length;
+        if (fetchedFiles >= MAX_DIFF_FILES) done();
+        return response.data;
+      }
+    );
+
+    return {
+      title: pull.title,
+      description: pull.body || '',
+      author: pull.user?.login || 'Unknown',
+      state: pull.merged_at ? 'merged' : pull.state,
+      url: pull.html_url,
+      baseRef: pull.base.ref,
+      headRef: pull.head.ref,
+      headSha: pull.head.sha,
+      files: files.slice(0, MAX_DIFF_FILES).map(toChangedFile),
+      totalFiles: pull.changed_files
+    };
+  } catch (error) {
+    console.error(`Error fetching pull request ${owner}/${repo}#${pullNumber}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Compare two commits, branches or tags
+ * @param owner Repository owner
+ * @param repo Repository name
+ * @param base Base commit, branch or tag
+ * @param head Head commit, branch or tag
+ * @returns The commits between them and the changed files with their patches; filesTruncated
+ * is set when GitHub's file limit was reached, so totalFiles is a lower bound
+ */
+export async function fetchCompareDiff(owner: string, repo: string, base: string, head: string) {
+  if (!octokitInstance) {
+    throw new Error("GitHub client not initialized");
+  }
+
+  try {
+    const { data } = await octokitInstance.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      per_page: 100
+    });
+
+    return {
+      url: data.html_url,
+      headSha: data.commits[data.commits.length - 1]?.sha || null,
+      commits: data.commits.map(item => ({
+        sha: item.sha,
+        message: item.commit.message,
+        author: item.commit.author?.name || 'Unknown'
+      })),
+      files: (data.files || []).slice(0, MAX_DIFF_FILES).map(toChangedFile),
+      totalFiles: data.files?.length || 0,
+      filesTruncated: (data.files?.length || 0) >= COMPARE_FILE_LIMIT
+    };
+  } catch (error) {
+    console.error(`Error comparing ${owner}/${repo} ${base}...${head}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Validate GitHub token by attempting to get the authenticated user
  * @param token GitHub personal access token to validate (classic or fine-grained)
@@ -1,5 +1,5 @@
 
-import { fetchRepositoryContents, fetchFileContent, isGithubClientInitialized } from './githubClient';
+import { fetchRepositoryContents, fetchFileContent, fetchRepositoryTree, isGithubClientInitialized } from './githubClient';
 import { getRepositoryConfig } from './repositoryConfig';
 import { toast } from "sonner";
 
@@ -10,6 +10,15 @@ export interface FileInfo {
   path: string;
   content: string;
   type: 'file' | 'dir';
+  sha?: string;
+}
+
+export interface RepositoryTree {
+  sha: string;
+  // Commit the tree belongs to
+  commitSha: string;
+  branch: string;
+  files: { path: string; sha: string; size?: number }[];
 }
 
 // Detailed error tracking for repository operations
@@ -307,12 +316,14 @@ export async function getRepositoryContents(repoPath: string): Promise<FileInfo[
         name: item.name,
         path: item.path,
         content: '',
-        type: item.type as 'file' | 'dir'
+        type: item.type as 'file' | 'dir',
+        sha: item.sha
       })) : [{
         name: contents.name,
         path: contents.path,
         content: '',
-        type: contents.type as 'file' | 'dir'
+        type: contents.type as 'file' | 'dir',
+        sha: contents.sha
       }];
     } catch (error) {
       const errorObj = error as any;
@@ -408,6 +419,53 @@ export async function getRepositoryContents(repoPath: string): Promise<FileInfo[
   });
 }
 
+/**
+ * Fetches the complete git tree of the configured repository in one request
+ * @returns {Promise<RepositoryTree|null>} Blob paths and SHAs, or null when the tree
+ * is unavailable (mock mode, API error, or a listing GitHub had to truncate)
+ */
+export async function getRepositoryTree(): Promise<RepositoryTree | null> {
+  const config = getRepositoryConfig();
+  
+  if (!isGithubClientInitialized() || !config) {
+    console.warn('Repository tree unavailable:', isGithubClientInitialized() ? 'No repository config' : 'GitHub client not initialized');
+    return null;
+  }
+  
+  try {
+    const { owner, repo } = config;
+    const tree = await fetchRepositoryTree(owner, repo);
+    
+    confirmedSuccessfulFetch = true;
+    connectionAttempts++;
+    
+    if (tree.truncated) {
+      console.warn(`Repository tree for ${owner}/${repo} was truncated by GitHub, falling back to directory scanning`);
+      return null;
+    }
+    
+    return {
+      sha: tree.sha,
+      commitSha: tree.commitSha,
+      branch: tree.branch,
+      files: tree.entries
+    };
+  } catch (error) {
+    const errorObj = error as { status?: number; message?: string };
+    connectionAttempts++;
+    
+    if (errorObj.status === 401 || errorObj.status === 403) {
+      recordError('auth', errorObj);
+    } else if (errorObj.status === 429) {
+      recordError('rateLimit', errorObj);
+    } else {
+      recordError('other', errorObj);
+    }
+    
+    return null;
+  }
+}
+
 /**
  * Fetches file content from GitHub API or falls back to mock data
  * @param {string} filePath - Path to the file
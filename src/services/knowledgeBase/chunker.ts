@@ -0,0 +1,156 @@
+import { CodeSymbol } from '../syntaxParser';
+
+// A slice of a file stored as its own knowledge entry
+export interface FileChunk {
+  content: string;
+  // 1-based and inclusive, overlap included
+  startLine: number;
+  endLine: number;
+  // Innermost symbol containing the whole chunk, e.g. "BillingService.charge"
+  parentSymbol?: string;
+  // Symbols declared in the chunk
+  symbols: string[];
+}
+
+interface LineRange {
+  start: number;
+  end: number;
+}
+
+// ~400 tokens: small enough that several chunks fit in a prompt
+const TARGET_CHUNK_CHARS = 1600;
+// Lines repeated from the end of the previous chunk
+const OVERLAP_LINES = 3;
+// When splitting by size alone, prefer a blank line in the last part of the window
+const BLANK_LINE_SEARCH_FRACTION = 0.3;
+
+/**
+ * Symbols inside a range that are not nested in another symbol inside it
+ */
+function getOutermostSymbols(range: LineRange, symbols: CodeSymbol[]): CodeSymbol[] {
+  const inside = symbols
+    .filter(symbol => symbol.startLine >= range.start && symbol.endLine <= range.end)
+    .sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+
+  const outermost: CodeSymbol[] = [];
+  for (const symbol of inside) {
+    const last = outermost[outermost.length - 1];
+    if (!last || symbol.startLine > last.endLine) {
+      outermost.push(symbol);
+    }
+  }
+  return outermost;
+}
+
+/**
+ * Split a file into pieces along symbol boundaries, descending into classes and
+ * other containers until every piece fits the target size
+ */
+function createChunker(lines: string[]) {
+  // prefix[i] = characters in lines 1..i, newlines included
+  const prefix = [0];
+  lines.forEach((line, index) => prefix.push(prefix[index] + line.length + 1));
+  const size = (range: LineRange) => prefix[range.end] - prefix[range.start - 1];
+
+  const splitBySize = (range: LineRange): LineRange[] => {
+    const pieces: LineRange[] = [];
+    let start = range.start;
+
+    while (start <= range.end) {
+      let end = start;
+      while (end < range.end && size({ start, end: end + 1 }) <= TARGET_CHUNK_CHARS) {
+        end++;
+      }
+
+      if (end < range.end) {
+        const searchFrom = end - Math.floor((end - start) * BLANK_LINE_SEARCH_FRACTION);
+        for (let line = end; line > searchFrom; line--) {
+          if (lines[line - 1].trim() === '') {
+            end = line;
+            break;
+          }
+        }
+      }
+
+      pieces.push({ start, end });
+      start = end + 1;
+    }
+
+    return pieces;
+  };
+
+  const splitRange = (range: LineRange, symbols: CodeSymbol[]): LineRange[] => {
+    if (size(range) <= TARGET_CHUNK_CHARS) return [range];
+
+    const inner = getOutermostSymbols(range, symbols);
+    if (inner.length === 0) return splitBySize(range);
+
+    const pieces: LineRange[] = [];
+    let cursor = range.start;
+    for (const symbol of inner) {
+      if (symbol.startLine > cursor) {
+        pieces.push(...splitRange({ start: cursor, end: symbol.startLine - 1 }, []));
+      }
+      pieces.push(...splitRange(
+        { start: symbol.startLine, end: symbol.endLine },
+        symbols.filter(other => other !== symbol)
+      ));
+      cursor = symbol.endLine + 1;
+    }
+    if (cursor <= range.end) {
+      pieces.push(...splitRange({ start: cursor, end: range.end }, []));
+    }
+
+    return pieces;
+  };
+
+  // Merge neighbouring small pieces, e.g. several short functions, into one chunk
+  const mergePieces = (pieces: LineRange[]): LineRange[] => {
+    const merged: LineRange[] = [];
+    for (const piece of pieces) {
+      const last = merged[merged.length - 1];
+      if (last && size({ start: last.start, end: piece.end }) <= TARGET_CHUNK_CHARS) {
+        last.end = piece.end;
+      } else {
+        merged.push({ ...piece });
+      }
+    }
+    return merged;
+  };
+
+  return { splitRange, mergePieces };
+}
+
+function getSymbolName(symbol: CodeSymbol): string {
+  return symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+}
+
+/**
+ * Split file content into overlapping chunks.
+ * With symbols from the syntax parser, chunks follow function and class boundaries;
+ * without them the file is split by size, preferring blank lines.
+ * Files under the target size stay a single chunk.
+ */
+export function chunkFileContent(content: string, symbols: CodeSymbol[] = []): FileChunk[] {
+  const lines = content.split('\n');
+  const { splitRange, mergePieces } = createChunker(lines);
+  const ranges = mergePieces(splitRange({ start: 1, end: lines.length }, symbols));
+
+  return ranges.map((range, index) => {
+    const start = index > 0 ? Math.max(1, range.start - OVERLAP_LINES) : range.start;
+
+    const parent = symbols
+      .filter(symbol => symbol.startLine <= range.start && symbol.endLine >= range.end)
+      .sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine))[0];
+
+    return {
+      content: lines.slice(start - 1, range.end).join('\n'),
+      startLine: start,
+      endLine: range.end,
+      parentSymbol: parent ? getSymbolName(parent) : undefined,
+      symbols: symbols
+        .filter(symbol => symbol.startLine >= range.start && symbol.startLine <= range.end)
+        .map(getSymbolName)
+    };
+  });
+}
@@ -2,6 +2,7 @@ import { getFileContent, getRepositoryContents } from '../githubConnector';
 import { extractKnowledge, ExtractedKnowledge } from '../codeParser';
 import { KnowledgeEntry } from './types';
 import { extractKeywords } from './keywordUtils';
+import { chunkFileContent } from './chunker';
 
 // Cache for processed files to avoid redundant processing
 const processedFilesCache: Set<string> = new Set();
@@ -33,11 +34,13 @@ export async function processFile(
       return;
     }
     
-    // Store the actual file content for business logic extraction
-    await storeActualFileContent(filePath, content, knowledgeBase);
+    const firstEntryIndex = knowledgeBase.length;
     
     // Extract knowledge
-    const knowledge: ExtractedKnowledge = extractKnowledge(content, filePath);
+    const knowledge: ExtractedKnowledge = await extractKnowledge(content, filePath);
+    
+    // Store the actual file content for business logic extraction
+    await storeActualFileContent(filePath, content, knowledge, knowledgeBase);
     
     // Add meaningful content based on file type
     if (isGhostFile(filePath)) {
@@ -46,6 +49,8 @@ export async function processFile(
       await processGeneralFile(filePath, content, knowledge, knowledgeBase);
     }
     
+    addLineRanges(knowledgeBase.slice(firstEntryIndex), content);
+    
     console.log(`Successfully processed file: ${filePath}`);
   } catch (error) {
     console.error(`Error processing file ${filePath}:`, error);
@@ -53,16 +58,50 @@ export async function processFile(
 }
 
 /**
- * Store the actual file content for business logic extraction
+ * Lines spanned by a part of a file, 1-based and inclusive
+ */
+function getLineRange(content: string, index: number, length: number): { startLine: number; endLine: number } {
+  const countNewlines = (text: string) => (text.match(/\n/g) || []).length;
+  const startLine = countNewlines(content.substring(0, index)) + 1;
+  return { startLine, endLine: startLine + countNewlines(content.substr(index, length)) };
+}
+
+/**
+ * Record the source lines of a file's new entries. Symbols parsed with tree-sitter carry
+ * their own range; other entries are located by their content, or the body of the
+ * function they describe. Entries that can't be located are left without lines.
+ */
+function addLineRanges(entries: KnowledgeEntry[], content: string): void {
+  for (const entry of entries) {
+    if (entry.startLine) continue;
+    
+    if (typeof entry.metadata?.startLine === 'number') {
+      entry.startLine = entry.metadata.startLine;
+      entry.endLine = typeof entry.metadata.endLine === 'number' ? entry.metadata.endLine : entry.metadata.startLine;
+      continue;
+    }
+    
+    const source = content.includes(entry.content) ? entry.content : entry.metadata?.body;
+    const index = typeof source === 'string' && source.trim() ? content.indexOf(source) : -1;
+    if (index !== -1) {
+      Object.assign(entry, getLineRange(content, index, source.length));
+    }
+  }
+}
+
+/**
+ * Store the actual file content for business logic extraction.
+ * Large files are stored as overlapping chunks split along symbol boundaries.
  */
 async function storeActualFileContent(
   filePath: string,
   content: string,
+  knowledge: ExtractedKnowledge,
   knowledgeBase: KnowledgeEntry[]
 ): Promise<void> {
   // Only store content for files that are likely to contain business logic
   const businessLogicFilePatterns = [
-    /\.(js|ts|jsx|tsx|json|yaml|yml|toml|ini|conf|config)$/i,
+    /\.(js|ts|jsx|tsx|py|go|rb|java|php|json|yaml|yml|toml|ini|conf|config)$/i,
     /(config|settings|integration|service|api|webhook|provider|client|connector)/i
   ];
   
@@ -72,19 +111,28 @@ async function storeActualFileContent(
   
   if (isBusinessLogicFile && content.length > 50) {
     // Store the actual file content
-    knowledgeBase.push({
-      type: 'content',
-      content: content, // Store the actual file content
-      filePath,
-      keywords: extractKeywords(content),
-      metadata: {
-        contentType: 'actual-file-content',
-        fileSize: content.length,
-        fileName: filePath.split('/').pop() || filePath
-      }
+    const chunks = chunkFileContent(content, knowledge.symbols);
+    chunks.forEach((chunk, chunkIndex) => {
+      knowledgeBase.push({
+        type: 'content',
+        content: chunk.content,
+        filePath,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        keywords: extractKeywords(`${chunk.content} ${chunk.parentSymbol || ''}`),
+        metadata: {
+          contentType: 'actual-file-content',
+          fileSize: content.length,
+          fileName: filePath.split('/').pop() || filePath,
+          chunkIndex,
+          chunkCount: chunks.length,
+          parentSymbol: chunk.parentSymbol,
+          symbols: chunk.symbols
+        }
+      });
     });
     
-    console.log(`📄 Stored actual content for ${filePath} (${content.length} characters)`);
+    console.log(`📄 Stored actual content for ${filePath} (${content.length} characters, ${chunks.length} chunk${chunks.length === 1 ? '' : 's'})`);
     
     // Also store a summary for easier searching
     const contentSummary = generateContentSummary(content, filePath);
@@ -363,7 +411,7 @@ async function processGeneralFile(
   
   // Add function definitions
   for (const func of knowledge.functions) {
-    const funcContent = `function ${func.name}(${func.params}) { ... }`;
+    const funcContent = `function ${func.parent ? `${func.parent}.` : ''}${func.name}(${func.params}) { ... }`;
     knowledgeBase.push({
       type: 'function',
       content: funcContent,
@@ -422,6 +470,21 @@ async function processGeneralFile(
     }
   }
   
+  // Add interfaces, type aliases, enums and modules found by the syntax parser
+  if (knowledge.symbols) {
+    for (const symbol of knowledge.symbols) {
+      if (!['interface', 'type', 'enum', 'module'].includes(symbol.kind)) continue;
+      
+      knowledgeBase.push({
+        type: 'export',
+        content: `${symbol.kind.charAt(0).toUpperCase()}${symbol.kind.slice(1)}: ${symbol.name}${symbol.parent ? ` in ${symbol.parent}` : ''}`,
+        filePath,
+        metadata: symbol,
+        keywords: extractKeywords(`${symbol.kind} ${symbol.name} ${symbol.doc || ''}`),
+      });
+    }
+  }
+  
   // Add markdown content if available
   if (knowledge.markdownMetadata) {
     const metadata = knowledge.markdownMetadata;
@@ -629,7 +692,7 @@ export async function processModule(
     for (const item of contents) {
       if (item.type === 'file') {
         // Process a wider range of files including markdown and config files
-        const supportedExtensions = ['.js', '.ts', '.tsx', '.jsx', '.md', '.mdx', '.json', '.yml', '.yaml', '.hbs'];
+        const supportedExtensions = ['.js', '.ts', '.tsx', '.jsx', '.py', '.go', '.rb', '.java', '.php', '.md', '.mdx', '.json', '.yml', '.yaml', '.hbs'];
         const hasValidExtension = supportedExtensions.some(ext => item.name.endsWith(ext));
         
         if (hasValidExtension) {
@@ -656,6 +719,13 @@ export function clearProcessedFilesCache(): void {
   processedFilesCache.clear();
 }
 
+/**
+ * Removes a single file from the processing cache so it can be processed again
+ */
+export function forgetProcessedFile(filePath: string): void {
+  processedFilesCache.delete(filePath);
+}
+
 /**
  * Gets the number of processed files
  * @returns {number} Number of processed files
@@ -0,0 +1,343 @@
+// Glossary of domain terms: type names, enum values, constants and i18n strings, each
+// with a one-line definition and the files that define it
+import { KnowledgeEntry } from './types';
+
+export type GlossaryTermKind = 'type' | 'enum' | 'enum-value' | 'constant' | 'i18n';
+
+export interface GlossaryTerm {
+  // As written where it is defined: "SubscriptionTier", "COMP_RATE", "Tier.Pro"
+  term: string;
+  // Lowercased words, one per term: "subscription tier", "comp rate"
+  key: string;
+  definition: string;
+  // Whether the definition was written by people (a doc comment or UI text) rather
+  // than derived from the code
+  documented: boolean;
+  kind: GlossaryTermKind;
+  files: string[];
+  // Other identifiers with the same words, e.g. the enum and the type of the same name
+  aliases: string[];
+  // Members of an enum or string literal union
+  values?: string[];
+}
+
+const MAX_TERMS = 400;
+const MAX_DEFINITION_LENGTH = 160;
+const MAX_VALUES = 12;
+// Files a term lists; a term used everywhere is defined in a few of them
+const MAX_FILES_PER_TERM = 5;
+
+// A declaration with the doc comment or // comment lines right above it
+const DECLARATION_PATTERN = /(?:\/\*\*((?:(?!\*\/)[\s\S])*)\*\/[ \t]*\n|((?:^[ \t]*\/\/.*\n)+))?^[ \t]*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(interface|type|enum|class|const\s+enum|const)\s+([A-Za-z_$][\w$]*)/gm;
+const CONSTANT_NAME_PATTERN = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+$|^[A-Z]{3,}$/;
+const I18N_PATH_PATTERN = /(^|\/)(locales?|i18n|lang|langs|translations?|messages)\/.*\.json$/i;
+// A locale in an i18n path; only English strings are read
+const LOCALE_SEGMENT_PATTERN = /(?:^|[/._-])([a-z]{2})(?:[-_][A-Za-z]{2})?(?=[/.])/g;
+const I18N_STRING_PATTERN = /"([\w.-]+)"\s*:\s*"((?:[^"\\]|\\.){3,240})"/g;
+// Key suffixes of i18n strings that describe a term rather than name it
+const I18N_KEY_SUFFIXES = new Set(['label', 'title', 'description', 'desc', 'tooltip', 'help', 'hint', 'text', 'name', 'heading', 'subtitle', 'placeholder', 'info']);
+// Type suffixes of plumbing rather than domain types
+const PLUMBING_SUFFIXES = /(Props|State|Options|Params|Args|Context|Ref|Callback|Config|Response|Request|Result)$/;
+// Single words too generic to explain or to highlight in answers
+const GENERIC_WORDS = new Set([
+  'props', 'state', 'data', 'config', 'options', 'item', 'items', 'result', 'results', 'value', 'values',
+  'type', 'types', 'error', 'errors', 'response', 'request', 'context', 'params', 'args', 'index', 'default',
+  'app', 'main', 'utils', 'helpers', 'test', 'node', 'entry', 'info', 'status', 'mode', 'key', 'name', 'id',
+  'event', 'events', 'action', 'actions', 'payload', 'input', 'output', 'list', 'map', 'set', 'file', 'files',
+  'page', 'component', 'service', 'handler', 'model', 'base', 'common', 'message', 'text', 'label', 'title'
+]);
+
+const SOURCE_RANK: Record<'doc' | 'i18n' | 'derived', number> = { doc: 3, i18n: 2, derived: 1 };
+
+interface Candidate {
+  term: string;
+  definition: string;
+  source: keyof typeof SOURCE_RANK;
+  kind: GlossaryTermKind;
+  filePath: string;
+  values?: string[];
+}
+
+/**
+ * Words of an identifier or key: "SubscriptionTier" -> "subscription tier",
+ * "COMP_RATE" -> "comp rate", "checkout.promoCode" -> "promo code"
+ */
+export function getTermKey(identifier: string): string {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/[_\-.\s]+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function truncate(text: string): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > MAX_DEFINITION_LENGTH ? `${oneLine.substring(0, MAX_DEFINITION_LENGTH - 3).trim()}...` : oneLine;
+}
+
+/**
+ * First sentence of a doc comment or of // lines, without tags
+ */
+function getCommentSummary(docComment: string | undefined, lineComments: string | undefined): string {
+  const raw = docComment
+    ? docComment.split('\n').map(line => line.replace(/^\s*\*\s?/, '')).filter(line => !line.trim().startsWith('@')).join(' ')
+    : (lineComments || '').split('\n').map(line => line.replace(/^\s*\/\/\s?/, '')).join(' ');
+  const text = raw.replace(/\{@link\s+([^}]+)\}/g, '$1').replace(/\s+/g, ' ').trim();
+  // eslint-disable and similar tool directives aren't explanations
+  if (!text || /^(eslint|@ts-|prettier|istanbul|TODO|FIXME)/i.test(text)) return '';
+  const sentence = text.match(/^.+?[.!?](?=\s|$)/);
+  return truncate(sentence ? sentence[0] : text);
+}
+
+function isDomainTerm(identifier: string): boolean {
+  const key = getTermKey(identifier);
+  return key.length >= 3 && !GENERIC_WORDS.has(key) && !PLUMBING_SUFFIXES.test(identifier);
+}
+
+/**
+ * The declaration after its name: the braced body of interfaces, classes, enums and
+ * object types, otherwise up to the end of the statement
+ */
+function getDeclarationBody(content: string, start: number, keyword: string): string {
+  const rest = content.slice(start, start + 4000);
+  const bracedBody = keyword === 'type' ? /^[^=;]*=\s*\{/.test(rest) : keyword !== 'const';
+  const open = rest.indexOf('{');
+  if (!bracedBody || open === -1) {
+    // A statement ends at a semicolon or at a line that doesn't continue it
+    const end = rest.search(/;|\n(?!\s*[|&])/);
+    return end === -1 ? rest : rest.slice(0, end);
+  }
+
+  let depth = 0;
+  for (let i = open; i < rest.length; i++) {
+    if (rest[i] === '{') depth++;
+    if (rest[i] === '}' && --depth === 0) return rest.slice(0, i + 1);
+  }
+  return rest;
+}
+
+function getEnumMembers(body: string): string[] {
+  const inner = body.slice(body.indexOf('{') + 1, body.lastIndexOf('}'));
+  return inner
+    .replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, '')
+    .split(',')
+    .map(member => member.split('=')[0].trim())
+    .filter(member => /^[A-Za-z_$][\w$]*$/.test(member));
+}
+
+function getLiteralUnion(body: string): string[] {
+  const rhs = body.slice(body.indexOf('=') + 1).trim().replace(/;$/, '');
+  if (!/^\|?\s*(['"][^'"]*['"]\s*\|?\s*)+$/.test(rhs)) return [];
+  return Array.from(rhs.matchAll(/['"]([^'"]*)['"]/g), match => match[1]);
+}
+
+function getFieldNames(body: string): string[] {
+  const inner = body.slice(body.indexOf('{') + 1, body.lastIndexOf('}'));
+  // Top-level fields only: nested object types are skipped
+  const fields: string[] = [];
+  let depth = 0;
+  inner.split('\n').forEach(line => {
+    const field = line.match(/^\s*(?:readonly\s+)?([A-Za-z_$][\w$]*)\??\s*:/);
+    if (depth === 0 && field) fields.push(field[1]);
+    depth += (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
+  });
+  return fields;
+}
+
+/**
+ * Close the brackets a multi-line value leaves open on its first line: "new Set([" ->
+ * "new Set([...])"
+ */
+function closeBrackets(value: string): string {
+  const closing: Record<string, string> = { '[': ']', '(': ')', '{': '}' };
+  const open: string[] = [];
+  for (const char of value) {
+    if (closing[char]) open.push(closing[char]);
+    else if (char === open[open.length - 1]) open.pop();
+  }
+  return open.length > 0 ? `${value}...${open.reverse().join('')}` : value;
+}
+
+function describeDeclaration(
+  keyword: string,
+  name: string,
+  body: string,
+  isComponentFile: boolean
+): Omit<Candidate, 'filePath' | 'source'> | null {
+  if (keyword === 'const') {
+    if (!CONSTANT_NAME_PATTERN.test(name)) return null;
+    const value = closeBrackets(body.slice(body.indexOf('=') + 1).split('\n')[0].trim().replace(/[;,]$/, ''));
+    // Patterns are plumbing; what they match says little about the domain
+    if (!value || /^(\/|new RegExp\b)/.test(value)) return null;
+    return { term: name, kind: 'constant', definition: truncate(`Set to ${value.length > 60 ? `${value.substring(0, 57)}...` : value}`) };
+  }
+
+  if (!isDomainTerm(name)) return null;
+
+  if (keyword === 'enum' || keyword.startsWith('const')) {
+    const members = getEnumMembers(body);
+    return {
+      term: name,
+      kind: 'enum',
+      values: members.slice(0, MAX_VALUES),
+      definition: members.length > 0 ? truncate(`One of: ${members.slice(0, MAX_VALUES).join(', ')}`) : `An enumeration`
+    };
+  }
+
+  if (keyword === 'type') {
+    const literals = getLiteralUnion(body);
+    if (literals.length > 0) {
+      return { term: name, kind: 'type', values: literals.slice(0, MAX_VALUES), definition: truncate(`One of: ${literals.slice(0, MAX_VALUES).join(', ')}`) };
+    }
+  }
+
+  // React components aren't domain vocabulary
+  if (keyword === 'class' && isComponentFile) return null;
+
+  const fields = body.includes('{') ? getFieldNames(body) : [];
+  return {
+    term: name,
+    kind: 'type',
+    definition: fields.length > 0 ? truncate(`Has ${fields.slice(0, 6).join(', ')}${fields.length > 6 ? ', ...' : ''}`) : `A ${keyword === 'class' ? 'class' : 'type'}`
+  };
+}
+
+function extractFromCode(entry: KnowledgeEntry, candidates: Candidate[]): void {
+  const isComponentFile = /\.(tsx|jsx|vue|svelte)$/.test(entry.filePath);
+  for (const match of entry.content.matchAll(DECLARATION_PATTERN)) {
+    const [, docComment, lineComments, keyword, name] = match;
+    const normalizedKeyword = keyword.replace(/\s+/g, ' ');
+    const body = getDeclarationBody(entry.content, (match.index || 0) + match[0].length, normalizedKeyword);
+    const described = describeDeclaration(normalizedKeyword, name, body, isComponentFile);
+    if (!described) continue;
+
+    const summary = getCommentSummary(docComment, lineComments);
+    candidates.push({
+      ...described,
+      definition: summary || described.definition,
+      source: summary ? 'doc' : 'derived',
+      filePath: entry.filePath
+    });
+
+    if (described.kind === 'enum') {
+      described.values?.filter(isDomainTerm).forEach(member => candidates.push({
+        term: `${name}.${member}`,
+        kind: 'enum-value',
+        definition: `A ${name} value (${described.values?.join(', ')})`,
+        source: 'derived',
+        filePath: entry.filePath
+      }));
+    }
+  }
+}
+
+/**
+ * Words an i18n key names: "pricing.tierDescription" -> "tier"
+ */
+function getI18nTermKey(key: string): string {
+  const words = getTermKey(key.split('.').pop() || key).split(' ');
+  while (words.length > 1 && I18N_KEY_SUFFIXES.has(words[words.length - 1])) words.pop();
+  return words.join(' ');
+}
+
+function extractFromI18n(entry: KnowledgeEntry, candidates: Candidate[]): void {
+  const locales = Array.from(entry.filePath.matchAll(LOCALE_SEGMENT_PATTERN), match => match[1]);
+  if (locales.some(locale => locale !== 'en')) return;
+
+  for (const [, key, value] of entry.content.matchAll(I18N_STRING_PATTERN)) {
+    const term = getI18nTermKey(key);
+    if (term.length < 3 || GENERIC_WORDS.has(term) || I18N_KEY_SUFFIXES.has(term)) continue;
+    // A label that only repeats the term doesn't explain it
+    if (getTermKey(value) === term) continue;
+
+    candidates.push({
+      term: key,
+      kind: 'i18n',
+      definition: truncate(value.replace(/\\n/g, ' ').replace(/\\"/g, '"')),
+      source: 'i18n',
+      filePath: entry.filePath
+    });
+  }
+}
+
+/**
+ * Build the glossary from the scanned files, one term per set of words; a documented
+ * definition wins over UI text, UI text over one derived from the code
+ */
+export function buildGlossary(entries: KnowledgeEntry[]): GlossaryTerm[] {
+  const candidates: Candidate[] = [];
+  // The same chunk can be indexed more than once
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const fingerprint = `${entry.filePath}:${entry.content.length}:${entry.content.substring(0, 80)}`;
+    if (seen.has(fingerprint)) continue;
+    seen.add(fingerprint);
+
+    if (I18N_PATH_PATTERN.test(entry.filePath)) {
+      extractFromI18n(entry, candidates);
+    } else if (/\.(ts|tsx|js|jsx|mjs|cjs|vue|svelte)$/.test(entry.filePath)) {
+      extractFromCode(entry, candidates);
+    }
+  }
+
+  const terms = new Map<string, GlossaryTerm & { rank: number }>();
+  for (const candidate of candidates) {
+    const key = candidate.kind === 'i18n' ? getI18nTermKey(candidate.term) : getTermKey(candidate.term);
+    const existing = terms.get(key);
+
+    if (!existing) {
+      terms.set(key, {
+        term: candidate.term,
+        key,
+        definition: candidate.definition,
+        documented: candidate.source !== 'derived',
+        kind: candidate.kind,
+        files: [candidate.filePath],
+        aliases: [],
+        values: candidate.values,
+        rank: SOURCE_RANK[candidate.source]
+      });
+      continue;
+    }
+
+    if (!existing.files.includes(candidate.filePath) && existing.files.length < MAX_FILES_PER_TERM) {
+      existing.files.push(candidate.filePath);
+    }
+    // The identifier from the code names the term, rather than an i18n key
+    if (existing.kind === 'i18n' && candidate.kind !== 'i18n') {
+      existing.aliases.push(existing.term);
+      existing.term = candidate.term;
+      existing.kind = candidate.kind;
+    } else if (candidate.term !== existing.term && !existing.aliases.includes(candidate.term)) {
+      existing.aliases.push(candidate.term);
+    }
+    if (!existing.values && candidate.values) existing.values = candidate.values;
+    // Between two of the same kind, the longer definition usually explains more
+    const rank = SOURCE_RANK[candidate.source];
+    if (rank > existing.rank || (rank === existing.rank && rank > SOURCE_RANK.derived && candidate.definition.length > existing.definition.length)) {
+      existing.definition = candidate.definition;
+      existing.documented = candidate.source !== 'derived';
+      existing.rank = rank;
+    }
+  }
+
+  // Documented terms first when there are too many, then alphabetical
+  const glossary = Array.from(terms.values())
+    .sort((a, b) => b.rank - a.rank || b.files.length - a.files.length)
+    .slice(0, MAX_TERMS)
+    .map(({ rank, ...term }) => term)
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  console.log(`📖 Glossary built: ${glossary.length} terms (${glossary.filter(term => term.documented).length} documented)`);
+  return glossary;
+}
+
+/**
+ * Terms in a glossary by key
+ */
+export function findGlossaryTerm(glossary: GlossaryTerm[], key: string): GlossaryTerm | undefined {
+  const normalized = getTermKey(key);
+  return glossary.find(term => term.key === normalized);
+}
@@ -1,23 +1,29 @@
 import { toast } from "sonner";
-import { KnowledgeEntry, KnowledgeBaseStats } from './types';
+import { KnowledgeEntry, KnowledgeBaseStats, CodebaseProfile } from './types';
 import { mockKnowledgeEntries } from './mockData';
 import { extractKeywords } from './keywordUtils';
 import { getProcessedFileCount, clearProcessedFilesCache } from './fileProcessor';
 import { 
   exploreRepositoryPaths, 
+  rescanRepositoryIncrementally,
+  IncrementalScanResult,
   clearSuccessfulPathPatterns, 
   getExplorationProgress,
   resetExplorationProgress,
   getScanDiagnostics
 } from './pathExplorer';
+import { updateVectorIndex, searchVectorIndex, reciprocalRankFusion, getVectorIndexStatus } from './vectorIndex';
+import { KnowledgeScope, KnowledgeSymbol, filterEntriesToScope, getPinnedEntries, getSymbols } from './scope';
+import { GlossaryTerm, buildGlossary } from './glossary';
 import { 
   getCachedScanData, 
   saveScanDataToCache, 
   shouldScanRepository,
   clearScanCache 
 } from '../scanScheduler';
-import { getActiveRepository } from '../userRepositories';
-import { getConnectionDiagnostics } from '../githubConnector';
+import { getActiveRepository, setActiveRepository, getUserRepositories } from '../userRepositories';
+import { getConnectionDiagnostics, resetConnectionState } from '../githubConnector';
+import { initGithubClient } from '../githubClient';
 
 // Safe JSON serialization to handle circular references
 function safeStringify(obj: unknown, maxDepth: number = 3): string {
@@ -86,7 +92,9 @@ const initializationState = {
   initialized: false,
   fetchConfirmed: false,
   error: null as string | null,
-  lastRepositoryFingerprint: null as string | null
+  lastRepositoryFingerprint: null as string | null,
+  // Commit the knowledge base was scanned at, when the scan used the git tree
+  commitSha: null as string | null
 };
 
 // Dynamic codebase analysis state
@@ -110,6 +118,13 @@ interface CodebaseAnalysis {
   lastAnalysis: number;
 }
 
+// Glossary and the knowledge base it was built from
+let glossaryState: { source: KnowledgeEntry[] | null; size: number; terms: GlossaryTerm[] } = {
+  source: null,
+  size: 0,
+  terms: []
+};
+
 let codebaseAnalysis: CodebaseAnalysis = {
   projectStructure: {
     mainDirectories: [],
@@ -221,11 +236,11 @@ function hasRealRepositoryData(entries: KnowledgeEntry[]): boolean {
 /**
  * Enhanced cache loading with fingerprint validation
  */
-function loadFromCache(): boolean {
+async function loadFromCache(): Promise<boolean> {
   const activeRepo = getActiveRepository();
   if (!activeRepo) return false;
   
-  const cache = getCachedScanData(activeRepo.id);
+  const cache = await getCachedScanData(activeRepo.id);
   if (!cache) return false;
   
   try {
@@ -241,8 +256,10 @@ function loadFromCache(): boolean {
     initializationState.fetchConfirmed = cache.scanData.fetchConfirmed || hasRealData;
     initializationState.lastInitTime = cache.lastScanTime;
     initializationState.lastRepositoryFingerprint = `${activeRepo.owner}/${activeRepo.repo}`;
+    initializationState.commitSha = cache.scanData.commitSha || null;
     
     console.log(`Cache loaded: ${knowledgeBase.length} entries, real data: ${hasRealData}`);
+    refreshVectorIndex();
     
     if (!initializationState.usingMockData) {
       toast.success(`Loaded cached repository data (${knowledgeBase.length} entries)`, {
@@ -254,7 +271,7 @@ function loadFromCache(): boolean {
     return true;
   } catch (error) {
     console.error('Error loading from cache:', error);
-    clearScanCache(activeRepo.id);
+    await clearScanCache(activeRepo.id);
     return false;
   }
 }
@@ -262,7 +279,7 @@ function loadFromCache(): boolean {
 /**
  * Enhanced cache saving with diagnostics
  */
-function saveToCache(): void {
+async function saveToCache(): Promise<void> {
   const activeRepo = getActiveRepository();
   if (!activeRepo) return;
   
@@ -274,11 +291,32 @@ function saveToCache(): void {
     fetchConfirmed: initializationState.fetchConfirmed,
     processedFiles: getProcessedFileCount(),
     scannedFiles: diagnostics.scannedFiles,
-    repositoryFingerprint: diagnostics.repositoryFingerprint
+    repositoryFingerprint: diagnostics.repositoryFingerprint,
+    treeSha: diagnostics.treeSha,
+    commitSha: diagnostics.commitSha,
+    fileShas: diagnostics.fileShas
   };
   
-  saveScanDataToCache(activeRepo.id, scanData);
+  initializationState.commitSha = diagnostics.commitSha;
+  repositoryKnowledgeCache.delete(activeRepo.id);
+  const saved = await saveScanDataToCache(activeRepo.id, scanData);
+  if (!saved) {
+    console.warn(`Cache not saved: ${knowledgeBase.length} entries will be rescanned on next load`);
+    refreshVectorIndex();
+    return;
+  }
   console.log(`Cache saved: ${knowledgeBase.length} entries, ${diagnostics.scannedFiles.length} files`);
+  refreshVectorIndex();
+}
+
+/**
+ * Embed new or changed entries for the active repository in the background
+ */
+function refreshVectorIndex(): void {
+  const activeRepo = getActiveRepository();
+  if (!activeRepo) return;
+  
+  updateVectorIndex([...knowledgeBase], activeRepo.id);
 }
 
 /**
@@ -308,7 +346,7 @@ export async function initializeKnowledgeBase(forceRefresh: boolean = false): Pr
     clearSuccessfulPathPatterns();
     
     // Try to load from cache first
-    if (loadFromCache()) {
+    if (await loadFromCache()) {
       console.log('✅ Loaded knowledge base from cache');
       return;
     }
@@ -326,7 +364,7 @@ export async function initializeKnowledgeBase(forceRefresh: boolean = false): Pr
         await analyzeCodebase(knowledgeBase);
         
         // Save to cache
-        saveToCache();
+        await saveToCache();
         
         initializationState.usingMockData = false;
         initializationState.initialized = true;
@@ -372,6 +410,24 @@ export async function initializeKnowledgeBase(forceRefresh: boolean = false): Pr
   }
 }
 
+/**
+ * Make another connected repository active and load its knowledge base,
+ * from its own scan cache when it has one
+ * @returns False if the repository id is unknown
+ */
+export async function switchActiveRepository(repositoryId: string): Promise<boolean> {
+  const repo = setActiveRepository(repositoryId);
+  if (!repo) return false;
+  
+  console.log(`🔀 Switching to repository ${repo.owner}/${repo.repo}`);
+  initGithubClient(repo.token);
+  resetConnectionState();
+  resetExplorationProgress();
+  
+  await initializeKnowledgeBase(true);
+  return true;
+}
+
 /**
  * Enhanced semantic keyword matching for UI-related terms
  */
@@ -565,7 +621,7 @@ function getContentAnalysisScore(content: string, keywords: string[]): number {
 /**
  * Quick codebase detector to determine optimal patterns
  */
-function detectCodebaseType(knowledgeBase: KnowledgeEntry[]): 'ghost' | 'react' | 'nextjs' | 'vue' | 'generic' {
+function detectCodebaseType(knowledgeBase: KnowledgeEntry[]): CodebaseProfile['type'] {
   const paths = knowledgeBase.map(entry => entry.filePath.toLowerCase());
   const content = knowledgeBase.map(entry => entry.content.toLowerCase()).join(' ');
   
@@ -976,8 +1032,16 @@ function getDynamicScoringBonus(entry: KnowledgeEntry, keywords: string[], inten
 
 /**
  * Enhanced search with Ghost optimization, universal fallbacks, and business logic extraction
+ * @param limit Maximum number of results to return
  */
-export function searchKnowledge(query: string): KnowledgeEntry[] {
+export function searchKnowledge(query: string, limit: number = 20): KnowledgeEntry[] {
+  return searchEntries(knowledgeBase, query, limit);
+}
+
+/**
+ * Keyword-score a set of knowledge entries against a query
+ */
+function searchEntries(entries: KnowledgeEntry[], query: string, limit: number): KnowledgeEntry[] {
   const originalKeywords = extractKeywords(query);
   
   if (originalKeywords.length === 0) {
@@ -1004,14 +1068,14 @@ export function searchKnowledge(query: string): KnowledgeEntry[] {
   console.log(`🎯 Detected query intent: ${queryIntent}`);
   
   // Detect codebase type for adaptive patterns
-  const codebaseType = detectCodebaseType(knowledgeBase);
+  const codebaseType = detectCodebaseType(entries);
   console.log(`🏗️ Detected codebase type: ${codebaseType}`);
   
-  console.log(`🔍 Enhanced search: ${originalKeywords.join(', ')} across ${knowledgeBase.length} entries`);
+  console.log(`🔍 Enhanced search: ${originalKeywords.join(', ')} across ${entries.length} entries`);
   console.log(`📊 Using mock data: ${initializationState.usingMockData}`);
   
   // Enhanced scoring algorithm with Ghost optimization and universal fallbacks
-  const scoredEntries = knowledgeBase.map(entry => {
+  const scoredEntries = entries.map(entry => {
     let score = 0;
     
     // Use expanded keywords for file content matching
@@ -1117,7 +1181,7 @@ export function searchKnowledge(query: string): KnowledgeEntry[] {
   const results = scoredEntries
     .filter(item => item.score > 0.02) // Lower threshold for better recall
     .sort((a, b) => b.score - a.score)
-    .slice(0, 20) // Increase result limit
+    .slice(0, limit)
     .map(item => {
       // Log significant boosts for debugging
       if (item.boosts.path > 1.5 || item.boosts.content > 2.0) {
@@ -1126,7 +1190,7 @@ export function searchKnowledge(query: string): KnowledgeEntry[] {
         console.log(`   - Path boost: ${item.boosts.path.toFixed(2)}x`);
         console.log(`   - Content boost: +${item.boosts.content.toFixed(2)}`);
       }
-      return item.entry;
+      return { ...item.entry, score: item.score, matchScores: { keyword: item.score } };
     });
   
   console.log(`✅ Enhanced search found ${results.length} results`);
@@ -1135,11 +1199,166 @@ export function searchKnowledge(query: string): KnowledgeEntry[] {
   return results;
 }
 
+// Candidates taken from each ranking before fusing
+const HYBRID_CANDIDATE_COUNT = 50;
+
+/**
+ * Hybrid search: keyword scoring and vector similarity merged with reciprocal rank fusion.
+ * Falls back to keyword results alone while no vector index is available.
+ * @param scope - Only search the mentioned files, folders and symbols
+ */
+export async function searchKnowledgeHybrid(query: string, limit: number = 20, scope?: KnowledgeScope): Promise<KnowledgeEntry[]> {
+  const activeRepo = getActiveRepository();
+  if (!activeRepo) {
+    return scope ? searchEntries(filterEntriesToScope(knowledgeBase, scope), query, limit) : searchKnowledge(query, limit);
+  }
+  
+  const entries = scope ? filterEntriesToScope(knowledgeBase, scope) : knowledgeBase;
+  if (scope) {
+    console.log(`📌 Search limited to ${entries.length} of ${knowledgeBase.length} entries`);
+  }
+  return searchEntriesHybrid(entries, activeRepo.id, query, limit);
+}
+
+/**
+ * Entries of the active repository to put into an answer's context for mentions
+ */
+export function getPinnedKnowledge(scope: KnowledgeScope): KnowledgeEntry[] {
+  return getPinnedEntries(knowledgeBase, scope);
+}
+
+/**
+ * All entries of the active repository's knowledge base
+ */
+export function getKnowledgeEntries(): KnowledgeEntry[] {
+  return knowledgeBase;
+}
+
+/**
+ * Functions and classes of the active repository, for #symbol mentions
+ */
+export function getKnowledgeSymbols(): KnowledgeSymbol[] {
+  return getSymbols(knowledgeBase);
+}
+
+/**
+ * Domain terms of the active repository, rebuilt when the knowledge base changes
+ */
+export function getGlossary(): GlossaryTerm[] {
+  if (glossaryState.source !== knowledgeBase || glossaryState.size !== knowledgeBase.length) {
+    glossaryState = { source: knowledgeBase, size: knowledgeBase.length, terms: buildGlossary(knowledgeBase) };
+  }
+  return glossaryState.terms;
+}
+
+/**
+ * Files of the active repository: the last scan's file list, or the files in the
+ * knowledge base when it was loaded from cache
+ */
+export function getKnowledgeFilePaths(): string[] {
+  const scannedFiles = getScanDiagnostics().scannedFiles;
+  if (scannedFiles.length > 0) return scannedFiles;
+  return Array.from(new Set(knowledgeBase.map(entry => entry.filePath)));
+}
+
+/**
+ * Hybrid search over one repository's entries
+ */
+async function searchEntriesHybrid(
+  entries: KnowledgeEntry[],
+  repositoryId: string,
+  query: string,
+  limit: number
+): Promise<KnowledgeEntry[]> {
+  const keywordResults = searchEntries(entries, query, HYBRID_CANDIDATE_COUNT);
+  
+  let vectorResults: KnowledgeEntry[] = [];
+  try {
+    vectorResults = await searchVectorIndex(query, entries, repositoryId, HYBRID_CANDIDATE_COUNT);
+  } catch (error) {
+    console.error('Vector search failed, using keyword results only:', error);
+  }
+  
+  if (vectorResults.length === 0) {
+    return keywordResults.slice(0, limit);
+  }
+  
+  const results = reciprocalRankFusion([keywordResults, vectorResults]).slice(0, limit);
+  console.log(`🧭 Hybrid search fused ${keywordResults.length} keyword and ${vectorResults.length} vector candidates into ${results.length} results`);
+  
+  return results;
+}
+
+// A repository's knowledge base and the commit it was scanned at
+interface RepositoryKnowledge {
+  entries: KnowledgeEntry[];
+  commitSha: string | null;
+}
+
+// Knowledge bases of non-active repositories, loaded from their scan caches on demand
+const repositoryKnowledgeCache = new Map<string, RepositoryKnowledge>();
+
+/**
+ * Get a connected repository's knowledge base without making it active
+ */
+async function getRepositoryKnowledge(repositoryId: string): Promise<RepositoryKnowledge> {
+  if (getActiveRepository()?.id === repositoryId) {
+    return { entries: knowledgeBase, commitSha: initializationState.commitSha };
+  }
+  
+  const cached = repositoryKnowledgeCache.get(repositoryId);
+  if (cached) return cached;
+  
+  const cache = await getCachedScanData(repositoryId);
+  const repositoryKnowledge: RepositoryKnowledge = {
+    entries: cache?.scanData?.knowledgeBase || [],
+    commitSha: cache?.scanData?.commitSha || null
+  };
+  if (repositoryKnowledge.entries.length > 0) {
+    repositoryKnowledgeCache.set(repositoryId, repositoryKnowledge);
+  }
+  return repositoryKnowledge;
+}
+
+/**
+ * Search several connected repositories at once. Each repository is searched on its
+ * own, the per-repository rankings are merged with reciprocal rank fusion, and every
+ * result is tagged with the repository it came from.
+ * Repositories that have never been scanned are skipped.
+ */
+export async function searchAcrossRepositories(
+  query: string,
+  repositoryIds: string[],
+  limit: number = 20,
+  scope?: KnowledgeScope
+): Promise<KnowledgeEntry[]> {
+  const repositories = getUserRepositories().filter(repo => repositoryIds.includes(repo.id));
+  
+  const rankings = await Promise.all(repositories.map(async repo => {
+    const { entries, commitSha } = await getRepositoryKnowledge(repo.id);
+    if (entries.length === 0) {
+      console.log(`🔀 Skipping ${repo.owner}/${repo.repo}: not scanned yet`);
+      return [];
+    }
+    
+    const results = await searchEntriesHybrid(scope ? filterEntriesToScope(entries, scope) : entries, repo.id, query, limit);
+    console.log(`🔀 ${repo.owner}/${repo.repo}: ${results.length} results`);
+    
+    return results.map(entry => ({
+      ...entry,
+      repository: { id: repo.id, owner: repo.owner, repo: repo.repo, commitSha: commitSha || undefined }
+    }));
+  }));
+  
+  return reciprocalRankFusion(rankings).slice(0, limit);
+}
+
 /**
  * Clear the knowledge base
  */
 export function clearKnowledgeBase(): void {
   knowledgeBase = [];
+  initializationState.commitSha = null;
   clearProcessedFilesCache();
   clearSuccessfulPathPatterns();
 }
@@ -1163,6 +1382,14 @@ export function getKnowledgeBaseStats(): KnowledgeBaseStats {
   };
 }
 
+/**
+ * Get the commit the active knowledge base was scanned at
+ * @returns {string|null} Commit SHA, or null for mock data and directory-by-directory scans
+ */
+export function getScannedCommitSha(): string | null {
+  return initializationState.usingMockData ? null : initializationState.commitSha;
+}
+
 /**
  * Check if we're using mock data or real data
  * @returns {boolean} True if using mock data
@@ -1195,12 +1422,14 @@ export function getEnhancedDiagnostics(): {
   usingMockData: boolean;
   lastScanDiagnostics: ReturnType<typeof getScanDiagnostics>;
   initializationState: typeof initializationState;
+  vectorIndex: ReturnType<typeof getVectorIndexStatus>;
 } {
   return {
     knowledgeBaseSize: knowledgeBase.length,
     usingMockData: initializationState.usingMockData,
     lastScanDiagnostics: getScanDiagnostics(),
-    initializationState: { ...initializationState }
+    initializationState: { ...initializationState },
+    vectorIndex: getVectorIndexStatus(getActiveRepository()?.id)
   };
 }
 
@@ -1240,8 +1469,6 @@ async function analyzeCodebase(knowledgeBase: KnowledgeEntry[]): Promise<void> {
   };
   
   // Extract patterns from file paths and content
-  const technologyStack = new Set<string>();
-  
   for (const entry of knowledgeBase) {
     // Extract directory structure
     const pathParts = entry.filePath.split('/');
@@ -1257,22 +1484,11 @@ async function analyzeCodebase(knowledgeBase: KnowledgeEntry[]): Promise<void> {
     if (extension && !codebaseAnalysis.projectStructure.fileExtensions.includes(extension)) {
       codebaseAnalysis.projectStructure.fileExtensions.push(extension);
     }
-    
-    // Detect technology stack
-    if (entry.content.includes('import React') || entry.content.includes('from react')) {
-      technologyStack.add('react');
-    }
-    if (entry.content.includes('import Vue') || entry.content.includes('from vue')) {
-      technologyStack.add('vue');
-    }
-    if (entry.content.includes('import angular') || entry.content.includes('from angular')) {
-      technologyStack.add('angular');
-    }
-    if (entry.content.includes('from django') || entry.content.includes('django.db')) {
-      technologyStack.add('django');
-    }
   }
   
+  codebaseAnalysis.projectStructure.technologyStack = detectTechnologyStack(knowledgeBase);
+  codebaseAnalysis.projectStructure.commonPatterns = extractCommonPatterns(knowledgeBase);
+  
   // Analyze domain vocabulary
   const allContent = knowledgeBase.map(entry => entry.content).join(' ');
   const words = allContent.toLowerCase()
@@ -1322,12 +1538,49 @@ async function analyzeCodebase(knowledgeBase: KnowledgeEntry[]): Promise<void> {
   
   console.log(`✅ Codebase analysis complete:`);
   console.log(`   - Main directories: ${codebaseAnalysis.projectStructure.mainDirectories.join(', ')}`);
-  console.log(`   - Technology stack: ${Array.from(technologyStack).join(', ')}`);
+  console.log(`   - Technology stack: ${codebaseAnalysis.projectStructure.technologyStack.join(', ')}`);
   console.log(`   - File extensions: ${codebaseAnalysis.projectStructure.fileExtensions.join(', ')}`);
   console.log(`   - Common terms: ${codebaseAnalysis.domainVocabulary.commonTerms.slice(0, 10).join(', ')}`);
   console.log(`   - Domain keywords: ${codebaseAnalysis.domainVocabulary.domainKeywords.slice(0, 10).join(', ')}`);
 }
 
+/**
+ * Frameworks the code imports
+ */
+function detectTechnologyStack(knowledgeBase: KnowledgeEntry[]): string[] {
+  const technologyStack = new Set<string>();
+  
+  for (const entry of knowledgeBase) {
+    if (entry.content.includes('import React') || entry.content.includes('from react')) {
+      technologyStack.add('react');
+    }
+    if (entry.content.includes('import Vue') || entry.content.includes('from vue')) {
+      technologyStack.add('vue');
+    }
+    if (entry.content.includes('import angular') || entry.content.includes('from angular')) {
+      technologyStack.add('angular');
+    }
+    if (entry.content.includes('from django') || entry.content.includes('django.db')) {
+      technologyStack.add('django');
+    }
+  }
+  
+  return Array.from(technologyStack);
+}
+
+/**
+ * What kind of codebase the active repository is and the patterns it uses, read from
+ * the knowledge base as it is now
+ */
+export function getCodebaseProfile(): CodebaseProfile {
+  return {
+    type: detectCodebaseType(knowledgeBase),
+    technologyStack: detectTechnologyStack(knowledgeBase),
+    componentPatterns: extractComponentPatterns(knowledgeBase),
+    commonPatterns: extractCommonPatterns(knowledgeBase)
+  };
+}
+
 /**
  * Extract common patterns from the codebase
  */
@@ -1565,7 +1818,10 @@ function getContentRelevanceScore(content: string, keywords: string[]): number {
 }
 
 // Re-export types for external use
-export type { KnowledgeEntry, KnowledgeBaseStats } from './types';
+export type { KnowledgeEntry, KnowledgeBaseStats, CodebaseProfile } from './types';
+export type { IncrementalScanResult } from './pathExplorer';
+export type { KnowledgeScope, KnowledgeSymbol } from './scope';
+export type { GlossaryTerm, GlossaryTermKind } from './glossary';
 
 /**
  * Test function to verify Ghost subtitle functionality and universality
@@ -3702,16 +3958,88 @@ export async function testContentExtraction(): Promise<void> {
 }
 
 /**
- * Clear all caches and force a complete re-scan of the repository
- * This is useful when the cached data contains placeholder content instead of actual file content
+ * Rescan only the files whose git blob SHA changed since the last scan.
+ * Uses the in-memory scan when it belongs to the active repository, otherwise the cached one.
+ * Returns null when there are no recorded SHAs or the git tree can't be fetched.
  */
-export async function forceRepositoryRescan(): Promise<void> {
+async function rescanChangedFiles(): Promise<IncrementalScanResult | null> {
+  const activeRepo = getActiveRepository();
+  if (!activeRepo) return null;
+  
+  const fingerprint = `${activeRepo.owner}/${activeRepo.repo}`;
+  const diagnostics = getScanDiagnostics();
+  let baseEntries: KnowledgeEntry[] | null = null;
+  let previousShas: Record<string, string> = {};
+  
+  if (!initializationState.usingMockData &&
+      initializationState.lastRepositoryFingerprint === fingerprint &&
+      Object.keys(diagnostics.fileShas).length > 0) {
+    baseEntries = knowledgeBase;
+    previousShas = diagnostics.fileShas;
+  } else {
+    const cache = await getCachedScanData(activeRepo.id);
+    if (cache?.scanData?.knowledgeBase && cache.scanData.fileShas) {
+      baseEntries = cache.scanData.knowledgeBase;
+      previousShas = cache.scanData.fileShas;
+    }
+  }
+  
+  if (!baseEntries || Object.keys(previousShas).length === 0) {
+    console.log('No recorded file SHAs, incremental rescan not possible');
+    return null;
+  }
+  
+  // Work on a copy so a failed rescan leaves the current knowledge base untouched
+  const workingKnowledgeBase = [...baseEntries];
+  const result = await rescanRepositoryIncrementally(workingKnowledgeBase, previousShas);
+  if (!result) return null;
+  
+  knowledgeBase = workingKnowledgeBase;
+  
+  // Force a fresh analysis of the updated entries
+  codebaseAnalysis.lastAnalysis = 0;
+  await analyzeCodebase(knowledgeBase);
+  
+  initializationState.usingMockData = false;
+  initializationState.initialized = true;
+  initializationState.fetchConfirmed = true;
+  initializationState.lastInitTime = Date.now();
+  initializationState.lastRepositoryFingerprint = fingerprint;
+  
+  await saveToCache();
+  
+  return result;
+}
+
+/**
+ * Rescan the repository, re-processing only files that changed since the last scan.
+ * Falls back to clearing all caches and running a complete re-scan when no previous
+ * file SHAs are available, or when fullRescan is requested (useful when the cached
+ * data contains placeholder content instead of actual file content).
+ */
+export async function forceRepositoryRescan(
+  options: { fullRescan?: boolean } = {}
+): Promise<IncrementalScanResult | null> {
+  if (!options.fullRescan) {
+    console.log('🔄 Starting incremental repository re-scan...');
+    
+    try {
+      const result = await rescanChangedFiles();
+      if (result) {
+        console.log(`✅ Incremental re-scan complete: ${result.added.length} added, ${result.changed.length} changed, ${result.deleted.length} deleted`);
+        return result;
+      }
+    } catch (error) {
+      console.error('❌ Incremental re-scan failed, falling back to full re-scan:', error);
+    }
+  }
+  
   console.log('🔄 Starting forced repository re-scan...');
   
   try {
     // Clear all caches
     clearProcessedFilesCache();
-    clearScanCache();
+    await clearScanCache();
     clearSuccessfulPathPatterns();
     resetExplorationProgress();
     
@@ -3720,6 +4048,7 @@ export async function forceRepositoryRescan(): Promise<void> {
       const keys = Object.keys(localStorage);
       const cacheKeys = keys.filter(key => 
         key.includes('unfold_scan_cache') || 
+        key.includes('unfold_scan_meta') || 
         key.includes('knowledge_base') ||
         key.includes('processed_files')
       );
@@ -3742,6 +4071,7 @@ export async function forceRepositoryRescan(): Promise<void> {
     await initializeKnowledgeBase(true);
     
     console.log('✅ Forced repository re-scan complete');
+    return null;
   } catch (error) {
     console.error('❌ Error during forced repository re-scan:', error);
     throw error;
@@ -3776,6 +4106,7 @@ export function getComprehensiveScanDiagnostics(): {
     const keys = Object.keys(localStorage);
     const cacheKeys = keys.filter(key => 
       key.includes('unfold_scan_cache') || 
+      key.includes('unfold_scan_meta') || 
       key.includes('knowledge_base')
     );
     
@@ -3867,7 +4198,7 @@ export async function testUniversalScanning(): Promise<{
   try {
     // Clear all caches first
     clearProcessedFilesCache();
-    clearScanCache();
+    await clearScanCache();
     clearSuccessfulPathPatterns();
     resetExplorationProgress();
     
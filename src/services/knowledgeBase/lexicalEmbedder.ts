@@ -0,0 +1,74 @@
+/**
+ * Built-in lexical embedder used when the configured provider has no embeddings API.
+ * Words (split on camelCase/snake_case, lightly stemmed) and their character
+ * trigrams are hashed into a fixed-size vector, so "billing", "bill" and
+ * "BillingService" land close together without any network calls. It only matches
+ * shared spelling, not meaning: "pause billing" won't find suspendSubscription.
+ */
+
+export const LEXICAL_EMBEDDER_ID = 'lexical:hashed-ngrams-v1';
+
+const DIMENSIONS = 384;
+const WORD_WEIGHT = 1.0;
+const TRIGRAM_WEIGHT = 0.35;
+
+/**
+ * FNV-1a hash of a string
+ */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Strip common English suffixes so inflected forms share a feature
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text into lowercase word tokens, breaking identifiers apart
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1);
+}
+
+/**
+ * Embed a single text into a unit-length vector
+ */
+export function embedLexically(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    // Signed hashing keeps unrelated collisions from always adding up
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[hash % DIMENSIONS] += sign * weight;
+  };
+
+  for (const word of tokenize(text)) {
+    const stemmed = stem(word);
+    addFeature(`w:${stemmed}`, WORD_WEIGHT);
+
+    const padded = `^${stemmed}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
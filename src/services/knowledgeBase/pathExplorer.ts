@@ -1,5 +1,5 @@
-import { getRepositoryContents, getCurrentRepository } from '../githubConnector';
-import { processFile, processModule } from './fileProcessor';
+import { getRepositoryContents, getRepositoryTree, getCurrentRepository, RepositoryTree } from '../githubConnector';
+import { processFile, processModule, forgetProcessedFile } from './fileProcessor';
 import { KnowledgeEntry } from './types';
 
 // Track successful path patterns
@@ -22,9 +22,22 @@ let explorationProgress = {
   scanStartTime: 0,
   scanDuration: 0,
   rateLimitRemaining: null as number | null,
-  connectionErrors: [] as string[]
+  connectionErrors: [] as string[],
+  // Git tree tracking for incremental rescans
+  scanMode: "directory" as "directory" | "tree" | "incremental",
+  treeSha: null as string | null,
+  commitSha: null as string | null,
+  fileShas: {} as Record<string, string>
 };
 
+// Outcome of a rescan driven by git tree SHAs
+export interface IncrementalScanResult {
+  added: string[];
+  changed: string[];
+  deleted: string[];
+  unchanged: number;
+}
+
 // Progress update callback
 let progressUpdateCallback: ((progress: number) => void) | null = null;
 
@@ -132,9 +145,31 @@ export async function exploreRepositoryPaths(knowledgeBase: KnowledgeEntry[]): P
     scanStartTime: Date.now(),
     scanDuration: 0,
     rateLimitRemaining: null,
-    connectionErrors: []
+    connectionErrors: [],
+    scanMode: "directory",
+    treeSha: null,
+    commitSha: null,
+    fileShas: {}
   };
 
+  // Prefer a single git tree request over walking every directory
+  const tree = await getRepositoryTree();
+  if (tree) {
+    try {
+      const result = await applyRepositoryTree(tree, knowledgeBase, {});
+      finishTreeScan(result, tree.files.length);
+      return explorationProgress.filesProcessed > 0;
+    } catch (error) {
+      explorationProgress.status = "error";
+      explorationProgress.error = error instanceof Error ? error.message : "Unknown error";
+      explorationProgress.scanDuration = Date.now() - explorationProgress.scanStartTime;
+      console.error("❌ Error during git tree repository scan:", error);
+      return false;
+    }
+  }
+  
+  console.log(`🔍 Git tree unavailable, falling back to directory-by-directory exploration`);
+
   let hasProcessedAnyFiles = false;
   let totalFilesFound = 0;
   const directoriesToExplore: string[] = [];
@@ -152,7 +187,7 @@ export async function exploreRepositoryPaths(knowledgeBase: KnowledgeEntry[]): P
       // Count total files and identify directories to explore
       for (const item of rootContents) {
         if (item && typeof item === 'object' && 'type' in item && 'name' in item && 'path' in item) {
-          const typedItem = item as { type: string; name: string; path: string };
+          const typedItem = item as { type: string; name: string; path: string; sha?: string };
           
           if (typedItem.type === 'file') {
             totalFilesFound++;
@@ -163,6 +198,7 @@ export async function exploreRepositoryPaths(knowledgeBase: KnowledgeEntry[]): P
                 hasProcessedAnyFiles = true;
                 explorationProgress.filesProcessed++;
                 explorationProgress.scannedFiles.push(typedItem.path);
+                recordFileSha(typedItem.path, typedItem.sha);
               } catch (error) {
                 console.error(`Error processing root file ${typedItem.path}:`, error);
                 explorationProgress.connectionErrors.push(`Root file error: ${error}`);
@@ -278,6 +314,224 @@ export async function exploreRepositoryPaths(knowledgeBase: KnowledgeEntry[]): P
   }
 }
 
+/**
+ * Rescan the repository by comparing its git tree against the blob SHAs recorded at the last scan.
+ * Only added or changed files go through processFile again; entries for deleted files are dropped
+ * from the knowledge base in place. Returns null when the tree can't be fetched, so callers can
+ * fall back to a full scan.
+ */
+export async function rescanRepositoryIncrementally(
+  knowledgeBase: KnowledgeEntry[],
+  previousShas: Record<string, string>
+): Promise<IncrementalScanResult | null> {
+  const repo = getCurrentRepository();
+  if (!repo) {
+    console.log('❌ No repository configured for incremental rescan');
+    return null;
+  }
+  
+  const tree = await getRepositoryTree();
+  if (!tree) {
+    console.log('⚠️ Git tree unavailable, incremental rescan not possible');
+    return null;
+  }
+  
+  console.log(`🚀 Starting incremental rescan for ${repo.owner}/${repo.repo} at tree ${tree.sha.substring(0, 7)}`);
+  
+  explorationProgress = {
+    pathsAttempted: 0,
+    pathsSuccessful: 0,
+    filesProcessed: 0,
+    status: "exploring",
+    progress: 0,
+    error: null,
+    totalAttempts: 0,
+    successfulPaths: 0,
+    scannedFiles: [],
+    repositoryFingerprint: generateRepositoryFingerprint(),
+    totalFilesAvailable: 0,
+    directoriesExplored: [],
+    currentDirectory: "",
+    scanStartTime: Date.now(),
+    scanDuration: 0,
+    rateLimitRemaining: null,
+    connectionErrors: [],
+    scanMode: "incremental",
+    treeSha: null,
+    commitSha: null,
+    fileShas: {}
+  };
+  
+  try {
+    const result = await applyRepositoryTree(tree, knowledgeBase, previousShas);
+    finishTreeScan(result, tree.files.length);
+    return result;
+  } catch (error) {
+    explorationProgress.status = "error";
+    explorationProgress.error = error instanceof Error ? error.message : "Unknown error";
+    explorationProgress.scanDuration = Date.now() - explorationProgress.scanStartTime;
+    console.error("❌ Error during incremental rescan:", error);
+    throw error;
+  }
+}
+
+/**
+ * Bring the knowledge base in line with a git tree, processing only files whose SHA differs
+ * from previousShas. With no previous SHAs this is a full scan driven by the tree listing.
+ */
+async function applyRepositoryTree(
+  tree: RepositoryTree,
+  knowledgeBase: KnowledgeEntry[],
+  previousShas: Record<string, string>
+): Promise<IncrementalScanResult> {
+  if (explorationProgress.scanMode !== "incremental") {
+    explorationProgress.scanMode = "tree";
+  }
+  explorationProgress.treeSha = tree.sha;
+  explorationProgress.commitSha = tree.commitSha;
+  updateProgress(5);
+  
+  const selectedFiles = selectTreeFiles(tree, previousShas);
+  const selectedPaths = new Set(selectedFiles.map(file => file.path));
+  
+  const added: string[] = [];
+  const changed: string[] = [];
+  let unchanged = 0;
+  
+  for (const file of selectedFiles) {
+    const previousSha = previousShas[file.path];
+    if (!previousSha) {
+      added.push(file.path);
+    } else if (previousSha !== file.sha) {
+      changed.push(file.path);
+    } else {
+      unchanged++;
+      explorationProgress.scannedFiles.push(file.path);
+      recordFileSha(file.path, file.sha);
+    }
+  }
+  
+  const deleted = Object.keys(previousShas).filter(path => !selectedPaths.has(path));
+  
+  console.log(`📊 Tree diff: ${added.length} added, ${changed.length} changed, ${deleted.length} deleted, ${unchanged} unchanged`);
+  
+  // Drop stale entries before re-processing so changed files don't leave duplicates behind
+  removeEntriesForFiles(knowledgeBase, new Set([...changed, ...deleted]));
+  
+  const filesToProcess = [...changed, ...added];
+  const shaByPath = new Map(selectedFiles.map(file => [file.path, file.sha]));
+  const directories = new Set<string>();
+  
+  for (let i = 0; i < filesToProcess.length; i++) {
+    const filePath = filesToProcess[i];
+    const dirPath = filePath.includes('/') ? filePath.substring(0, filePath.lastIndexOf('/')) : '';
+    explorationProgress.currentDirectory = dirPath;
+    
+    try {
+      console.log(`📄 Processing file ${i + 1}/${filesToProcess.length}: ${filePath}`);
+      forgetProcessedFile(filePath);
+      await processFile(filePath, knowledgeBase);
+      explorationProgress.filesProcessed++;
+      explorationProgress.scannedFiles.push(filePath);
+      recordFileSha(filePath, shaByPath.get(filePath));
+      if (dirPath) directories.add(dirPath);
+    } catch (error) {
+      console.error(`Error processing file ${filePath}:`, error);
+      explorationProgress.connectionErrors.push(`File error: ${error}`);
+    }
+    
+    updateProgress(10 + Math.round(((i + 1) / filesToProcess.length) * 85));
+  }
+  
+  explorationProgress.directoriesExplored = [...directories];
+  explorationProgress.pathsSuccessful = directories.size;
+  
+  return { added, changed, deleted, unchanged };
+}
+
+/**
+ * Pick the files from a git tree that a directory walk would have scanned, keeping
+ * previously tracked files ahead of new ones so the file limit doesn't evict them
+ */
+function selectTreeFiles(
+  tree: RepositoryTree,
+  previousShas: Record<string, string>
+): RepositoryTree['files'] {
+  const filesPerDirectory: Record<string, number> = {};
+  
+  const candidates = tree.files.filter(file => {
+    const segments = file.path.split('/');
+    const fileName = segments[segments.length - 1];
+    const directories = segments.slice(0, -1);
+    
+    if (!isRelevantFile(fileName, false)) return false;
+    if (directories.length > SCANNING_CONFIG.MAX_RECURSION_DEPTH) return false;
+    
+    // Root directories are always explored; nested ones follow the same rules as the walk
+    return directories.slice(1).every(dir => shouldExploreDirectory(dir, false));
+  });
+  
+  const ordered = sortDirectoriesByImportance(candidates.map(file => file.path));
+  const byPath = new Map(candidates.map(file => [file.path, file]));
+  const tracked = ordered.filter(path => previousShas[path]);
+  const untracked = ordered.filter(path => !previousShas[path]);
+  
+  const selected: RepositoryTree['files'] = [];
+  for (const path of [...tracked, ...untracked]) {
+    if (selected.length >= SCANNING_CONFIG.MAX_FILES_TO_SCAN) break;
+    
+    const dirPath = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+    filesPerDirectory[dirPath] = (filesPerDirectory[dirPath] || 0) + 1;
+    if (filesPerDirectory[dirPath] > SCANNING_CONFIG.MAX_FILES_PER_DIRECTORY) continue;
+    
+    selected.push(byPath.get(path)!);
+  }
+  
+  return selected;
+}
+
+/**
+ * Finalise progress tracking after a tree-driven scan
+ */
+function finishTreeScan(result: IncrementalScanResult, totalFiles: number): void {
+  explorationProgress.scanDuration = Date.now() - explorationProgress.scanStartTime;
+  explorationProgress.totalFilesAvailable = totalFiles;
+  explorationProgress.status = "complete";
+  updateProgress(100);
+  
+  console.log(`🎉 Git tree scan complete (${explorationProgress.scanMode})!`);
+  console.log(`   ⏱️  Duration: ${explorationProgress.scanDuration}ms`);
+  console.log(`   📄 Files processed: ${explorationProgress.filesProcessed}, unchanged: ${result.unchanged}, deleted: ${result.deleted.length}`);
+  console.log(`   📍 Repository: ${explorationProgress.repositoryFingerprint} @ ${explorationProgress.treeSha}`);
+}
+
+/**
+ * Remove every knowledge entry belonging to the given files, mutating the array in place
+ */
+function removeEntriesForFiles(knowledgeBase: KnowledgeEntry[], filePaths: Set<string>): number {
+  if (filePaths.size === 0) return 0;
+  
+  let writeIndex = 0;
+  for (const entry of knowledgeBase) {
+    if (!filePaths.has(entry.filePath)) {
+      knowledgeBase[writeIndex++] = entry;
+    }
+  }
+  
+  const removed = knowledgeBase.length - writeIndex;
+  knowledgeBase.length = writeIndex;
+  return removed;
+}
+
+/**
+ * Remember the blob SHA a file was scanned at
+ */
+function recordFileSha(filePath: string, sha?: string): void {
+  if (sha) {
+    explorationProgress.fileShas[filePath] = sha;
+  }
+}
+
 /**
  * Enhanced recursive directory exploration with better file handling
  */
@@ -325,7 +579,7 @@ async function exploreDirectoryRecursively(
       }
       
       if (item && typeof item === 'object' && 'type' in item && 'name' in item && 'path' in item) {
-        const typedItem = item as { type: string; name: string; path: string };
+        const typedItem = item as { type: string; name: string; path: string; sha?: string };
         
         if (typedItem.type === 'file' && isRelevantFile(typedItem.name, false)) {
           try {
@@ -333,6 +587,7 @@ async function exploreDirectoryRecursively(
             await processFile(typedItem.path, knowledgeBase);
             explorationProgress.filesProcessed++;
             explorationProgress.scannedFiles.push(typedItem.path);
+            recordFileSha(typedItem.path, typedItem.sha);
             filesProcessed++;
           } catch (error) {
             console.error(`Error processing file ${typedItem.path}:`, error);
@@ -443,7 +698,8 @@ function isRelevantFile(fileName: string, isGhostRepo: boolean): boolean {
   
   // Universal relevant extensions
   const relevantExtensions = [
-    '.ts', '.tsx', '.js', '.jsx', '.md', '.json', '.yaml', '.yml',
+    '.ts', '.tsx', '.js', '.jsx', '.py', '.go', '.rb', '.java', '.php',
+    '.md', '.json', '.yaml', '.yml',
     '.vue', '.svelte', '.css', '.scss', '.html', '.xml', '.toml',
     '.ini', '.conf', '.config', '.env'
   ];
@@ -543,7 +799,11 @@ export function resetExplorationProgress(): void {
     scanStartTime: 0,
     scanDuration: 0,
     rateLimitRemaining: null,
-    connectionErrors: []
+    connectionErrors: [],
+    scanMode: "directory",
+    treeSha: null,
+    commitSha: null,
+    fileShas: {}
   };
 }
 
@@ -554,10 +814,16 @@ export function getScanDiagnostics(): {
   scannedFiles: string[];
   pathsSuccessful: number;
   repositoryFingerprint: string | null;
+  treeSha: string | null;
+  commitSha: string | null;
+  fileShas: Record<string, string>;
 } {
   return {
     scannedFiles: [...explorationProgress.scannedFiles],
     pathsSuccessful: explorationProgress.pathsSuccessful,
-    repositoryFingerprint: explorationProgress.repositoryFingerprint
+    repositoryFingerprint: explorationProgress.repositoryFingerprint,
+    treeSha: explorationProgress.treeSha,
+    commitSha: explorationProgress.commitSha,
+    fileShas: { ...explorationProgress.fileShas }
   };
 }
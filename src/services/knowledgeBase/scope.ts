@@ -0,0 +1,122 @@
+// Scoping the knowledge base to mentioned files, folders and symbols
+import { KnowledgeEntry } from './types';
+
+// What a question is limited to; empty lists don't restrict
+export interface KnowledgeScope {
+  files: string[];
+  // Folder paths with a trailing slash
+  folders: string[];
+  // Plain names like "charge" or qualified ones like "BillingService.charge"
+  symbols: string[];
+}
+
+export interface KnowledgeSymbol {
+  // Qualified with its class when it has one, e.g. "BillingService.charge"
+  name: string;
+  kind: 'function' | 'class';
+  filePath: string;
+}
+
+// Chunks pinned for one mention; a large file is pinned from its top
+const MAX_PINNED_PER_MENTION = 6;
+
+export function isScopeEmpty(scope: KnowledgeScope | undefined): boolean {
+  return !scope || (scope.files.length === 0 && scope.folders.length === 0 && scope.symbols.length === 0);
+}
+
+/**
+ * Whether a name refers to a symbol: "charge" matches "BillingService.charge",
+ * "BillingService.charge" only matches itself
+ */
+function matchesSymbol(name: string, symbol: string): boolean {
+  return name === symbol || (!symbol.includes('.') && name.endsWith(`.${symbol}`));
+}
+
+/**
+ * Functions and classes extracted from the scanned files, one per name and file
+ */
+export function getSymbols(entries: KnowledgeEntry[]): KnowledgeSymbol[] {
+  const symbols = new Map<string, KnowledgeSymbol>();
+
+  for (const entry of entries) {
+    const name = entry.metadata?.name;
+    if (typeof name !== 'string' || !name) continue;
+
+    let symbol: KnowledgeSymbol | null = null;
+    if (entry.type === 'function') {
+      const parent = entry.metadata.parent;
+      symbol = { name: parent ? `${parent}.${name}` : name, kind: 'function', filePath: entry.filePath };
+    } else if (entry.content.startsWith('Class: ')) {
+      symbol = { name, kind: 'class', filePath: entry.filePath };
+    }
+
+    if (symbol) {
+      symbols.set(`${symbol.filePath}:${symbol.name}`, symbol);
+    }
+  }
+
+  return Array.from(symbols.values());
+}
+
+/**
+ * Files that define one of the scope's symbols
+ */
+function getSymbolFiles(entries: KnowledgeEntry[], symbols: string[]): Set<string> {
+  return new Set(
+    getSymbols(entries)
+      .filter(symbol => symbols.some(name => matchesSymbol(symbol.name, name)))
+      .map(symbol => symbol.filePath)
+  );
+}
+
+/**
+ * Entries inside the scope: in a mentioned file or folder, or in a file defining a
+ * mentioned symbol
+ */
+export function filterEntriesToScope(entries: KnowledgeEntry[], scope: KnowledgeScope): KnowledgeEntry[] {
+  if (isScopeEmpty(scope)) return entries;
+
+  const files = new Set([...scope.files, ...getSymbolFiles(entries, scope.symbols)]);
+  return entries.filter(entry =>
+    files.has(entry.filePath) || scope.folders.some(folder => entry.filePath.startsWith(folder))
+  );
+}
+
+function isFileContent(entry: KnowledgeEntry): boolean {
+  return entry.metadata?.contentType === 'actual-file-content';
+}
+
+function byLine(a: KnowledgeEntry, b: KnowledgeEntry): number {
+  return (a.startLine ?? 0) - (b.startLine ?? 0);
+}
+
+/**
+ * Content that goes into the answer context whatever the search ranks: a mentioned
+ * file's code in line order, or the code declaring a mentioned symbol. Folders are
+ * too large to pin and are only searched.
+ */
+export function getPinnedEntries(entries: KnowledgeEntry[], scope: KnowledgeScope): KnowledgeEntry[] {
+  const pinned: KnowledgeEntry[] = [];
+
+  for (const file of scope.files) {
+    const inFile = entries.filter(entry => entry.filePath === file);
+    const content = inFile.filter(isFileContent).sort(byLine);
+    pinned.push(...(content.length > 0 ? content : inFile).slice(0, MAX_PINNED_PER_MENTION));
+  }
+
+  for (const symbol of scope.symbols) {
+    const declaring = entries.filter(entry => {
+      if (!isFileContent(entry)) return false;
+      const declared: string[] = entry.metadata.symbols || [];
+      return declared.some(name => matchesSymbol(name, symbol)) ||
+        (typeof entry.metadata.parentSymbol === 'string' && matchesSymbol(entry.metadata.parentSymbol, symbol));
+    }).sort(byLine);
+
+    const definitions = declaring.length > 0
+      ? declaring
+      : entries.filter(entry => getSymbols([entry]).some(found => matchesSymbol(found.name, symbol)));
+    pinned.push(...definitions.slice(0, MAX_PINNED_PER_MENTION));
+  }
+
+  return Array.from(new Set(pinned));
+}
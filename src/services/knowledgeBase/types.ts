@@ -7,6 +7,31 @@ export interface KnowledgeEntry {
   metadata?: Record<string, any>;
   keywords: string[];
   lastUpdated?: string;
+  // 1-based, inclusive lines of the source the entry was taken from
+  startLine?: number;
+  endLine?: number;
+  // Set on results of cross-repository searches
+  repository?: {
+    id: string;
+    owner: string;
+    repo: string;
+    commitSha?: string;
+  };
+  // Relevance to the query, set on search results; comparable only within one result list
+  score?: number;
+  // Scores from each kind of search before rankings were fused, which only reflect rank
+  matchScores?: {
+    keyword?: number;
+    vector?: number;
+  };
+}
+
+// What kind of codebase a repository is, from its scanned files
+export interface CodebaseProfile {
+  type: 'ghost' | 'react' | 'nextjs' | 'vue' | 'generic';
+  technologyStack: string[];
+  componentPatterns: string[];
+  commonPatterns: string[];
 }
 
 // Knowledge base statistics interface
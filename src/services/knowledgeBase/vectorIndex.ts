@@ -0,0 +1,303 @@
+import { KnowledgeEntry } from './types';
+import { embedLexically, LEXICAL_EMBEDDER_ID } from './lexicalEmbedder';
+import { embedTextsWithAI, getAIEmbeddingModelId } from '../aiAnalysis';
+import { getProviderErrorStatus } from '../aiProviders';
+import { isIndexedDBAvailable, loadRepositoryVectors, saveRepositoryVectors } from '../knowledgeStorage';
+
+// Per-repository vector index over knowledge base entries
+interface VectorIndex {
+  repositoryId: string;
+  embedder: string;
+  vectors: Map<string, number[]>;
+}
+
+// Vector indexes used to be kept in localStorage under this key
+const LEGACY_VECTOR_INDEX_KEY = 'unfold_vector_index';
+const EMBEDDING_BATCH_SIZE = 64;
+const MAX_EMBEDDING_CHARS = 2000;
+const EMBEDDING_RETRIES = 3;
+const EMBEDDING_RETRY_DELAY_MS = 1000;
+
+// Statuses meaning the provider has no embeddings endpoint, rather than a failed request
+const MISSING_ENDPOINT_STATUSES = new Set([404, 405, 501]);
+
+// Embedders whose provider turned out to have no embeddings endpoint
+const unsupportedEmbedders = new Set<string>();
+
+// Indexes loaded so far, by repository id
+const vectorIndexes = new Map<string, VectorIndex>();
+let lastUpdatedRepositoryId: string | null = null;
+let pendingUpdate: Promise<void> | null = null;
+
+/**
+ * Stable key for an entry; changes whenever its content changes
+ */
+function getEntryKey(entry: KnowledgeEntry): string {
+  let hash = 5381;
+  for (let i = 0; i < entry.content.length; i++) {
+    hash = ((hash << 5) + hash + entry.content.charCodeAt(i)) | 0;
+  }
+  return `${entry.filePath}:${entry.type}:${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Text sent to the embedder for an entry; the path carries a lot of meaning in code
+ */
+function getEmbeddingText(entry: KnowledgeEntry): string {
+  return `${entry.filePath}\n${entry.content}`.substring(0, MAX_EMBEDDING_CHARS);
+}
+
+/**
+ * Scale a vector to unit length so similarity is a plain dot product
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Load a repository's vector index from IndexedDB
+ */
+async function loadVectorIndex(repositoryId: string): Promise<VectorIndex | null> {
+  localStorage.removeItem(`${LEGACY_VECTOR_INDEX_KEY}_${repositoryId}`);
+  if (!isIndexedDBAvailable()) return null;
+
+  try {
+    const stored = await loadRepositoryVectors<Float32Array>(repositoryId);
+    if (!stored) return null;
+
+    const vectors = new Map<string, number[]>();
+    stored.vectors.forEach((vector, key) => vectors.set(key, Array.from(vector)));
+
+    return { repositoryId, embedder: stored.embedder, vectors };
+  } catch (error) {
+    console.error('Error loading vector index:', error);
+    return null;
+  }
+}
+
+/**
+ * Persist a vector index; it stays usable in memory if saving fails
+ */
+async function saveVectorIndex(index: VectorIndex): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const stored = new Map<string, Float32Array>();
+  index.vectors.forEach((vector, key) => stored.set(key, Float32Array.from(vector)));
+
+  try {
+    await saveRepositoryVectors(index.repositoryId, index.embedder, stored);
+  } catch (error) {
+    console.warn(`Could not persist vector index (${index.vectors.size} vectors), keeping it in memory only:`, error);
+  }
+}
+
+/**
+ * Embedder for the next update: the provider's model, unless it has no embeddings endpoint
+ */
+function getEmbedder(): string {
+  const model = getAIEmbeddingModelId();
+  return model && !unsupportedEmbedders.has(model) ? model : LEXICAL_EMBEDDER_ID;
+}
+
+/**
+ * Whether a failed embedding request is worth retrying: network errors, timeouts,
+ * rate limits and server errors
+ */
+function isTransientError(error: unknown): boolean {
+  const status = getProviderErrorStatus(error);
+  return status === null || status === 408 || status === 429 || (status >= 500 && !MISSING_ENDPOINT_STATUSES.has(status));
+}
+
+/**
+ * Embed a batch of texts with a specific embedder, retrying transient failures with backoff
+ * @returns One vector per text, or null if that embedder is no longer available
+ * @throws The provider's error once retries run out, or straight away if it isn't transient
+ */
+async function embedBatch(texts: string[], embedder: string, retries: number = EMBEDDING_RETRIES): Promise<number[][] | null> {
+  if (embedder === LEXICAL_EMBEDDER_ID) {
+    return texts.map(embedLexically);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await embedTextsWithAI(texts);
+      if (!result || result.model !== embedder) return null;
+      return result.vectors.map(normalize);
+    } catch (error) {
+      if (MISSING_ENDPOINT_STATUSES.has(getProviderErrorStatus(error) ?? 0)) {
+        unsupportedEmbedders.add(embedder);
+        return null;
+      }
+      if (attempt >= retries || !isTransientError(error)) throw error;
+
+      const delay = EMBEDDING_RETRY_DELAY_MS * 2 ** attempt;
+      console.warn(`🧭 Embedding request failed, retrying in ${delay}ms:`, error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+async function runVectorIndexUpdate(
+  entries: KnowledgeEntry[],
+  repositoryId: string,
+  embedder: string
+): Promise<void> {
+  let index = vectorIndexes.get(repositoryId) || await loadVectorIndex(repositoryId);
+
+  // Vectors from different models are not comparable, so switching embedder rebuilds
+  if (!index || index.embedder !== embedder) {
+    index = { repositoryId, embedder, vectors: new Map() };
+  }
+  vectorIndexes.set(repositoryId, index);
+  lastUpdatedRepositoryId = repositoryId;
+
+  const entriesByKey = new Map<string, KnowledgeEntry>();
+  entries.forEach(entry => entriesByKey.set(getEntryKey(entry), entry));
+
+  // Drop vectors for entries that were removed or changed
+  for (const key of Array.from(index.vectors.keys())) {
+    if (!entriesByKey.has(key)) {
+      index.vectors.delete(key);
+    }
+  }
+
+  const missing = Array.from(entriesByKey.entries()).filter(([key]) => !index.vectors.has(key));
+  if (missing.length === 0) {
+    console.log(`🧭 Vector index up to date: ${index.vectors.size} vectors (${embedder})`);
+    return;
+  }
+
+  console.log(`🧭 Embedding ${missing.length} knowledge entries with ${embedder}...`);
+
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    let vectors: number[][] | null;
+    try {
+      vectors = await embedBatch(batch.map(([, entry]) => getEmbeddingText(entry)), embedder);
+    } catch (error) {
+      // Keep what is embedded; the next update only embeds the rest
+      console.error(`Error embedding with ${embedder}, keeping ${index.vectors.size} vectors for the next update:`, error);
+      break;
+    }
+
+    if (!vectors) {
+      const next = getEmbedder();
+      const fallback = next === embedder ? LEXICAL_EMBEDDER_ID : next;
+      console.warn(`🧭 ${embedder} embeddings unavailable, rebuilding vector index with ${fallback}`);
+      return runVectorIndexUpdate(entries, repositoryId, fallback);
+    }
+
+    batch.forEach(([key], batchIndex) => {
+      index.vectors.set(key, vectors[batchIndex]);
+    });
+  }
+
+  await saveVectorIndex(index);
+  console.log(`✅ Vector index updated: ${index.vectors.size} of ${entriesByKey.size} vectors (${embedder})`);
+}
+
+/**
+ * Bring a repository's vector index in line with its knowledge base.
+ * Only new or changed entries are embedded; updates run one at a time.
+ */
+export async function updateVectorIndex(entries: KnowledgeEntry[], repositoryId: string): Promise<void> {
+  while (pendingUpdate) {
+    await pendingUpdate;
+  }
+
+  pendingUpdate = runVectorIndexUpdate(entries, repositoryId, getEmbedder())
+    .catch(error => console.error('Error updating vector index:', error))
+    .finally(() => {
+      pendingUpdate = null;
+    });
+
+  return pendingUpdate;
+}
+
+/**
+ * Rank entries by cosine similarity to the query.
+ * Uses whatever part of the index is ready; entries still being embedded are skipped.
+ */
+export async function searchVectorIndex(
+  query: string,
+  entries: KnowledgeEntry[],
+  repositoryId: string,
+  limit: number
+): Promise<KnowledgeEntry[]> {
+  let index = vectorIndexes.get(repositoryId);
+  if (!index) {
+    index = await loadVectorIndex(repositoryId);
+    if (index) {
+      vectorIndexes.set(repositoryId, index);
+    }
+  }
+  if (!index || index.vectors.size === 0) return [];
+
+  // Searches shouldn't wait on retries; keyword results still come back if this fails
+  let queryVector: number[] | undefined;
+  try {
+    [queryVector] = (await embedBatch([query], index.embedder, 0)) || [];
+  } catch (error) {
+    console.error('Error embedding search query:', error);
+  }
+  if (!queryVector) return [];
+
+  const scored: { entry: KnowledgeEntry; similarity: number }[] = [];
+  entries.forEach(entry => {
+    const vector = index.vectors.get(getEntryKey(entry));
+    if (!vector || vector.length !== queryVector.length) return;
+
+    let similarity = 0;
+    for (let i = 0; i < vector.length; i++) {
+      similarity += vector[i] * queryVector[i];
+    }
+    if (similarity > 0) {
+      scored.push({ entry, similarity });
+    }
+  });
+
+  return scored
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ entry, similarity }) => ({ ...entry, score: similarity, matchScores: { vector: similarity } }));
+}
+
+/**
+ * Merge several rankings with reciprocal rank fusion: score = sum of 1 / (k + rank + 1).
+ * Entries are matched by repository, file and content, and returned with the fused score
+ * and the scores each ranking gave them.
+ */
+export function reciprocalRankFusion(rankings: KnowledgeEntry[][], k: number = 60): KnowledgeEntry[] {
+  const fused = new Map<string, { entry: KnowledgeEntry; score: number }>();
+
+  rankings.forEach(ranking => {
+    ranking.forEach((entry, rank) => {
+      const key = `${entry.repository?.id || ''}:${getEntryKey(entry)}`;
+      const item = fused.get(key) || { entry, score: 0 };
+      item.score += 1 / (k + rank + 1);
+      if (entry.matchScores && item.entry !== entry) {
+        item.entry = { ...item.entry, matchScores: { ...item.entry.matchScores, ...entry.matchScores } };
+      }
+      fused.set(key, item);
+    });
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ entry, score }) => ({ ...entry, score }));
+}
+
+/**
+ * Get vector index status for diagnostics
+ * @param repositoryId Repository to report on; defaults to the most recently updated index
+ */
+export function getVectorIndexStatus(repositoryId?: string): { repositoryId: string | null; embedder: string | null; vectors: number; updating: boolean } {
+  const index = vectorIndexes.get(repositoryId || lastUpdatedRepositoryId || '');
+  return {
+    repositoryId: index?.repositoryId || null,
+    embedder: index?.embedder || null,
+    vectors: index?.vectors.size || 0,
+    updating: pendingUpdate !== null
+  };
+}
@@ -1,50 +1,33 @@
-import { searchKnowledge } from './knowledgeBase';
+import { searchKnowledgeHybrid, searchAcrossRepositories, KnowledgeScope } from './knowledgeBase';
 import { fetchCommitHistory } from './githubClient';
 import { getCurrentRepository } from './githubConnector';
 
-// Store search history to provide context for future queries
-let searchHistory: { query: string, timestamp: number }[] = [];
-const MAX_HISTORY_LENGTH = 10;
-
 // Cache for file last updated information
 const lastUpdatedCache: Record<string, string> = {};
 
-/**
- * Records a search query in search history
- * @param {string} query - Search query to record
- */
-function recordSearch(query: string): void {
-  searchHistory.unshift({
-    query,
-    timestamp: Date.now()
-  });
-  
-  // Keep history limited to reasonable size
-  if (searchHistory.length > MAX_HISTORY_LENGTH) {
-    searchHistory.pop();
-  }
-}
-
 /**
  * Gets the last updated date for a file from GitHub API
  * @param {string} filePath - File path
+ * @param {Object} [repository] - Repository the file belongs to, defaults to the active one
  * @returns {Promise<string>} Last updated date or 'Unknown'
  */
-async function getLastUpdatedDate(filePath: string): Promise<string> {
+async function getLastUpdatedDate(filePath: string, repository?: { owner: string; repo: string }): Promise<string> {
+  const repo = repository || getCurrentRepository();
+  const cacheKey = repo ? `${repo.owner}/${repo.repo}:${filePath}` : filePath;
+  
   // Return from cache if available
-  if (lastUpdatedCache[filePath]) {
-    return lastUpdatedCache[filePath];
+  if (lastUpdatedCache[cacheKey]) {
+    return lastUpdatedCache[cacheKey];
   }
   
   try {
-    const repo = getCurrentRepository();
     if (!repo) {
       return 'Unknown';
     }
     
     const history = await fetchCommitHistory(repo.owner, repo.repo, filePath, 1);
     if (history && history.length > 0) {
-      lastUpdatedCache[filePath] = history[0].date;
+      lastUpdatedCache[cacheKey] = history[0].date;
       return history[0].date;
     }
     
@@ -56,29 +39,23 @@ async function getLastUpdatedDate(filePath: string): Promise<string> {
 }
 
 /**
- * Searches the knowledge base with history context
+ * Searches the knowledge base and adds version history to the results
  * @param {string} query - Search query
+ * @param {string[]} [repositoryIds] - Search across these repositories instead of only the active one
+ * @param {KnowledgeScope} [scope] - Only search the mentioned files, folders and symbols
  * @returns {Promise<Array>} Enhanced search results with version information
  */
-export async function searchKnowledgeWithHistory(query: string): Promise<Array<any>> {
-  // Record this search
-  recordSearch(query);
-  
-  // Combine current query with recent history for context
-  const contextualizedQuery = [
-    query,
-    ...searchHistory
-      .slice(1, 3)  // Use only 2 most recent queries for context
-      .map(item => item.query)
-  ].join(' ');
-  
-  // Get base results from knowledge base
-  const results = searchKnowledge(contextualizedQuery);
+export async function searchKnowledgeWithHistory(query: string, repositoryIds?: string[], scope?: KnowledgeScope): Promise<Array<any>> {
+  // Follow-ups arrive already rewritten into standalone questions (see conversation.ts),
+  // so earlier searches are not mixed into this one
+  const results = repositoryIds && repositoryIds.length > 1
+    ? await searchAcrossRepositories(query, repositoryIds, 20, scope)
+    : await searchKnowledgeHybrid(query, 20, scope);
   
   // Enhance results with version information
   const enhancedResults = await Promise.all(
     results.map(async (result) => {
-      const lastUpdated = await getLastUpdatedDate(result.filePath);
+      const lastUpdated = await getLastUpdatedDate(result.filePath, result.repository);
       return { ...result, lastUpdated };
     })
   );
@@ -106,9 +83,8 @@ export async function getLastUpdatedText(filePath: string): Promise<string> {
 }
 
 /**
- * Clears search history and caches
+ * Clears cached version information
  */
 export function clearSearchHistory(): void {
-  searchHistory = [];
   Object.keys(lastUpdatedCache).forEach(key => delete lastUpdatedCache[key]);
 }
@@ -0,0 +1,187 @@
+// IndexedDB storage for scanned repositories: one database per repository with
+// object stores for knowledge entries, file SHAs, scan metadata and vectors.
+
+const DATABASE_PREFIX = 'unfold_kb';
+const DATABASE_VERSION = 1;
+
+const ENTRIES_STORE = 'entries';
+const FILE_SHAS_STORE = 'fileShas';
+const METADATA_STORE = 'metadata';
+const VECTORS_STORE = 'vectors';
+
+const SCAN_METADATA_KEY = 'scan';
+
+// A stored scan: entries and file SHAs live in their own stores, everything else in metadata
+export interface StoredRepositoryScan {
+  metadata: Record<string, unknown>;
+  entries: unknown[];
+  fileShas: Record<string, string>;
+}
+
+/**
+ * Check whether IndexedDB can be used in this browser
+ */
+export function isIndexedDBAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined';
+  } catch (e) {
+    return false;
+  }
+}
+
+function getDatabaseName(repositoryId: string): string {
+  return `${DATABASE_PREFIX}_${repositoryId}`;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Open (creating on first use) the database for a repository
+ */
+function openRepositoryDatabase(repositoryId: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(getDatabaseName(repositoryId), DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      [ENTRIES_STORE, FILE_SHAS_STORE, METADATA_STORE, VECTORS_STORE].forEach(storeName => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName);
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`IndexedDB for ${repositoryId} is blocked by another tab`));
+  });
+}
+
+/**
+ * Run a callback against a repository database and close it afterwards
+ */
+async function withRepositoryDatabase<T>(repositoryId: string, callback: (db: IDBDatabase) => Promise<T>): Promise<T> {
+  const db = await openRepositoryDatabase(repositoryId);
+  try {
+    return await callback(db);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load a repository's stored scan
+ * @returns The scan, or null if nothing has been stored for this repository
+ */
+export async function loadRepositoryScan(repositoryId: string): Promise<StoredRepositoryScan | null> {
+  return withRepositoryDatabase(repositoryId, async db => {
+    const transaction = db.transaction([ENTRIES_STORE, FILE_SHAS_STORE, METADATA_STORE], 'readonly');
+
+    const metadata = await requestToPromise(
+      transaction.objectStore(METADATA_STORE).get(SCAN_METADATA_KEY)
+    ) as Record<string, unknown> | undefined;
+    if (!metadata) return null;
+
+    const entries = await requestToPromise(transaction.objectStore(ENTRIES_STORE).getAll());
+
+    const shaStore = transaction.objectStore(FILE_SHAS_STORE);
+    const [paths, shas] = await Promise.all([
+      requestToPromise(shaStore.getAllKeys()),
+      requestToPromise(shaStore.getAll())
+    ]);
+    const fileShas: Record<string, string> = {};
+    paths.forEach((path, index) => {
+      fileShas[String(path)] = shas[index];
+    });
+
+    return { metadata, entries, fileShas };
+  });
+}
+
+/**
+ * Replace a repository's stored scan
+ */
+export async function saveRepositoryScan(repositoryId: string, scan: StoredRepositoryScan): Promise<void> {
+  await withRepositoryDatabase(repositoryId, async db => {
+    const transaction = db.transaction([ENTRIES_STORE, FILE_SHAS_STORE, METADATA_STORE], 'readwrite');
+    const entriesStore = transaction.objectStore(ENTRIES_STORE);
+    const shaStore = transaction.objectStore(FILE_SHAS_STORE);
+    const metadataStore = transaction.objectStore(METADATA_STORE);
+
+    entriesStore.clear();
+    scan.entries.forEach((entry, index) => entriesStore.put(entry, index));
+
+    shaStore.clear();
+    Object.entries(scan.fileShas).forEach(([path, sha]) => shaStore.put(sha, path));
+
+    metadataStore.put(scan.metadata, SCAN_METADATA_KEY);
+
+    await transactionDone(transaction);
+  });
+}
+
+/**
+ * Load every stored vector for a repository along with the embedder that produced them
+ */
+export async function loadRepositoryVectors<T>(repositoryId: string): Promise<{ embedder: string; vectors: Map<string, T> } | null> {
+  return withRepositoryDatabase(repositoryId, async db => {
+    const transaction = db.transaction([VECTORS_STORE, METADATA_STORE], 'readonly');
+
+    const embedder = await requestToPromise(
+      transaction.objectStore(METADATA_STORE).get(VECTORS_STORE)
+    ) as string | undefined;
+    if (!embedder) return null;
+
+    const vectorStore = transaction.objectStore(VECTORS_STORE);
+    const [keys, values] = await Promise.all([
+      requestToPromise(vectorStore.getAllKeys()),
+      requestToPromise(vectorStore.getAll())
+    ]);
+
+    const vectors = new Map<string, T>();
+    keys.forEach((key, index) => vectors.set(String(key), values[index]));
+    return { embedder, vectors };
+  });
+}
+
+/**
+ * Replace every stored vector for a repository
+ */
+export async function saveRepositoryVectors<T>(repositoryId: string, embedder: string, vectors: Map<string, T>): Promise<void> {
+  await withRepositoryDatabase(repositoryId, async db => {
+    const transaction = db.transaction([VECTORS_STORE, METADATA_STORE], 'readwrite');
+    const vectorStore = transaction.objectStore(VECTORS_STORE);
+
+    vectorStore.clear();
+    vectors.forEach((vector, key) => vectorStore.put(vector, key));
+    transaction.objectStore(METADATA_STORE).put(embedder, VECTORS_STORE);
+
+    await transactionDone(transaction);
+  });
+}
+
+/**
+ * Delete everything stored for a repository
+ */
+export async function deleteRepositoryStorage(repositoryId: string): Promise<void> {
+  await requestToPromise(indexedDB.deleteDatabase(getDatabaseName(repositoryId)));
+}
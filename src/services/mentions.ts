@@ -0,0 +1,182 @@
+// Mentions in questions: @path/to/file, @folder/ and #symbolName pin that code into the
+// answer context and limit the search to it
+import { getKnowledgeFilePaths, getKnowledgeSymbols, KnowledgeScope } from './knowledgeBase';
+
+export type MentionKind = 'file' | 'folder' | 'symbol';
+
+export interface Mention {
+  kind: MentionKind;
+  // Path, folder path with a trailing slash, or symbol name
+  value: string;
+}
+
+export interface MentionSuggestion extends Mention {
+  // File or folder of the suggestion, shown next to it
+  detail?: string;
+}
+
+// The mention being typed at the cursor
+export interface MentionToken {
+  trigger: '@' | '#';
+  query: string;
+  start: number;
+  end: number;
+}
+
+// @ or # at the start or after whitespace, so emails and issue numbers are left alone
+const MENTION_PATTERN = /(^|\s)(@[\w./-]+|#[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)?)/g;
+const TOKEN_AT_CURSOR_PATTERN = /(?:^|\s)([@#][\w./$-]*)$/;
+
+function getFolders(files: string[]): string[] {
+  const folders = new Set<string>();
+  files.forEach(file => {
+    const parts = file.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      folders.add(`${parts.slice(0, i).join('/')}/`);
+    }
+  });
+  return Array.from(folders);
+}
+
+/**
+ * Resolve a typed @path against the scanned files; unknown paths are not mentions
+ */
+function resolvePath(path: string, files: string[]): Mention | null {
+  const trimmed = path.replace(/^\.?\//, '');
+  if (!trimmed) return null;
+
+  if (!trimmed.endsWith('/') && files.includes(trimmed)) {
+    return { kind: 'file', value: trimmed };
+  }
+  const folder = trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+  if (files.some(file => file.startsWith(folder))) {
+    return { kind: 'folder', value: folder };
+  }
+  return null;
+}
+
+/**
+ * Find the mentions in a question
+ * @returns The mentions, the scope they limit the search to, and the question with each
+ * mention replaced by the plain path or name
+ */
+export function parseMentions(question: string): { text: string; mentions: Mention[]; scope: KnowledgeScope } {
+  const files = getKnowledgeFilePaths();
+  const symbolNames = new Set(getKnowledgeSymbols().map(symbol => symbol.name));
+  const symbolBaseNames = new Set(Array.from(symbolNames, name => name.split('.').pop() as string));
+  const mentions: Mention[] = [];
+
+  const text = question.replace(MENTION_PATTERN, (match, prefix: string, token: string) => {
+    // A path can end a sentence; the period is not part of it
+    const value = token.slice(1).replace(/\.+$/, '');
+    const suffix = token.slice(1 + value.length);
+    const mention: Mention | null = token.startsWith('@')
+      ? resolvePath(value, files)
+      : symbolNames.has(value) || symbolBaseNames.has(value) ? { kind: 'symbol', value } : null;
+
+    if (!mention) return match;
+    if (!mentions.some(existing => existing.kind === mention.kind && existing.value === mention.value)) {
+      mentions.push(mention);
+    }
+    return `${prefix}${mention.value}${suffix}`;
+  });
+
+  if (mentions.length > 0) {
+    console.log(`📌 Question mentions ${mentions.map(mention => `${mention.kind} ${mention.value}`).join(', ')}`);
+  }
+
+  return {
+    text,
+    mentions,
+    scope: {
+      files: mentions.filter(mention => mention.kind === 'file').map(mention => mention.value),
+      folders: mentions.filter(mention => mention.kind === 'folder').map(mention => mention.value),
+      symbols: mentions.filter(mention => mention.kind === 'symbol').map(mention => mention.value)
+    }
+  };
+}
+
+/**
+ * The @ or # mention the cursor is in, if any
+ */
+export function getMentionAtCursor(value: string, cursor: number): MentionToken | null {
+  const match = value.slice(0, cursor).match(TOKEN_AT_CURSOR_PATTERN);
+  if (!match) return null;
+
+  const token = match[1];
+  return {
+    trigger: token[0] as MentionToken['trigger'],
+    query: token.slice(1),
+    start: cursor - token.length,
+    end: cursor
+  };
+}
+
+/**
+ * Rank names against what was typed: a match at the start of the last segment first,
+ * then anywhere, shorter names before longer ones
+ */
+function rankMatches<T>(items: T[], query: string, getName: (item: T) => string, limit: number): T[] {
+  const lowerQuery = query.toLowerCase();
+
+  return items
+    .map(item => {
+      const name = getName(item).toLowerCase();
+      const lastSegment = name.replace(/\/$/, '').split(/[/.]/).pop() || name;
+      const rank = lastSegment.startsWith(lowerQuery) ? 0 : name.startsWith(lowerQuery) ? 1 : name.includes(lowerQuery) ? 2 : -1;
+      return { item, rank, length: name.length };
+    })
+    .filter(ranked => ranked.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.length - b.length)
+    .slice(0, limit)
+    .map(ranked => ranked.item);
+}
+
+/**
+ * Files and folders for @, functions and classes for #
+ */
+export function getMentionSuggestions(token: MentionToken, limit: number = 8): MentionSuggestion[] {
+  if (token.trigger === '#') {
+    return rankMatches(getKnowledgeSymbols(), token.query, symbol => symbol.name, limit)
+      .map(symbol => ({ kind: 'symbol', value: symbol.name, detail: symbol.filePath }));
+  }
+
+  const files = getKnowledgeFilePaths();
+  const paths: MentionSuggestion[] = [
+    ...getFolders(files).map(folder => ({ kind: 'folder' as const, value: folder })),
+    ...files.map(file => ({ kind: 'file' as const, value: file }))
+  ];
+
+  // Inside a folder only its direct children are offered, to browse level by level
+  const slash = token.query.lastIndexOf('/');
+  if (slash >= 0) {
+    const folder = token.query.slice(0, slash + 1);
+    const children = paths.filter(path => {
+      if (!path.value.startsWith(folder) || path.value === folder) return false;
+      const rest = path.value.slice(folder.length).replace(/\/$/, '');
+      return !rest.includes('/');
+    });
+    return rankMatches(children, token.query.slice(slash + 1), path => path.value.slice(folder.length), limit);
+  }
+
+  return rankMatches(paths, token.query, path => path.value, limit);
+}
+
+/**
+ * Replace the mention being typed with a suggestion
+ * @returns The new input value and where the cursor goes
+ */
+export function applyMentionSuggestion(
+  value: string,
+  token: MentionToken,
+  suggestion: MentionSuggestion
+): { value: string; cursor: number } {
+  // Folders stay open so their contents are suggested next
+  const rest = value.slice(token.end).replace(/^\S*/, '');
+  const space = suggestion.kind === 'folder' || /^\s/.test(rest) ? '' : ' ';
+  const inserted = `${token.trigger}${suggestion.value}${space}`;
+  return {
+    value: value.slice(0, token.start) + inserted + rest,
+    cursor: token.start + inserted.length
+  };
+}
@@ -1,4 +1,10 @@
 import { getActiveRepository } from './userRepositories';
+import {
+  isIndexedDBAvailable,
+  loadRepositoryScan,
+  saveRepositoryScan,
+  deleteRepositoryStorage
+} from './knowledgeStorage';
 
 // Cache duration: 2 weeks in milliseconds
 const SCAN_CACHE_DURATION = 14 * 24 * 60 * 60 * 1000;
@@ -10,7 +16,18 @@ interface ScanCache {
   version: string; // For cache invalidation if needed
 }
 
+// Small per-repository record kept in localStorage so scan scheduling can be checked
+// synchronously; the scan itself lives in IndexedDB and is only loaded when needed
+interface ScanCacheMetadata {
+  repositoryId: string;
+  lastScanTime: number;
+  version: string;
+  entryCount: number;
+}
+
+// Legacy key: whole scans used to be stored here, which failed past ~5MB
 const SCAN_CACHE_KEY = 'unfold_scan_cache';
+const SCAN_METADATA_KEY = 'unfold_scan_meta';
 const CACHE_VERSION = '1.0';
 
 // Safe JSON serialization to handle circular references
@@ -60,27 +77,148 @@ function safeStringify(obj: unknown): string {
 }
 
 /**
- * Get cached scan data for a repository
+ * Check whether a cache record has expired or was written by another cache version
  */
-export function getCachedScanData(repositoryId: string): ScanCache | null {
+function isCacheStale(lastScanTime: number, version: string): boolean {
+  const isExpired = (Date.now() - lastScanTime) > SCAN_CACHE_DURATION;
+  return isExpired || version !== CACHE_VERSION;
+}
+
+function writeScanMetadata(metadata: ScanCacheMetadata): void {
+  try {
+    localStorage.setItem(`${SCAN_METADATA_KEY}_${metadata.repositoryId}`, JSON.stringify(metadata));
+  } catch (error) {
+    console.error('Error saving scan metadata:', error);
+  }
+}
+
+/**
+ * Read a scan cache left in localStorage by earlier versions
+ */
+function readLegacyScanCache(repositoryId: string): ScanCache | null {
   try {
     const cacheString = localStorage.getItem(`${SCAN_CACHE_KEY}_${repositoryId}`);
-    if (!cacheString) return null;
+    return cacheString ? JSON.parse(cacheString) : null;
+  } catch (error) {
+    console.error('Error reading legacy scan cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the scan cache metadata for a repository without loading the scan itself
+ */
+export function getScanCacheMetadata(repositoryId: string): ScanCacheMetadata | null {
+  try {
+    const metadataString = localStorage.getItem(`${SCAN_METADATA_KEY}_${repositoryId}`);
+    let metadata: ScanCacheMetadata | null = metadataString ? JSON.parse(metadataString) : null;
+    
+    // A legacy cache that hasn't been migrated yet still counts as a scan
+    if (!metadata) {
+      const legacy = readLegacyScanCache(repositoryId);
+      if (legacy) {
+        metadata = {
+          repositoryId,
+          lastScanTime: legacy.lastScanTime,
+          version: legacy.version,
+          entryCount: legacy.scanData?.knowledgeBase?.length || 0
+        };
+      }
+    }
+    
+    if (!metadata || isCacheStale(metadata.lastScanTime, metadata.version)) {
+      return null;
+    }
     
-    const cache: ScanCache = JSON.parse(cacheString);
+    return metadata;
+  } catch (error) {
+    console.error('Error reading scan metadata:', error);
+    return null;
+  }
+}
+
+/**
+ * Move a localStorage scan cache into IndexedDB
+ */
+async function migrateLegacyScanCache(repositoryId: string): Promise<ScanCache | null> {
+  const legacy = readLegacyScanCache(repositoryId);
+  if (!legacy) return null;
+  
+  const legacyKey = `${SCAN_CACHE_KEY}_${repositoryId}`;
+  if (isCacheStale(legacy.lastScanTime, legacy.version)) {
+    localStorage.removeItem(legacyKey);
+    return null;
+  }
+  
+  console.log(`Migrating scan cache for repository ${repositoryId} to IndexedDB`);
+  // Only drop the old copy once the new one is stored; a failed write keeps it for next time
+  await writeScanCache(legacy);
+  localStorage.removeItem(legacyKey);
+  return legacy;
+}
+
+/**
+ * Store a scan cache in IndexedDB and record its metadata
+ */
+async function writeScanCache(cache: ScanCache): Promise<void> {
+  // Round-trip through JSON to drop anything IndexedDB can't clone
+  const { knowledgeBase = [], fileShas = {}, ...rest } = JSON.parse(safeStringify(cache.scanData) || '{}');
+  
+  await saveRepositoryScan(cache.repositoryId, {
+    metadata: {
+      ...rest,
+      lastScanTime: cache.lastScanTime,
+      version: cache.version
+    },
+    entries: knowledgeBase,
+    fileShas
+  });
+  
+  writeScanMetadata({
+    repositoryId: cache.repositoryId,
+    lastScanTime: cache.lastScanTime,
+    version: cache.version,
+    entryCount: knowledgeBase.length
+  });
+}
+
+/**
+ * Get cached scan data for a repository, loading it from IndexedDB
+ */
+export async function getCachedScanData(repositoryId: string): Promise<ScanCache | null> {
+  if (!isIndexedDBAvailable()) {
+    console.warn('IndexedDB unavailable, scan cache disabled');
+    return null;
+  }
+  
+  try {
+    const stored = await loadRepositoryScan(repositoryId);
+    if (!stored) {
+      return await migrateLegacyScanCache(repositoryId);
+    }
     
-    // Check if cache is valid (not expired and correct version)
-    const now = Date.now();
-    const isExpired = (now - cache.lastScanTime) > SCAN_CACHE_DURATION;
-    const isValidVersion = cache.version === CACHE_VERSION;
+    const { lastScanTime, version, ...scanData } = stored.metadata as {
+      lastScanTime: number;
+      version: string;
+      [key: string]: unknown;
+    };
     
-    if (isExpired || !isValidVersion) {
-      // Remove expired or invalid cache
-      localStorage.removeItem(`${SCAN_CACHE_KEY}_${repositoryId}`);
+    // Remove expired or invalid cache
+    if (isCacheStale(lastScanTime, version)) {
+      await clearScanCache(repositoryId);
       return null;
     }
     
-    return cache;
+    return {
+      repositoryId,
+      lastScanTime,
+      version,
+      scanData: {
+        ...scanData,
+        knowledgeBase: stored.entries,
+        fileShas: stored.fileShas
+      }
+    };
   } catch (error) {
     console.error('Error reading scan cache:', error);
     return null;
@@ -90,16 +228,18 @@ export function getCachedScanData(repositoryId: string): ScanCache | null {
 /**
  * Save scan data to cache
  */
-export function saveScanDataToCache(repositoryId: string, scanData: any): boolean {
+export async function saveScanDataToCache(repositoryId: string, scanData: any): Promise<boolean> {
+  if (!isIndexedDBAvailable()) {
+    return false;
+  }
+  
   try {
-    const cache: ScanCache = {
+    await writeScanCache({
       repositoryId,
       lastScanTime: Date.now(),
       scanData,
       version: CACHE_VERSION
-    };
-    
-    localStorage.setItem(`${SCAN_CACHE_KEY}_${repositoryId}`, safeStringify(cache));
+    });
     console.log(`Scan data cached for repository ${repositoryId}`);
     return true;
   } catch (error) {
@@ -115,8 +255,8 @@ export function shouldScanRepository(repositoryId?: string): boolean {
   const repoId = repositoryId || getActiveRepository()?.id;
   if (!repoId) return true; // No repository, should scan when one is available
   
-  const cache = getCachedScanData(repoId);
-  return cache === null; // Should scan if no valid cache exists
+  const metadata = getScanCacheMetadata(repoId);
+  return metadata === null; // Should scan if no valid cache exists
 }
 
 /**
@@ -126,10 +266,10 @@ export function getTimeUntilNextScan(repositoryId?: string): number | null {
   const repoId = repositoryId || getActiveRepository()?.id;
   if (!repoId) return null;
   
-  const cache = getCachedScanData(repoId);
-  if (!cache) return 0; // Should scan now
+  const metadata = getScanCacheMetadata(repoId);
+  if (!metadata) return 0; // Should scan now
   
-  const nextScanTime = cache.lastScanTime + SCAN_CACHE_DURATION;
+  const nextScanTime = metadata.lastScanTime + SCAN_CACHE_DURATION;
   const timeUntilScan = nextScanTime - Date.now();
   
   return Math.max(0, timeUntilScan);
@@ -138,11 +278,21 @@ export function getTimeUntilNextScan(repositoryId?: string): number | null {
 /**
  * Clear scan cache for a repository
  */
-export function clearScanCache(repositoryId?: string): void {
+export async function clearScanCache(repositoryId?: string): Promise<void> {
   const repoId = repositoryId || getActiveRepository()?.id;
   if (!repoId) return;
   
   localStorage.removeItem(`${SCAN_CACHE_KEY}_${repoId}`);
+  localStorage.removeItem(`${SCAN_METADATA_KEY}_${repoId}`);
+  
+  if (isIndexedDBAvailable()) {
+    try {
+      await deleteRepositoryStorage(repoId);
+    } catch (error) {
+      console.error('Error clearing scan cache:', error);
+    }
+  }
+  
   console.log(`Scan cache cleared for repository ${repoId}`);
 }
 
@@ -171,6 +321,6 @@ export function getLastScanDate(repositoryId?: string): Date | null {
   const repoId = repositoryId || getActiveRepository()?.id;
   if (!repoId) return null;
   
-  const cache = getCachedScanData(repoId);
-  return cache ? new Date(cache.lastScanTime) : null;
+  const metadata = getScanCacheMetadata(repoId);
+  return metadata ? new Date(metadata.lastScanTime) : null;
 }
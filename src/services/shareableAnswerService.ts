@@ -1,6 +1,7 @@
 /**
  * Service for handling shareable answer creation and retrieval
  */
+import { ConfidenceBreakdown } from './answerConfidence';
 
 interface Reference {
   filePath: string;
@@ -9,11 +10,19 @@ interface Reference {
   lastUpdated?: string;
   author?: string;
   authorEmail?: string;
+  repository?: {
+    owner: string;
+    repo: string;
+    commitSha?: string;
+  };
+  citation?: number;
+  cited?: boolean;
 }
 
 interface VisualContext {
-  type: 'flowchart' | 'component' | 'state';
+  type: 'flowchart' | 'component' | 'state' | 'sequence' | 'er';
   syntax: string;
+  title?: string;
 }
 
 export interface ShareableAnswer {
@@ -22,6 +31,7 @@ export interface ShareableAnswer {
   answer: {
     text: string;
     confidence: number;
+    confidenceBreakdown?: ConfidenceBreakdown;
     references: Reference[];
     lastUpdated?: string;
     visualContext?: VisualContext;
@@ -197,6 +207,7 @@ export async function createShareableAnswer(
   answer: {
     text: string;
     confidence: number;
+    confidenceBreakdown?: ConfidenceBreakdown;
     references: Reference[];
     visualContext?: VisualContext;
   }
@@ -212,6 +223,7 @@ export async function createShareableAnswer(
     answer: {
       text: answer.text,
       confidence: answer.confidence,
+      confidenceBreakdown: answer.confidenceBreakdown,
       references: answer.references || [],
       lastUpdated: new Date().toISOString(),
       visualContext: answer.visualContext
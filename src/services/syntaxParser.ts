@@ -0,0 +1,343 @@
+// Syntax-tree parsing with tree-sitter WASM grammars. Produces symbols (functions,
+// methods, classes, interfaces, ...) with accurate line ranges; codeParser falls
+// back to its regular expressions for languages that have no grammar here.
+import Parser from 'web-tree-sitter';
+import treeSitterWasmUrl from 'web-tree-sitter/tree-sitter.wasm?url';
+import typescriptWasmUrl from 'tree-sitter-wasms/out/tree-sitter-typescript.wasm?url';
+import tsxWasmUrl from 'tree-sitter-wasms/out/tree-sitter-tsx.wasm?url';
+import javascriptWasmUrl from 'tree-sitter-wasms/out/tree-sitter-javascript.wasm?url';
+import pythonWasmUrl from 'tree-sitter-wasms/out/tree-sitter-python.wasm?url';
+import goWasmUrl from 'tree-sitter-wasms/out/tree-sitter-go.wasm?url';
+import rubyWasmUrl from 'tree-sitter-wasms/out/tree-sitter-ruby.wasm?url';
+import javaWasmUrl from 'tree-sitter-wasms/out/tree-sitter-java.wasm?url';
+import phpWasmUrl from 'tree-sitter-wasms/out/tree-sitter-php.wasm?url';
+
+export type CodeSymbolKind = 'function' | 'method' | 'class' | 'struct' | 'interface' | 'type' | 'enum' | 'module';
+
+export interface CodeSymbol {
+  name: string;
+  kind: CodeSymbolKind;
+  params: string;
+  body: string;
+  // 1-based and inclusive; decorators and export keywords are part of the range
+  startLine: number;
+  endLine: number;
+  // Enclosing class, struct or module
+  parent?: string;
+  extends?: string | null;
+  doc?: string;
+}
+
+export interface ParsedSource {
+  language: string;
+  symbols: CodeSymbol[];
+  // Whether doc comments are /** */ blocks, which codeParser already collects
+  blockDocComments: boolean;
+}
+
+interface LanguageSpec {
+  grammarUrl: string;
+  // Declaration node types and the kind of symbol each one produces
+  declarations: Record<string, CodeSymbolKind>;
+  usesBlockDocs: boolean;
+}
+
+const JS_DECLARATIONS: Record<string, CodeSymbolKind> = {
+  function_declaration: 'function',
+  generator_function_declaration: 'function',
+  method_definition: 'method',
+  class_declaration: 'class',
+  abstract_class_declaration: 'class',
+  interface_declaration: 'interface',
+  type_alias_declaration: 'type',
+  enum_declaration: 'enum'
+};
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  typescript: { grammarUrl: typescriptWasmUrl, declarations: JS_DECLARATIONS, usesBlockDocs: true },
+  tsx: { grammarUrl: tsxWasmUrl, declarations: JS_DECLARATIONS, usesBlockDocs: true },
+  javascript: { grammarUrl: javascriptWasmUrl, declarations: JS_DECLARATIONS, usesBlockDocs: true },
+  python: {
+    grammarUrl: pythonWasmUrl,
+    declarations: { function_definition: 'function', class_definition: 'class' },
+    usesBlockDocs: false
+  },
+  go: {
+    grammarUrl: goWasmUrl,
+    declarations: { function_declaration: 'function', method_declaration: 'method', type_spec: 'type' },
+    usesBlockDocs: false
+  },
+  ruby: {
+    grammarUrl: rubyWasmUrl,
+    declarations: { method: 'method', singleton_method: 'method', class: 'class', module: 'module' },
+    usesBlockDocs: false
+  },
+  java: {
+    grammarUrl: javaWasmUrl,
+    declarations: {
+      method_declaration: 'method',
+      constructor_declaration: 'method',
+      class_declaration: 'class',
+      record_declaration: 'class',
+      interface_declaration: 'interface',
+      enum_declaration: 'enum'
+    },
+    usesBlockDocs: true
+  },
+  php: {
+    grammarUrl: phpWasmUrl,
+    declarations: {
+      function_definition: 'function',
+      method_declaration: 'method',
+      class_declaration: 'class',
+      interface_declaration: 'interface',
+      trait_declaration: 'module'
+    },
+    usesBlockDocs: true
+  }
+};
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  tsx: 'tsx',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  go: 'go',
+  rb: 'ruby',
+  java: 'java',
+  php: 'php'
+};
+
+// Nodes that wrap a declaration and belong to its range
+const WRAPPER_NODE_TYPES = new Set(['export_statement', 'decorated_definition']);
+// Statements that also belong to the range when they hold a single declaration
+const SINGLE_DECLARATION_NODE_TYPES = new Set(['lexical_declaration', 'variable_declaration', 'type_declaration']);
+// Symbols that other symbols can be nested in
+const CONTAINER_KINDS = new Set<CodeSymbolKind>(['class', 'struct', 'interface', 'module']);
+
+const MAX_PARSE_CHARS = 500000;
+const MAX_BODY_CHARS = 1000;
+const PARSE_TIMEOUT_MICROS = 2000000;
+
+let parserInit: Promise<boolean> | null = null;
+const languageCache = new Map<string, Promise<Parser.Language | null>>();
+
+/**
+ * Get the grammar name for a file, or null when there is no grammar for it
+ */
+export function getSyntaxLanguage(filePath: string): string | null {
+  const extension = filePath.split('.').pop()?.toLowerCase() || '';
+  return LANGUAGE_BY_EXTENSION[extension] || null;
+}
+
+/**
+ * Initialise the tree-sitter runtime once; false if WASM can't be loaded here
+ */
+function initParser(): Promise<boolean> {
+  if (!parserInit) {
+    parserInit = Parser.init({ locateFile: () => treeSitterWasmUrl })
+      .then(() => true)
+      .catch(error => {
+        console.warn('🌳 tree-sitter unavailable, using regex parsing:', error);
+        return false;
+      });
+  }
+  return parserInit;
+}
+
+function loadLanguage(language: string): Promise<Parser.Language | null> {
+  if (!languageCache.has(language)) {
+    languageCache.set(
+      language,
+      Parser.Language.load(LANGUAGES[language].grammarUrl).catch(error => {
+        console.warn(`🌳 Could not load the ${language} grammar, using regex parsing:`, error);
+        return null;
+      })
+    );
+  }
+  return languageCache.get(language);
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parameter list without its surrounding parentheses
+ */
+function getParams(node: Parser.SyntaxNode): string {
+  const params = node.childForFieldName('parameters');
+  if (!params) return '';
+  return collapseWhitespace(params.text.replace(/^\(([\s\S]*)\)$/, '$1'));
+}
+
+function getSuperclass(node: Parser.SyntaxNode): string | null {
+  const superclass = node.childForFieldName('superclass') || node.childForFieldName('superclasses');
+  if (superclass) {
+    return superclass.namedChildren[0]?.text || null;
+  }
+
+  for (const child of node.namedChildren) {
+    if (child.type === 'class_heritage') {
+      // TypeScript wraps the base class in an extends_clause, JavaScript does not
+      const extendsClause = child.namedChildren.find(c => c.type === 'extends_clause');
+      return extendsClause ? extendsClause.childForFieldName('value')?.text || null : child.namedChildren[0]?.text || null;
+    }
+    if (child.type === 'base_clause') {
+      return child.namedChildren[0]?.text || null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Python docstring, or the comments directly above a declaration
+ */
+function getDoc(node: Parser.SyntaxNode, outer: Parser.SyntaxNode): string | undefined {
+  const body = node.childForFieldName('body');
+  const firstStatement = body?.namedChildren[0];
+  if (node.type.endsWith('_definition') && firstStatement?.type === 'expression_statement' && firstStatement.namedChildren[0]?.type === 'string') {
+    return firstStatement.namedChildren[0].text;
+  }
+
+  const comments: string[] = [];
+  let sibling = outer.previousNamedSibling;
+  let nextStartRow = outer.startPosition.row;
+  while (sibling && sibling.type === 'comment' && sibling.endPosition.row >= nextStartRow - 1) {
+    comments.unshift(sibling.text);
+    nextStartRow = sibling.startPosition.row;
+    sibling = sibling.previousNamedSibling;
+  }
+
+  return comments.length > 0 ? comments.join('\n') : undefined;
+}
+
+/**
+ * Symbol for a declaration node, or null if the node does not declare one
+ */
+function toSymbol(node: Parser.SyntaxNode, spec: LanguageSpec, parent: CodeSymbol | null): CodeSymbol | null {
+  let kind = spec.declarations[node.type];
+  let nameNode = node.childForFieldName('name');
+  let declaration = node;
+
+  // const handler = async () => {} and class fields holding arrow functions
+  if (!kind && (node.type === 'variable_declarator' || node.type === 'public_field_definition' || node.type === 'field_definition')) {
+    const value = node.childForFieldName('value');
+    if (!value || !['arrow_function', 'function', 'function_expression', 'generator_function'].includes(value.type)) {
+      return null;
+    }
+    kind = parent ? 'method' : 'function';
+    nameNode = node.childForFieldName('name') || node.childForFieldName('property');
+    declaration = value;
+  }
+
+  if (!kind || !nameNode) return null;
+
+  // Go type declarations
+  if (node.type === 'type_spec') {
+    const typeNode = node.childForFieldName('type');
+    kind = typeNode?.type === 'struct_type' ? 'struct' : typeNode?.type === 'interface_type' ? 'interface' : 'type';
+  }
+  if (kind === 'function' && parent && CONTAINER_KINDS.has(parent.kind)) {
+    kind = 'method';
+  }
+
+  // Include the export keyword, decorators and the const statement in the range
+  let outer = node;
+  if (node.parent && SINGLE_DECLARATION_NODE_TYPES.has(node.parent.type) && node.parent.namedChildCount === 1) {
+    outer = node.parent;
+  }
+  while (outer.parent && WRAPPER_NODE_TYPES.has(outer.parent.type)) {
+    outer = outer.parent;
+  }
+  // Method decorators (@Get() above a class method) are siblings rather than parents
+  let first = outer;
+  while (first.previousNamedSibling?.type === 'decorator') {
+    first = first.previousNamedSibling;
+  }
+
+  // Go methods belong to their receiver type
+  let parentName = parent?.name;
+  if (node.type === 'method_declaration' && node.childForFieldName('receiver')) {
+    const receiverType = node.childForFieldName('receiver').descendantsOfType('type_identifier')[0];
+    parentName = receiverType?.text || parentName;
+  }
+  if (kind === 'method' && !parentName) {
+    kind = 'function';
+  }
+
+  const body = declaration.childForFieldName('body');
+  const symbol: CodeSymbol = {
+    name: nameNode.text,
+    kind,
+    params: getParams(declaration),
+    body: body ? body.text.substring(0, MAX_BODY_CHARS) : '',
+    startLine: first.startPosition.row + 1,
+    endLine: outer.endPosition.row + 1,
+    doc: getDoc(node, first)
+  };
+
+  if (parentName) {
+    symbol.parent = parentName;
+  }
+  if (kind === 'class') {
+    symbol.extends = getSuperclass(node);
+  }
+
+  return symbol;
+}
+
+function collectSymbols(node: Parser.SyntaxNode, spec: LanguageSpec, parent: CodeSymbol | null, symbols: CodeSymbol[]): void {
+  for (const child of node.namedChildren) {
+    const symbol = toSymbol(child, spec, parent);
+    if (symbol) {
+      symbols.push(symbol);
+    }
+
+    // Only classes and modules give their contents a parent; nested functions keep the outer one
+    const nextParent = symbol && CONTAINER_KINDS.has(symbol.kind) ? symbol : parent;
+    collectSymbols(child, spec, nextParent, symbols);
+  }
+}
+
+/**
+ * Parse a source file into symbols with line ranges
+ * @returns The parsed symbols, or null when the file should be parsed with the regex fallback
+ */
+export async function parseSource(code: string, filePath: string): Promise<ParsedSource | null> {
+  const language = getSyntaxLanguage(filePath);
+  if (!language || code.length > MAX_PARSE_CHARS) return null;
+
+  if (!(await initParser())) return null;
+  const grammar = await loadLanguage(language);
+  if (!grammar) return null;
+
+  const parser = new Parser();
+  let tree: Parser.Tree | null = null;
+
+  try {
+    parser.setLanguage(grammar);
+    parser.setTimeoutMicros(PARSE_TIMEOUT_MICROS);
+    tree = parser.parse(code);
+    if (!tree) {
+      console.warn(`🌳 Parsing ${filePath} timed out, using regex parsing`);
+      return null;
+    }
+
+    const symbols: CodeSymbol[] = [];
+    collectSymbols(tree.rootNode, LANGUAGES[language], null, symbols);
+    return { language, symbols, blockDocComments: LANGUAGES[language].usesBlockDocs };
+  } catch (error) {
+    console.warn(`🌳 Could not parse ${filePath}, using regex parsing:`, error);
+    return null;
+  } finally {
+    tree?.delete();
+    parser.delete();
+  }
+}
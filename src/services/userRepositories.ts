@@ -1,6 +1,7 @@
-
-// User repositories service - simplified version that uses the existing repository config
+// User repositories service - stores every connected repository. The active one is
+// mirrored into the repository config, which the GitHub connector reads.
 import { getRepositoryConfig, saveRepositoryConfig, clearRepositoryConfig } from './repositoryConfig';
+import { clearScanCache } from './scanScheduler';
 
 export interface UserRepository {
   id: string;
@@ -12,44 +13,181 @@ export interface UserRepository {
   lastUsed: string;
 }
 
+// Local storage key for the list of connected repositories
+const USER_REPOSITORIES_KEY = 'unfold_user_repositories';
+
+// Id used for the single repository stored before multi-repository support;
+// keeping it means that repository's existing scan cache is still found
+const LEGACY_REPOSITORY_ID = 'current';
+
+function createRepositoryId(owner: string, repo: string): string {
+  return `${owner}/${repo}`.toLowerCase();
+}
+
+function isSameRepository(a: { owner: string; repo: string }, b: { owner: string; repo: string }): boolean {
+  return a.owner.toLowerCase() === b.owner.toLowerCase() && a.repo.toLowerCase() === b.repo.toLowerCase();
+}
+
+function readRepositories(): UserRepository[] | null {
+  try {
+    const reposString = localStorage.getItem(USER_REPOSITORIES_KEY);
+    return reposString ? JSON.parse(reposString) as UserRepository[] : null;
+  } catch (error) {
+    console.error('Error reading user repositories:', error);
+    return null;
+  }
+}
+
+function writeRepositories(repos: UserRepository[]): void {
+  try {
+    localStorage.setItem(USER_REPOSITORIES_KEY, JSON.stringify(repos));
+  } catch (error) {
+    console.error('Error saving user repositories:', error);
+  }
+}
+
+/**
+ * Get every connected repository.
+ * A repository connected directly through the repository config (onboarding fallbacks,
+ * or anything stored before multi-repository support) is added to the list.
+ */
 export function getUserRepositories(): UserRepository[] {
+  const storedRepos = readRepositories();
+  const repos = storedRepos || [];
   const config = getRepositoryConfig();
-  if (!config) return [];
-  
-  return [{
-    id: 'current',
-    owner: config.owner,
-    repo: config.repo,
-    token: config.token,
-    nickname: undefined,
-    createdAt: config.lastAccessed,
-    lastUsed: config.lastAccessed
-  }];
+
+  if (config?.owner && config.repo && config.token) {
+    const existing = repos.find(repo => isSameRepository(repo, config));
+
+    if (!existing) {
+      const now = new Date().toISOString();
+      repos.push({
+        id: storedRepos ? createRepositoryId(config.owner, config.repo) : LEGACY_REPOSITORY_ID,
+        owner: config.owner,
+        repo: config.repo,
+        token: config.token,
+        createdAt: config.lastAccessed || now,
+        lastUsed: config.lastAccessed || now
+      });
+      writeRepositories(repos);
+    } else if (existing.token !== config.token) {
+      // The token was updated through the repository config
+      existing.token = config.token;
+      writeRepositories(repos);
+    }
+  }
+
+  return repos;
 }
 
+/**
+ * Add a repository, or update the token and nickname of one already connected
+ * @returns The stored repository
+ */
 export function saveUserRepository(owner: string, repo: string, token: string, nickname?: string): UserRepository {
-  saveRepositoryConfig({ owner, repo, token });
-  
-  return {
-    id: 'current',
-    owner,
-    repo,
-    token,
-    nickname,
-    createdAt: new Date().toISOString(),
-    lastUsed: new Date().toISOString()
-  };
+  const repos = getUserRepositories();
+  const now = new Date().toISOString();
+  let saved = repos.find(existing => isSameRepository(existing, { owner, repo }));
+
+  if (saved) {
+    saved.token = token;
+    if (nickname !== undefined) {
+      saved.nickname = nickname || undefined;
+    }
+  } else {
+    saved = {
+      id: createRepositoryId(owner, repo),
+      owner,
+      repo,
+      token,
+      nickname: nickname || undefined,
+      createdAt: now,
+      lastUsed: now
+    };
+    repos.push(saved);
+  }
+
+  writeRepositories(repos);
+
+  // Keep the connector's token current when the active repository is updated
+  const config = getRepositoryConfig();
+  if (config && isSameRepository(config, saved)) {
+    saveRepositoryConfig({ owner: saved.owner, repo: saved.repo, token: saved.token });
+  }
+
+  return saved;
 }
 
+/**
+ * Set or clear a repository's nickname
+ */
+export function updateRepositoryNickname(id: string, nickname: string): void {
+  const repos = getUserRepositories();
+  const repo = repos.find(existing => existing.id === id);
+  if (!repo) return;
+
+  repo.nickname = nickname.trim() || undefined;
+  writeRepositories(repos);
+}
+
+/**
+ * Remove a repository and its scan cache.
+ * Removing the active repository activates the most recently used remaining one.
+ */
 export function removeUserRepository(id: string): void {
-  clearRepositoryConfig();
+  const repos = getUserRepositories();
+  const removed = repos.find(repo => repo.id === id);
+  if (!removed) return;
+
+  const remaining = repos.filter(repo => repo.id !== id);
+  writeRepositories(remaining);
+  clearScanCache(id);
+
+  const config = getRepositoryConfig();
+  if (config && isSameRepository(config, removed)) {
+    clearRepositoryConfig();
+
+    const next = [...remaining].sort((a, b) => b.lastUsed.localeCompare(a.lastUsed))[0];
+    if (next) {
+      setActiveRepository(next.id);
+    }
+  }
 }
 
+/**
+ * Get the repository the GitHub connector is currently using
+ */
 export function getActiveRepository(): UserRepository | null {
+  const config = getRepositoryConfig();
+  if (!config?.owner || !config.repo) return null;
+
+  return getUserRepositories().find(repo => isSameRepository(repo, config)) || null;
+}
+
+/**
+ * Make a repository active by pointing the repository config at it.
+ * Callers still need to re-initialize the GitHub client and knowledge base.
+ * @returns The activated repository, or null if the id is unknown
+ */
+export function setActiveRepository(id: string): UserRepository | null {
   const repos = getUserRepositories();
-  return repos.length > 0 ? repos[0] : null;
+  const repo = repos.find(existing => existing.id === id);
+  if (!repo) {
+    console.warn(`Cannot activate unknown repository ${id}`);
+    return null;
+  }
+
+  repo.lastUsed = new Date().toISOString();
+  writeRepositories(repos);
+  saveRepositoryConfig({ owner: repo.owner, repo: repo.repo, token: repo.token });
+
+  console.log(`Active repository set to ${repo.owner}/${repo.repo}`);
+  return repo;
 }
 
-export function setActiveRepository(id: string): void {
-  // Since we only support one repository, this is a no-op
+/**
+ * Name to show for a repository: its nickname, or owner/repo
+ */
+export function getRepositoryDisplayName(repo: UserRepository): string {
+  return repo.nickname || `${repo.owner}/${repo.repo}`;
 }
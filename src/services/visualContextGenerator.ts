@@ -1,212 +1,342 @@
+// Diagrams for answers, drawn only from the code the search found: call chains as
+// sequence diagrams, imports as component diagrams, ORM models as ER diagrams and
+// switch statements over a status as state diagrams
+import { DatabaseSchema, extractDatabaseSchema, ExtractedFunction } from './codeParser';
+import { getDependencyGraph, getFileContents } from './dependencyGraph';
+import { getCurrentRepository } from './githubConnector';
+import { getKnowledgeEntries } from './knowledgeBase';
+import { KnowledgeEntry } from './knowledgeBase/types';
+
+export type VisualContextType = 'flowchart' | 'component' | 'state' | 'sequence' | 'er';
+
+export interface VisualContext {
+  type: VisualContextType;
+  syntax: string;
+  // What the diagram shows, e.g. "Calls made by checkout()"
+  title?: string;
+}
+
+interface CallableFunction {
+  name: string;
+  // Qualified with its class, e.g. "BillingService.charge"
+  label: string;
+  filePath: string;
+  body: string;
+}
+
+// Files of the top results a diagram is drawn from
+const MAX_DIAGRAM_FILES = 6;
+const MAX_SEQUENCE_MESSAGES = 12;
+const MAX_CALL_DEPTH = 3;
+const MAX_COMPONENT_NODES = 12;
+const MAX_ER_MODELS = 10;
+const MAX_ER_FIELDS = 8;
+const MIN_TRANSITIONS = 2;
+
+// Words that pick the kind of diagram; without one, each kind is tried in turn
+const DIAGRAM_KEYWORDS: [Exclude<VisualContextType, 'flowchart'>, RegExp][] = [
+  ['state', /\b(state|status|statuses|lifecycle|transitions?|stages?)\b/i],
+  ['er', /\b(models?|schemas?|database|tables?|entit(y|ies)|relations?(hips?)?|data model)\b/i],
+  ['component', /\b(components?|architecture|structure|modules?|depend(s|encies|ency)?|imports?)\b/i],
+  ['sequence', /\b(flow|process|calls?|sequence|steps|what happens|how does|how do)\b/i]
+];
+const DIAGRAM_QUESTION_PATTERN = /\b(diagram|flow|process|components?|architecture|structure|state|status|lifecycle|schema|models?|sequence|depend\w*)\b/i;
+
+// Identifiers followed by "(" that are never calls to the code's own functions
+const CALL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'typeof', 'await', 'new', 'super', 'constructor']);
+// Property or variable names a switch over a state is recognized by
+const STATE_NAME_PATTERN = /(state|status|phase|stage|step|mode)$/i;
 
 /**
- * Generates visual context diagrams based on query and knowledge results
- * @param {string} query - User query
- * @param {Array} results - Knowledge base search results
- * @returns {object|null} Visual context object for rendering diagrams
+ * Whether a question is likely to be helped by a diagram
  */
-export function generateVisualContext(
-  query: string,
-  results: any[]
-): { type: 'flowchart' | 'component' | 'state'; syntax: string } | null {
-  
-  // Determine the most appropriate visualization type based on query
-  let visualizationType: 'flowchart' | 'component' | 'state' = 'flowchart';
-  
-  if (query.toLowerCase().includes('component') || 
-      query.toLowerCase().includes('architecture') ||
-      query.toLowerCase().includes('structure')) {
-    visualizationType = 'component';
-  } else if (query.toLowerCase().includes('state') || 
-             query.toLowerCase().includes('status')) {
-    visualizationType = 'state';
-  }
-  
-  // Subscription flow diagram
-  if (query.toLowerCase().includes('subscription') || 
-      query.toLowerCase().includes('payment')) {
-    return {
-      type: 'flowchart',
-      syntax: `
-flowchart TB
-    subgraph Member
-      Start[Member visits site] --> Free[Views free content]
-      Free --> Subscribe[Clicks subscribe]
-    end
-    Subscribe --> CheckoutFlow
-    subgraph CheckoutFlow
-      SelectPlan[Select plan] --> EnterCard[Enter card details]
-      EnterCard --> ProcessPayment[Process payment with Stripe]
-    end
-    ProcessPayment -->|Success| GrantAccess[Grant premium access]
-    ProcessPayment -->|Failure| RetryPayment[Retry payment]
-    RetryPayment -->|Success| GrantAccess
-    RetryPayment -->|Failure| NotifyFailure[Notify member & admin]
-    GrantAccess --> AccessContent[Access premium content]
-    
-    subgraph Expiration
-      MonthlyCheck[Monthly check] --> CheckValid[Check if subscription valid]
-      CheckValid -->|Valid| MaintainAccess[Maintain premium access]
-      CheckValid -->|Invalid| DowngradeAccess[Downgrade to free access]
-    end
-`
-    };
-  }
-  
-  // Content publishing flow
-  if (query.toLowerCase().includes('post') || 
-      query.toLowerCase().includes('content') ||
-      query.toLowerCase().includes('publish')) {
-    return {
-      type: 'flowchart',
-      syntax: `
-flowchart TD
-    Start[Author creates post] --> Draft[Save as draft]
-    Draft --> Edit[Edit content]
-    Edit --> SetVisibility[Set visibility]
-    SetVisibility -->|Public| AllAccess[Available to everyone]
-    SetVisibility -->|Members-only| MembersAccess[Available to all members]
-    SetVisibility -->|Paid members| PaidAccess[Available to paid members only]
-    SetVisibility --> Schedule[Schedule publication]
-    SetVisibility --> PublishNow[Publish immediately]
-    Schedule --> AutoPublish[Auto-publish at scheduled time]
-    PublishNow --> Live[Post goes live]
-    AutoPublish --> Live
-`
+export function isDiagramQuestion(query: string): boolean {
+  return DIAGRAM_QUESTION_PATTERN.test(query);
+}
+
+function getFileLabel(filePath: string): string {
+  return filePath.split('/').pop() || filePath;
+}
+
+// Mermaid labels can't contain quotes, and # starts an entity code
+function escapeLabel(text: string): string {
+  return text.replace(/"/g, "'").replace(/#/g, '');
+}
+
+/**
+ * Functions the scan found with their bodies, by name
+ */
+function getFunctionIndex(): Map<string, CallableFunction[]> {
+  const index = new Map<string, CallableFunction[]>();
+  getKnowledgeEntries().forEach(entry => {
+    if (entry.type !== 'function' || !entry.metadata?.body) return;
+    const func = entry.metadata as ExtractedFunction;
+    const callable = {
+      name: func.name,
+      label: func.parent ? `${func.parent}.${func.name}` : func.name,
+      filePath: entry.filePath,
+      body: func.body
     };
+    const existing = index.get(func.name) || [];
+    if (!existing.some(candidate => candidate.filePath === callable.filePath && candidate.label === callable.label)) {
+      index.set(func.name, [...existing, callable]);
+    }
+  });
+  return index;
+}
+
+/**
+ * Functions a function calls, in the order of their first call. Only functions in the same
+ * file or in a file it imports count, so common names don't link unrelated code.
+ */
+function findCalls(caller: CallableFunction, index: Map<string, CallableFunction[]>): CallableFunction[] {
+  const reachable = new Set([caller.filePath, ...(getDependencyGraph().dependencies.get(caller.filePath) || []).map(edge => edge.filePath)]);
+  const calls: CallableFunction[] = [];
+
+  for (const match of caller.body.matchAll(/([A-Za-z_$][\w$]*)\s*\(/g)) {
+    if (CALL_KEYWORDS.has(match[1]) || match[1] === caller.name) continue;
+    const callee = (index.get(match[1]) || []).find(candidate => reachable.has(candidate.filePath));
+    if (callee && !calls.includes(callee)) calls.push(callee);
   }
-  
-  // Authentication flow
-  if (query.toLowerCase().includes('auth') || 
-      query.toLowerCase().includes('login') ||
-      query.toLowerCase().includes('signup')) {
-    return {
-      type: 'flowchart',
-      syntax: `
-flowchart TD
-    Start[User visits site] --> LoginChoice[Login/Signup choice]
-    LoginChoice -->|New user| Signup[Sign up form]
-    LoginChoice -->|Existing user| Login[Login form]
-    Signup --> EnterDetails[Enter email & password]
-    EnterDetails --> VerifyEmail[Verify email]
-    VerifyEmail -->|Verified| SetupAccount[Complete account setup]
-    Login --> EnterCreds[Enter credentials]
-    Login -->|Magic link| RequestMagic[Request magic link]
-    RequestMagic --> ReceiveEmail[Receive email]
-    ReceiveEmail --> ClickLink[Click magic link]
-    EnterCreds --> Validate[Validate credentials]
-    ClickLink --> GenerateSession[Generate user session]
-    Validate -->|Valid| GenerateSession
-    Validate -->|Invalid| RetryLogin[Retry login]
-    SetupAccount --> GenerateSession
-    GenerateSession --> Authorized[User authorized]
-`
-    };
+  return calls;
+}
+
+/**
+ * Sequence diagram of the calls made by the most relevant function that calls others
+ */
+function generateSequenceDiagram(results: KnowledgeEntry[], files: string[]): VisualContext | null {
+  const index = getFunctionIndex();
+  const functions = Array.from(index.values()).flat();
+  const resultFunctions = results
+    .filter(result => result.type === 'function' && result.metadata?.name)
+    .map(result => functions.find(func => func.filePath === result.filePath && func.name === result.metadata.name))
+    .filter(Boolean);
+  const candidates = [...resultFunctions, ...files.flatMap(file => functions.filter(func => func.filePath === file))];
+
+  const start = candidates.find(func => findCalls(func, index).length > 0);
+  if (!start) return null;
+
+  // Participants are files, messages are calls, followed depth-first in call order
+  const participants: string[] = [];
+  const messages: string[] = [];
+  const expanded = new Set<CallableFunction>();
+  const participantOf = (filePath: string) => {
+    if (!participants.includes(filePath)) participants.push(filePath);
+    return `p${participants.indexOf(filePath)}`;
+  };
+
+  const follow = (caller: CallableFunction, depth: number) => {
+    if (expanded.has(caller) || depth > MAX_CALL_DEPTH) return;
+    expanded.add(caller);
+    for (const callee of findCalls(caller, index)) {
+      if (messages.length >= MAX_SEQUENCE_MESSAGES) return;
+      messages.push(`  ${participantOf(caller.filePath)}->>${participantOf(callee.filePath)}: ${escapeLabel(callee.label)}()`);
+      follow(callee, depth + 1);
+    }
+  };
+  participantOf(start.filePath);
+  follow(start, 1);
+
+  if (messages.length < 2) return null;
+  return {
+    type: 'sequence',
+    title: `Calls made by ${start.label}()`,
+    syntax: [
+      'sequenceDiagram',
+      ...participants.map((filePath, position) => `  participant p${position} as ${escapeLabel(getFileLabel(filePath))}`),
+      ...messages
+    ].join('\n')
+  };
+}
+
+/**
+ * Component diagram of the relevant files, the files they import and the files importing them
+ */
+function generateComponentDiagram(files: string[]): VisualContext | null {
+  const graph = getDependencyGraph();
+  const nodes: string[] = [...files];
+  const edges: [string, string][] = [];
+  const addEdge = (from: string, to: string) => {
+    [from, to].forEach(node => {
+      if (!nodes.includes(node) && nodes.length < MAX_COMPONENT_NODES) nodes.push(node);
+    });
+    if (nodes.includes(from) && nodes.includes(to) && !edges.some(([a, b]) => a === from && b === to)) {
+      edges.push([from, to]);
+    }
+  };
+
+  files.forEach(file => (graph.dependencies.get(file) || []).forEach(edge => addEdge(file, edge.filePath)));
+  files.forEach(file => (graph.dependents.get(file) || []).forEach(edge => addEdge(edge.filePath, file)));
+
+  if (edges.length === 0) return null;
+  const shown = nodes.filter(node => edges.some(edge => edge.includes(node)));
+  const id = (node: string) => `f${shown.indexOf(node)}`;
+  return {
+    type: 'component',
+    title: 'How the relevant files import each other',
+    syntax: [
+      'flowchart LR',
+      ...shown.map(node => `  ${id(node)}["${escapeLabel(getFileLabel(node))}"]`),
+      ...edges.map(([from, to]) => `  ${id(from)} --> ${id(to)}`),
+      '  classDef relevant fill:#eef2ff,stroke:#6366f1',
+      `  class ${shown.filter(node => files.includes(node)).map(id).join(',')} relevant`
+    ].join('\n')
+  };
+}
+
+// Crow's foot notation for each relationship kind, read from the model that declares it
+const ER_CARDINALITIES: Record<string, string> = {
+  hasMany: '||--o{',
+  hasOne: '||--o|',
+  belongsTo: '}o--||',
+  belongsToMany: '}o--o{'
+};
+
+/**
+ * ER diagram of the ORM models in the relevant files, or in the whole scan when the question
+ * is about the data model and none of the relevant files define one
+ */
+function generateErDiagram(files: string[], contents: Map<string, string>, preferred: boolean): VisualContext | null {
+  const readModels = (paths: string[]) => {
+    const models = new Map<string, DatabaseSchema>();
+    paths.forEach(path => Object.entries(extractDatabaseSchema(contents.get(path) || '')).forEach(([name, schema]) => {
+      if (name !== 'UnknownModel') models.set(name, schema);
+    }));
+    return models;
+  };
+
+  let models = readModels(files);
+  if (models.size === 0 && preferred) models = readModels(Array.from(contents.keys()));
+  if (models.size === 0) return null;
+
+  const shown = Array.from(models.entries()).slice(0, MAX_ER_MODELS);
+  const lines = ['erDiagram'];
+  shown.forEach(([name, schema]) => {
+    lines.push(`  ${name} {`);
+    schema.fields.slice(0, MAX_ER_FIELDS).forEach(field => {
+      const type = (schema.fieldTypes?.[field] || 'field').replace(/\[\]$/, '_list').replace(/\W/g, '');
+      lines.push(`    ${type} ${field}`);
+    });
+    lines.push('  }');
+  });
+  shown.forEach(([name, schema]) => {
+    schema.relationships.forEach(relationship => {
+      const [kind, target] = relationship.split(' ');
+      if (ER_CARDINALITIES[kind] && target) lines.push(`  ${name} ${ER_CARDINALITIES[kind]} ${target} : "${kind}"`);
+    });
+  });
+
+  return { type: 'er', title: 'Data models and their relationships', syntax: lines.join('\n') };
+}
+
+/**
+ * "'draft'" or "Status.Draft" -> "draft" or "Draft"
+ */
+function getStateName(value: string): string | null {
+  const match = value.trim().match(/^(?:['"`]([\w -]+)['"`]|(?:[\w$]+\.)*([A-Za-z_$][\w$]*))$/);
+  const name = match ? match[1] || match[2] : null;
+  return name && !['true', 'false', 'null', 'undefined'].includes(name) ? name : null;
+}
+
+/**
+ * Code up to the brace closing a block that starts at the given index
+ */
+function readBlock(code: string, start: number): string {
+  let depth = 1;
+  for (let i = start; i < code.length; i++) {
+    if (code[i] === '{') depth++;
+    else if (code[i] === '}' && --depth === 0) return code.slice(start, i);
   }
-  
-  // Ghost component architecture
-  if (query.toLowerCase().includes('architecture') || 
-      query.toLowerCase().includes('component') ||
-      query.toLowerCase().includes('structure')) {
-    return {
-      type: 'component',
-      syntax: `
-flowchart TD
-    subgraph Frontend
-      Theme[Themes] --> Handlebars[Handlebars Templates]
-      Admin[Admin Interface] --> Ember[Ember.js]
-    end
-    
-    subgraph API
-      ContentAPI[Content API] --> PublicContent[Public Content Access]
-      AdminAPI[Admin API] --> Management[Site Management]
-    end
-    
-    subgraph Core
-      Router[Routing] --> Controllers[Controllers]
-      Controllers --> Models[Models]
-      Models --> Database[(Database)]
-      Services[Services] --> Models
-      Auth[Authentication] --> Services
-      Members[Members System] --> Services
-      Payments[Payment Processing] --> Stripe[(Stripe API)]
-      Email[Email Service] --> EmailProviders[(Email Providers)]
-    end
-    
-    Frontend --> API
-    API --> Core
-`
-    };
+  return code.slice(start);
+}
+
+/**
+ * Transitions in switch statements over a state: in the case for one value, the same
+ * state is set to another, e.g. case 'draft': order.status = 'published'
+ */
+function findStateTransitions(code: string): { subject: string; transitions: [string, string][] } | null {
+  for (const match of code.matchAll(/\bswitch\s*\(\s*([\w$.]+)\s*\)\s*{/g)) {
+    const subject = match[1].split('.').pop();
+    if (!STATE_NAME_PATTERN.test(subject)) continue;
+
+    const body = readBlock(code, match.index + match[0].length);
+    const setter = `set${subject.charAt(0).toUpperCase()}${subject.slice(1)}`;
+    const assignment = new RegExp(`(?:\\b${subject}\\s*(?:=(?!=)|:)\\s*|\\b${setter}\\s*\\(\\s*)(['"\`][\\w -]+['"\`]|[\\w$.]+)`, 'g');
+    const transitions: [string, string][] = [];
+
+    // Each case's statements run to the next case label; labels without statements fall through
+    const sections = body.split(/\bcase\s+/).slice(1);
+    let labels: string[] = [];
+    for (const section of sections) {
+      const colon = section.indexOf(':');
+      const label = getStateName(section.slice(0, colon));
+      if (label) labels.push(label);
+      const statements = section.slice(colon + 1).split(/\bdefault\s*:/)[0];
+      const targets = Array.from(statements.matchAll(assignment), target => getStateName(target[1])).filter(Boolean);
+      if (statements.trim() === '') continue;
+
+      labels.forEach(from => targets.forEach(to => {
+        if (from !== to && !transitions.some(([a, b]) => a === from && b === to)) transitions.push([from, to]);
+      }));
+      labels = [];
+    }
+
+    if (transitions.length >= MIN_TRANSITIONS) return { subject, transitions };
   }
-  
-  // Member states diagram
-  if (query.toLowerCase().includes('member') && 
-     (query.toLowerCase().includes('status') || 
-      query.toLowerCase().includes('state'))) {
+  return null;
+}
+
+function generateStateDiagram(files: string[], contents: Map<string, string>): VisualContext | null {
+  for (const file of files) {
+    const found = findStateTransitions(contents.get(file) || '');
+    if (!found) continue;
+
+    const states = Array.from(new Set(found.transitions.flat()));
+    const id = (state: string) => `s${states.indexOf(state)}`;
     return {
       type: 'state',
-      syntax: `
-stateDiagram-v2
-    [*] --> Free: Sign up
-    Free --> Paid: Subscribe
-    Paid --> Free: Subscription expires
-    Free --> Deleted: Delete account
-    Paid --> Deleted: Delete account
-    Paid --> Comped: Admin comps account
-    Comped --> Free: Comp expires
-    Paid --> PaidOtherTier: Change tier
-`
+      title: `Changes of ${found.subject} in ${getFileLabel(file)}`,
+      syntax: [
+        'stateDiagram-v2',
+        ...states.map(state => `  state "${escapeLabel(state)}" as ${id(state)}`),
+        ...found.transitions.map(([from, to]) => `  ${id(from)} --> ${id(to)}`)
+      ].join('\n')
     };
   }
-  
-  // Generate a custom diagram based on the results if no predefined diagram matches
-  if (results.length > 0) {
-    // Extract entities and relationships from results
-    const entities = new Set<string>();
-    const relationships: [string, string, string][] = [];
-    
-    results.forEach(result => {
-      if (result.type === 'function' && result.metadata?.name) {
-        entities.add(result.metadata.name);
-      }
-      
-      if (result.type === 'export') {
-        const exportName = Object.keys(result.exports || {})[0];
-        if (exportName) entities.add(exportName);
-      }
-      
-      // Detect potential relationships from content
-      const content = result.content.toLowerCase();
-      if (content.includes('require(') || content.includes('import ')) {
-        for (const entity of entities) {
-          if (content.includes(entity.toLowerCase())) {
-            relationships.push([result.filePath.split('/').pop()?.split('.')[0] || 'Unknown', 'uses', entity]);
-          }
-        }
-      }
-    });
-    
-    // If we found interesting relationships, create a custom diagram
-    if (relationships.length > 0) {
-      let syntax = 'flowchart LR\n';
-      
-      // Add nodes
-      entities.forEach(entity => {
-        syntax += `    ${entity}[${entity}]\n`;
-      });
-      
-      // Add relationships
-      relationships.slice(0, 10).forEach(([source, relation, target]) => {
-        syntax += `    ${source} -->|${relation}| ${target}\n`;
-      });
-      
-      return {
-        type: 'flowchart',
-        syntax
-      };
+  return null;
+}
+
+/**
+ * Generates a diagram from the search results: the kind the question asks for first, then
+ * the others. Returns null when the code doesn't support any, rather than a generic picture.
+ * @param {string} query - User query
+ * @param {Array} results - Knowledge base search results
+ * @returns {object|null} Visual context object for rendering diagrams
+ */
+export function generateVisualContext(query: string, results: KnowledgeEntry[]): VisualContext | null {
+  // The graph and function bodies are of the active repository
+  const repository = getCurrentRepository();
+  const relevant = results.filter(result => !result.repository ||
+    (result.repository.owner === repository?.owner && result.repository.repo === repository?.repo));
+  const files = Array.from(new Set(relevant.map(result => result.filePath))).slice(0, MAX_DIAGRAM_FILES);
+  if (files.length === 0) return null;
+
+  const contents = getFileContents(getKnowledgeEntries());
+  const asked = DIAGRAM_KEYWORDS.filter(([, pattern]) => pattern.test(query)).map(([type]) => type);
+  const order = [...asked, ...(['sequence', 'component', 'state', 'er'] as const).filter(type => !asked.includes(type))];
+
+  for (const type of order) {
+    const diagram =
+      type === 'sequence' ? generateSequenceDiagram(relevant, files) :
+      type === 'component' ? generateComponentDiagram(files) :
+      type === 'state' ? generateStateDiagram(files, contents) :
+      generateErDiagram(files, contents, asked.includes('er'));
+    if (diagram) {
+      console.log(`📊 Generated ${diagram.type} diagram: ${diagram.title}`);
+      return diagram;
     }
   }
-  
-  // Default return null if we couldn't generate anything relevant
+
+  console.log('📊 No diagram: the relevant code has no calls, imports, models or state changes to draw');
   return null;
 }